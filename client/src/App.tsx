@@ -8,9 +8,16 @@ import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import Appointments from "@/pages/appointments";
 import Clients from "@/pages/clients";
+import ClientProfile from "@/pages/client-profile";
 import Artists from "@/pages/artists";
 import Inventory from "@/pages/inventory";
 import Sales from "@/pages/sales";
+import Waitlist from "@/pages/waitlist";
+import WalkIns from "@/pages/walk-ins";
+import BookingRequests from "@/pages/booking-requests";
+import Settings from "@/pages/settings";
+import Book from "@/pages/book";
+import Kiosk from "@/pages/kiosk";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -18,16 +25,25 @@ function Router() {
 
   return (
     <Switch>
+      {/* Public booking page, available whether or not staff are signed in */}
+      <Route path="/book" component={Book} />
+      {/* Front-desk tablet check-in; authenticated by its link, never shows staff pages */}
+      <Route path="/kiosk/:token" component={Kiosk} />
       {isLoading || !isAuthenticated ? (
         <Route path="/" component={Landing} />
       ) : (
         <>
           <Route path="/" component={Dashboard} />
           <Route path="/appointments" component={Appointments} />
+          <Route path="/waitlist" component={Waitlist} />
+          <Route path="/walk-ins" component={WalkIns} />
+          <Route path="/booking-requests" component={BookingRequests} />
           <Route path="/clients" component={Clients} />
+          <Route path="/clients/:id" component={ClientProfile} />
           <Route path="/artists" component={Artists} />
           <Route path="/inventory" component={Inventory} />
           <Route path="/sales" component={Sales} />
+          <Route path="/settings" component={Settings} />
         </>
       )}
       <Route component={NotFound} />
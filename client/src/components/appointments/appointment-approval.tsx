@@ -0,0 +1,74 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { isAwaitingApproval } from "@shared/reliability";
+import type { AppointmentWithRelations } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+
+interface AppointmentApprovalProps {
+  appointment: AppointmentWithRelations;
+}
+
+export function AppointmentApproval({ appointment }: AppointmentApprovalProps) {
+  const timeZone = useStudioTimeZone();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/appointments/${appointment.id}/approve`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Success",
+        description: "Booking approved",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to approve booking",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isAwaitingApproval(appointment)) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Approved on {new Date(appointment.approvedAt!).toLocaleDateString("en-US", { timeZone })}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        This client is over the studio's reliability threshold, so a manager has to approve the booking
+        before it can be confirmed.
+      </p>
+      {user?.role === "admin" && (
+        <Button size="sm" onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+          {mutation.isPending ? "Approving..." : "Approve"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { depositStatusLabels, isLateCancellation } from "@shared/deposits";
+import type { AppointmentWithRelations, StudioSettings } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface AppointmentDepositProps {
+  appointment: AppointmentWithRelations;
+}
+
+const depositStatusColors: Record<AppointmentWithRelations["depositStatus"], string> = {
+  not_required: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  paid: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  applied: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  forfeited: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  expired: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  refund_due: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  refunded: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+};
+
+export function AppointmentDeposit({ appointment }: AppointmentDepositProps) {
+  const timeZone = useStudioTimeZone();
+
+  const [paymentMethod, setPaymentMethod] = useState("card");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<StudioSettings>({
+    queryKey: ["/api/settings"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    toast({
+      title: "Error",
+      description: getErrorPayload<{ message: string }>(error)?.message ?? description,
+      variant: "destructive",
+    });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/appointments/${appointment.id}/deposit`, { paymentMethod });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Success",
+        description: "Deposit recorded",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to record deposit"),
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/appointments/${appointment.id}/deposit/refund`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Success",
+        description: "Deposit marked as refunded",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to record refund"),
+  });
+
+  const formatDateTime = (date: Date | string | null) => {
+    if (!date) return "";
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    });
+  };
+
+  const amount = Number(appointment.depositAmount ?? 0);
+  const isActive = appointment.status !== "cancelled" && appointment.status !== "no_show";
+  const lateCancellation =
+    !!settings &&
+    appointment.depositStatus === "paid" &&
+    isActive &&
+    settings.forfeitDepositOnLateCancel &&
+    isLateCancellation(appointment.scheduledDate, settings.lateCancellationHours);
+
+  if (appointment.depositStatus === "not_required") {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No deposit required</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm text-gray-900 dark:text-white">
+          <span className="font-medium">${amount.toFixed(2)}</span>
+          {appointment.depositStatus === "pending" && appointment.holdExpiresAt && (
+            <span className="text-gray-500 dark:text-gray-400">
+              {" "}· slot held until {formatDateTime(appointment.holdExpiresAt)}
+            </span>
+          )}
+          {appointment.depositPaidAt && appointment.depositStatus !== "pending" && (
+            <span className="text-gray-500 dark:text-gray-400">
+              {" "}· paid {formatDateTime(appointment.depositPaidAt)}
+              {appointment.depositPaymentMethod && ` by ${appointment.depositPaymentMethod}`}
+            </span>
+          )}
+        </div>
+        <Badge className={depositStatusColors[appointment.depositStatus]}>
+          {depositStatusLabels[appointment.depositStatus]}
+        </Badge>
+      </div>
+
+      {lateCancellation && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          Inside the {settings.lateCancellationHours}h cancellation window: cancelling now forfeits the deposit.
+        </p>
+      )}
+
+      {appointment.depositStatus === "pending" && isActive && (
+        <div className="flex items-center gap-2">
+          <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="cash">Cash</SelectItem>
+              <SelectItem value="card">Credit/Debit Card</SelectItem>
+              <SelectItem value="transfer">Bank Transfer</SelectItem>
+              <SelectItem value="digital">Digital Payment</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => recordMutation.mutate()} disabled={recordMutation.isPending}>
+            Record Deposit
+          </Button>
+        </div>
+      )}
+
+      {appointment.depositStatus === "refund_due" && (
+        <Button size="sm" variant="outline" onClick={() => refundMutation.mutate()} disabled={refundMutation.isPending}>
+          Mark Refunded
+        </Button>
+      )}
+    </div>
+  );
+}
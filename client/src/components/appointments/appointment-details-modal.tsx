@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { appointmentStatusLabels, getAllowedTransitions } from "@shared/appointmentStatus";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+import { isAwaitingApproval, statusesRequiringApproval } from "@shared/reliability";
+import type {
+  AppointmentGuardianStatus,
+  AppointmentStatus,
+  AppointmentStatusChangeWithUser,
+  AppointmentWithRelations,
+} from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WaitlistCandidates } from "@/components/waitlist/waitlist-candidates";
+import { AppointmentReminders } from "./appointment-reminders";
+import { AppointmentDeposit } from "./appointment-deposit";
+import { AppointmentStation } from "./appointment-station";
+import { AppointmentApproval } from "./appointment-approval";
+import { AppointmentForms } from "./appointment-forms";
+import { AppointmentGuardian } from "./appointment-guardian";
+import { AgeBadge } from "@/components/clients/age-warning";
+import { Armchair, Calendar, Clock, MapPin, User } from "lucide-react";
+
+interface AppointmentDetailsModalProps {
+  appointmentId: string | null;
+  onClose: () => void;
+}
+
+const statusDotColors: Record<AppointmentStatus, string> = {
+  scheduled: "bg-gray-400",
+  confirmed: "bg-green-500",
+  checked_in: "bg-purple-500",
+  in_progress: "bg-yellow-500",
+  completed: "bg-blue-500",
+  cancelled: "bg-red-500",
+  no_show: "bg-orange-500",
+};
+
+// Exits are shown as secondary actions next to the forward step
+const exitStatuses: AppointmentStatus[] = ["cancelled", "no_show"];
+
+export function AppointmentDetailsModal({ appointmentId, onClose }: AppointmentDetailsModalProps) {
+  const timeZone = useStudioTimeZone();
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: appointment, isLoading } = useQuery<AppointmentWithRelations>({
+    queryKey: ["/api/appointments", appointmentId],
+    enabled: !!appointmentId,
+    retry: false,
+  });
+
+  const { data: original } = useQuery<AppointmentWithRelations>({
+    queryKey: ["/api/appointments", appointment?.originalAppointmentId],
+    enabled: !!appointment?.originalAppointmentId,
+    retry: false,
+  });
+
+  const { data: guardian } = useQuery<AppointmentGuardianStatus>({
+    queryKey: ["/api/appointments", appointmentId, "guardian-consent"],
+    enabled: !!appointmentId,
+    retry: false,
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<AppointmentStatusChangeWithUser[]>({
+    queryKey: ["/api/appointments", appointmentId, "status-history"],
+    enabled: !!appointmentId,
+    retry: false,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: AppointmentStatus) => {
+      await apiRequest("POST", `/api/appointments/${appointmentId}/status`, {
+        status,
+        reason: reason.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/reliability"] });
+      setReason("");
+      toast({
+        title: "Success",
+        description: "Appointment status updated",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments", appointmentId] });
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to update status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  const formatDateTime = (date: Date | string | null) => {
+    if (!date) return "";
+    return new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    });
+  };
+
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+    }
+    return `${mins}m`;
+  };
+
+  const formatUser = (change: AppointmentStatusChangeWithUser) => {
+    if (!change.user) return "System";
+    const name = [change.user.firstName, change.user.lastName].filter(Boolean).join(" ");
+    return name || change.user.email || "Unknown user";
+  };
+
+  const currentStatus = appointment?.status ?? "scheduled";
+  const nextStatuses = getAllowedTransitions(currentStatus);
+  const awaitingApproval = !!appointment && isAwaitingApproval(appointment);
+  const forwardStatuses = nextStatuses.filter(
+    (status) => !exitStatuses.includes(status) && !(awaitingApproval && statusesRequiringApproval.includes(status)),
+  );
+  const exitOptions = nextStatuses.filter((status) => exitStatuses.includes(status));
+
+  return (
+    <Dialog open={!!appointmentId} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Appointment Details</DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !appointment ? (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-1/2" />
+            <Skeleton className="h-4 w-3/4" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-2">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {appointment.client.firstName} {appointment.client.lastName}
+                </h3>
+                <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                  <User className="w-4 h-4 mr-2" />
+                  {appointment.artist.name}
+                </div>
+                <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                  <Calendar className="w-4 h-4 mr-2" />
+                  {formatDateTime(appointment.scheduledDate)}
+                </div>
+                <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                  <Clock className="w-4 h-4 mr-2" />
+                  {formatDuration(appointment.duration)}
+                  {(appointment.setupMinutes > 0 || appointment.cleanupMinutes > 0) && (
+                    <span className="ml-1 text-gray-400 dark:text-gray-500">
+                      (+{appointment.setupMinutes}m setup, {appointment.cleanupMinutes}m cleanup)
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                  <MapPin className="w-4 h-4 mr-2" />
+                  <span className="capitalize">{appointment.bodyPart}</span>
+                </div>
+                {appointment.station && (
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <Armchair className="w-4 h-4 mr-2" />
+                    {appointment.station.name}
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-col items-end gap-2">
+                <Badge variant="outline">{appointmentStatusLabels[currentStatus]}</Badge>
+                <Badge variant="secondary">{appointmentTypeLabels[appointment.type]}</Badge>
+                <AgeBadge dateOfBirth={appointment.client.dateOfBirth} scheduledDate={appointment.scheduledDate} />
+              </div>
+            </div>
+
+            {original && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Touch-up of the {original.bodyPart} session on {formatDateTime(original.scheduledDate)} with{" "}
+                {original.artist.name}
+              </p>
+            )}
+
+            {appointment.description && (
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                {appointment.description}
+              </p>
+            )}
+
+            {appointment.approvalRequired && (
+              <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h4 className="font-medium text-gray-900 dark:text-white">Manager Approval</h4>
+                <AppointmentApproval appointment={appointment} />
+              </div>
+            )}
+
+            {/* Status actions */}
+            {nextStatuses.length > 0 && (
+              <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h4 className="font-medium text-gray-900 dark:text-white">Update Status</h4>
+                <Textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                  className="resize-none"
+                  placeholder="Reason (optional)"
+                  maxLength={500}
+                />
+                <div className="flex flex-wrap gap-2">
+                  {forwardStatuses.map((status) => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      disabled={statusMutation.isPending}
+                      onClick={() => statusMutation.mutate(status)}
+                    >
+                      Mark {appointmentStatusLabels[status]}
+                    </Button>
+                  ))}
+                  {exitOptions.map((status) => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant="outline"
+                      disabled={statusMutation.isPending}
+                      onClick={() => statusMutation.mutate(status)}
+                    >
+                      Mark {appointmentStatusLabels[status]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Consent forms have to be signed before the session can start */}
+            <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <h4 className="font-medium text-gray-900 dark:text-white">Consent Forms</h4>
+              <AppointmentForms
+                appointmentId={appointment.id}
+                canSign={!["completed", "cancelled", "no_show"].includes(currentStatus)}
+              />
+            </div>
+
+            {/* Clients under the minimum age need a guardian's consent before the session can start */}
+            {guardian && (guardian.required || guardian.consent) && (
+              <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h4 className="font-medium text-gray-900 dark:text-white">Guardian Consent</h4>
+                <AppointmentGuardian
+                  appointment={appointment}
+                  status={guardian}
+                  canSign={!["completed", "cancelled", "no_show"].includes(currentStatus)}
+                />
+              </div>
+            )}
+
+            {/* Station */}
+            <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <h4 className="font-medium text-gray-900 dark:text-white">Station</h4>
+              <AppointmentStation appointment={appointment} />
+            </div>
+
+            {/* Deposit */}
+            <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <h4 className="font-medium text-gray-900 dark:text-white">Deposit</h4>
+              <AppointmentDeposit appointment={appointment} />
+            </div>
+
+            {/* A future cancellation frees the slot for someone on the waitlist */}
+            {currentStatus === "cancelled" && new Date(appointment.scheduledDate) > new Date() && (
+              <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h4 className="font-medium text-gray-900 dark:text-white">Offer Slot to Waitlist</h4>
+                <WaitlistCandidates appointment={appointment} />
+              </div>
+            )}
+
+            {/* Client reminders */}
+            <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <h4 className="font-medium text-gray-900 dark:text-white">Reminders</h4>
+              <AppointmentReminders appointmentId={appointment.id} />
+            </div>
+
+            {/* Status timeline */}
+            <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <h4 className="font-medium text-gray-900 dark:text-white">Status History</h4>
+              {historyLoading ? (
+                <Skeleton className="h-12 w-full" />
+              ) : !history || history.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No status changes recorded</p>
+              ) : (
+                <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-1">
+                  {history.map((change) => (
+                    <li key={change.id} className="mb-4 ml-4 last:mb-0">
+                      <span
+                        className={cn(
+                          "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-900",
+                          statusDotColors[change.toStatus],
+                        )}
+                      />
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">
+                        {change.fromStatus
+                          ? `${appointmentStatusLabels[change.fromStatus]} → ${appointmentStatusLabels[change.toStatus]}`
+                          : `Created as ${appointmentStatusLabels[change.toStatus]}`}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatDateTime(change.changedAt)} · {formatUser(change)}
+                      </div>
+                      {change.reason && (
+                        <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">{change.reason}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SignFormDialog } from "@/components/consent/sign-form-dialog";
+import type { AppointmentFormStatus, ConsentForm, FormSignature } from "@shared/schema";
+
+interface AppointmentFormsProps {
+  appointmentId: string;
+  canSign: boolean;
+}
+
+export function AppointmentForms({ appointmentId, canSign }: AppointmentFormsProps) {
+  const timeZone = useStudioTimeZone();
+  const [signingForm, setSigningForm] = useState<ConsentForm | undefined>();
+  const [viewingSignature, setViewingSignature] = useState<FormSignature | undefined>();
+
+  const { data: forms, isLoading } = useQuery<AppointmentFormStatus[]>({
+    queryKey: ["/api/appointments", appointmentId, "forms"],
+    retry: false,
+  });
+
+  const formatDateTime = (date: Date | string | null) => {
+    if (!date) return "";
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  if (!forms || forms.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No forms required for this appointment</p>;
+  }
+
+  return (
+    <>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+        {forms.map(({ form, required, signature }) => (
+          <li key={form.id} className="px-3 py-2 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">{form.title}</span>
+                {signature ? (
+                  <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">Signed</Badge>
+                ) : required ? (
+                  <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">Required</Badge>
+                ) : null}
+              </div>
+              {signature && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {signature.signedName} · {formatDateTime(signature.signedAt)} · version {signature.formVersion}
+                </p>
+              )}
+            </div>
+            {signature ? (
+              <Button variant="outline" size="sm" onClick={() => setViewingSignature(signature)}>
+                View
+              </Button>
+            ) : (
+              canSign && (
+                <Button size="sm" onClick={() => setSigningForm(form)}>
+                  Sign
+                </Button>
+              )
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <SignFormDialog appointmentId={appointmentId} form={signingForm} onClose={() => setSigningForm(undefined)} />
+
+      {/* The form exactly as it read when the client signed it */}
+      <Dialog open={!!viewingSignature} onOpenChange={() => setViewingSignature(undefined)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {viewingSignature?.formTitle} (version {viewingSignature?.formVersion})
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="max-h-72 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700 p-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+              {viewingSignature?.formBody}
+            </div>
+            {viewingSignature?.signatureImage && (
+              <div className="rounded-md border border-gray-200 dark:border-gray-700 bg-white p-2">
+                <img src={viewingSignature.signatureImage} alt="Signature" className="max-h-40 mx-auto" />
+              </div>
+            )}
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Signed as "{viewingSignature?.signedName}" on {formatDateTime(viewingSignature?.signedAt ?? null)}
+            </p>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
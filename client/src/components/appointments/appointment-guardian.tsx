@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SignaturePad } from "@/components/consent/signature-pad";
+import { guardianConsentStatement, guardianIdTypeLabels } from "@shared/age";
+import type { AppointmentGuardianStatus, AppointmentWithRelations, GuardianIdType } from "@shared/schema";
+
+interface AppointmentGuardianProps {
+  appointment: AppointmentWithRelations;
+  status: AppointmentGuardianStatus;
+  canSign: boolean;
+}
+
+// Only the end of the ID number is shown once it has been recorded
+const maskIdNumber = (idNumber: string) => `••••${idNumber.slice(-4)}`;
+
+export function AppointmentGuardian({ appointment, status, canSign }: AppointmentGuardianProps) {
+  const timeZone = useStudioTimeZone();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isViewing, setIsViewing] = useState(false);
+  const [guardianName, setGuardianName] = useState("");
+  const [relationship, setRelationship] = useState("");
+  const [guardianPhone, setGuardianPhone] = useState("");
+  const [idType, setIdType] = useState<GuardianIdType>("drivers_license");
+  const [idNumber, setIdNumber] = useState("");
+  const [idExpiresAt, setIdExpiresAt] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const clientName = `${appointment.client.firstName} ${appointment.client.lastName}`;
+  const { consent } = status;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setGuardianName("");
+    setRelationship("");
+    setGuardianPhone("");
+    setIdType("drivers_license");
+    setIdNumber("");
+    setIdExpiresAt("");
+    setSignatureImage(null);
+  }, [isOpen]);
+
+  const consentMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/appointments/${appointment.id}/guardian-consent`, {
+        guardianName: guardianName.trim(),
+        relationship: relationship.trim(),
+        guardianPhone: guardianPhone.trim() || null,
+        idType,
+        idNumber: idNumber.trim(),
+        idExpiresAt: new Date(`${idExpiresAt}T00:00`),
+        signatureImage,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments", appointment.id, "guardian-consent"] });
+      toast({
+        title: "Success",
+        description: "Guardian consent recorded",
+      });
+      setIsOpen(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to record guardian consent",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDateTime = (date: Date | string | null) => {
+    if (!date) return "";
+    return new Date(date).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone,
+    });
+  };
+
+  if (consent) {
+    return (
+      <>
+        <div className="flex items-start justify-between gap-3">
+          <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <p className="font-medium text-gray-900 dark:text-white">
+              {consent.guardianName} ({consent.relationship})
+            </p>
+            <p>
+              {guardianIdTypeLabels[consent.idType]} {maskIdNumber(consent.idNumber)} · signed {formatDateTime(consent.signedAt)}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsViewing(true)}>
+            View
+          </Button>
+        </div>
+
+        <Dialog open={isViewing} onOpenChange={setIsViewing}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Guardian Consent</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="rounded-md border border-gray-200 dark:border-gray-700 p-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                {consent.statement}
+              </div>
+              <div className="rounded-md border border-gray-200 dark:border-gray-700 bg-white p-2">
+                <img src={consent.signatureImage} alt="Signature" className="max-h-40 mx-auto" />
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {guardianIdTypeLabels[consent.idType]} {maskIdNumber(consent.idNumber)}, valid until{" "}
+                {new Date(consent.idExpiresAt).toLocaleDateString("en-US", { timeZone })}
+                {consent.guardianPhone && ` · ${consent.guardianPhone}`}
+              </p>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </>
+    );
+  }
+
+  if (status.minorPolicy === "block") {
+    return (
+      <p className="text-sm text-red-700 dark:text-red-400">
+        The client will be {status.age} on the appointment date. The studio does not work on clients under{" "}
+        {status.minimumAge}, so this session cannot start.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-red-700 dark:text-red-400">
+          The client will be {status.age} on the appointment date. A parent or guardian has to show ID and sign before
+          the session can start.
+        </p>
+        {canSign && (
+          <Button size="sm" onClick={() => setIsOpen(true)}>
+            Record Consent
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Guardian Consent for {clientName}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="guardian-name">Guardian's full name</Label>
+                <Input id="guardian-name" value={guardianName} onChange={(e) => setGuardianName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-relationship">Relationship</Label>
+                <Input
+                  id="guardian-relationship"
+                  placeholder="e.g. mother, legal guardian"
+                  value={relationship}
+                  onChange={(e) => setRelationship(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-phone">Phone (optional)</Label>
+                <Input id="guardian-phone" value={guardianPhone} onChange={(e) => setGuardianPhone(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>ID type</Label>
+                <Select value={idType} onValueChange={(value) => setIdType(value as GuardianIdType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(guardianIdTypeLabels) as GuardianIdType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {guardianIdTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-id-number">ID number</Label>
+                <Input
+                  id="guardian-id-number"
+                  value={idNumber}
+                  onChange={(e) => setIdNumber(e.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="guardian-id-expiry">ID expiry date</Label>
+                <Input
+                  id="guardian-id-expiry"
+                  type="date"
+                  value={idExpiresAt}
+                  onChange={(e) => setIdExpiresAt(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-md border border-gray-200 dark:border-gray-700 p-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+              {guardianConsentStatement(
+                { guardianName: guardianName.trim() || "[guardian]", relationship: relationship.trim() || "[relationship]" },
+                clientName,
+                status.minimumAge,
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Guardian's signature</Label>
+              {isOpen && <SignaturePad onChange={setSignatureImage} />}
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => consentMutation.mutate()}
+                disabled={
+                  !guardianName.trim() ||
+                  !relationship.trim() ||
+                  !idNumber.trim() ||
+                  !idExpiresAt ||
+                  !signatureImage ||
+                  consentMutation.isPending
+                }
+              >
+                {consentMutation.isPending ? "Saving..." : "Sign"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
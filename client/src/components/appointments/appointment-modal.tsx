@@ -3,10 +3,30 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { isConflictError, getErrorPayload } from "@/lib/apiErrors";
 import { apiRequest } from "@/lib/queryClient";
-import { insertAppointmentSchema, type InsertAppointment } from "@shared/schema";
-import { z } from "zod";
+import {
+  appointmentTypeLabels,
+  appointmentTypeRules,
+  getMissingTypeField,
+  getTypeRules,
+  touchUpOriginalTypes,
+} from "@shared/appointmentTypes";
+import {
+  appointmentTypeEnum,
+  insertAppointmentSchema,
+  type InsertAppointment,
+  type AppointmentType,
+  type AppointmentWithRelations,
+  type ArtistTimeOff,
+  type Artist,
+  type AvailableSlot,
+  type Client,
+  type ProjectWithProgress,
+  type StudioSettings,
+} from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -33,49 +53,150 @@ import {
 } from "@/components/ui/select";
 import { BodyPartSelector } from "./body-part-selector";
 import { FileUpload } from "./file-upload";
-import { Calendar, Clock } from "lucide-react";
+import { SlotPicker } from "./slot-picker";
+import { ProjectProgress } from "@/components/projects/project-progress";
+import { StationSelect } from "@/components/stations/station-select";
+import { ReliabilityNotice } from "@/components/clients/reliability-badge";
+import { AgeNotice } from "@/components/clients/age-warning";
+import { ClientPicker } from "@/components/clients/client-picker";
+import { Calendar, Clock, AlertTriangle } from "lucide-react";
 
 interface AppointmentModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-const formSchema = insertAppointmentSchema.extend({
-  scheduledTime: z.string().min(1, "Time is required"),
-});
+interface SlotError {
+  message: string;
+  conflicts: AppointmentWithRelations[];
+  timeOff: ArtistTimeOff[];
+}
+
 
 export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
   const [selectedBodyPart, setSelectedBodyPart] = useState("");
   const [referenceImages, setReferenceImages] = useState<string[]>([]);
+  const [slotError, setSlotError] = useState<SlotError | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<AvailableSlot | null>(null);
+  const [searchMode, setSearchMode] = useState<"artist" | "specialty">("artist");
+  const [specialty, setSpecialty] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const form = useForm<InsertAppointment & { scheduledTime: string }>({
-    resolver: zodResolver(formSchema),
+  const form = useForm<InsertAppointment>({
+    resolver: zodResolver(insertAppointmentSchema),
     defaultValues: {
       clientId: "",
       artistId: "",
+      type: "tattoo",
+      originalAppointmentId: null,
       scheduledDate: new Date(),
-      scheduledTime: "",
-      duration: 60,
+      duration: appointmentTypeRules.tattoo.defaultDuration,
       bodyPart: "",
       description: "",
       referenceImages: [],
       status: "scheduled",
       notes: "",
+      projectId: null,
+      stationId: null,
     },
   });
 
-  const { data: clients } = useQuery({
+  const { data: clients } = useQuery<Client[]>({
     queryKey: ["/api/clients"],
     retry: false,
   });
 
-  const { data: artists } = useQuery({
+  const { data: artists } = useQuery<Artist[]>({
     queryKey: ["/api/artists"],
     retry: false,
   });
 
+  const { data: settings } = useQuery<StudioSettings>({
+    queryKey: ["/api/settings"],
+    retry: false,
+  });
+
+  const timeZone = useStudioTimeZone();
+
+  const specialties = Array.from(
+    new Set((artists ?? []).filter((artist) => artist.isActive).flatMap((artist) => artist.specialties ?? [])),
+  ).sort();
+
+  const watchedArtistId = form.watch("artistId");
+  const watchedDuration = form.watch("duration");
+  const watchedClientId = form.watch("clientId");
+  const watchedScheduledDate = form.watch("scheduledDate");
+  const watchedProjectId = form.watch("projectId");
+  const watchedType = form.watch("type") ?? "tattoo";
+  const typeRules = getTypeRules(watchedType);
+  const selectedClient = clients?.find((client) => client.id === watchedClientId);
+  const defaultDeposit = typeRules.takesDeposit ? settings?.defaultDepositAmount ?? "0" : "0";
+
+  const { data: projects } = useQuery<ProjectWithProgress[]>({
+    queryKey: ["/api/projects"],
+    retry: false,
+  });
+
+  const clientProjects = (projects ?? []).filter(
+    (project) => project.clientId === watchedClientId && project.status !== "completed" && project.status !== "cancelled",
+  );
+  const selectedProject = clientProjects.find((project) => project.id === watchedProjectId);
+
+  const { data: appointments } = useQuery<AppointmentWithRelations[]>({
+    queryKey: ["/api/appointments"],
+    enabled: watchedType === "touch_up",
+    retry: false,
+  });
+
+  // Touch-ups follow up on one of the client's finished sessions
+  const touchUpOriginals = (appointments ?? []).filter(
+    (appointment) =>
+      appointment.clientId === watchedClientId &&
+      appointment.status === "completed" &&
+      touchUpOriginalTypes.includes(appointment.type),
+  );
+
+  const handleTypeSelect = (type: AppointmentType) => {
+    form.setValue("type", type);
+    form.setValue("duration", appointmentTypeRules[type].defaultDuration);
+    if (type !== "touch_up") {
+      form.setValue("originalAppointmentId", null);
+    }
+    form.clearErrors(["description", "originalAppointmentId"]);
+    setSelectedSlot(null);
+  };
+
+  const handleOriginalSelect = (appointmentId: string) => {
+    form.setValue("originalAppointmentId", appointmentId, { shouldValidate: true });
+    const original = touchUpOriginals.find((appointment) => appointment.id === appointmentId);
+    if (!original) return;
+
+    // Touch-ups usually go back to the same artist and placement
+    if (searchMode === "artist" && !form.getValues("artistId")) {
+      form.setValue("artistId", original.artistId);
+    }
+    if (!selectedBodyPart) {
+      setSelectedBodyPart(original.bodyPart);
+      form.setValue("bodyPart", original.bodyPart);
+    }
+  };
+
+  const handleProjectSelect = (projectId: string) => {
+    const project = clientProjects.find((p) => p.id === projectId);
+    form.setValue("projectId", project ? project.id : null);
+    if (!project) return;
+
+    // Sessions of a project usually share placement and artist
+    if (project.bodyPart && !selectedBodyPart) {
+      setSelectedBodyPart(project.bodyPart);
+      form.setValue("bodyPart", project.bodyPart);
+    }
+    if (project.artistId && searchMode === "artist" && !form.getValues("artistId")) {
+      form.setValue("artistId", project.artistId);
+    }
+  };
+
   const createAppointmentMutation = useMutation({
     mutationFn: async (data: InsertAppointment) => {
       await apiRequest("POST", "/api/appointments", data);
@@ -83,6 +204,9 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/reliability"] });
       toast({
         title: "Success",
         description: "Appointment created successfully",
@@ -91,6 +215,9 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
       form.reset();
       setSelectedBodyPart("");
       setReferenceImages([]);
+      setSlotError(null);
+      setSelectedSlot(null);
+      setSpecialty("");
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -104,6 +231,22 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
         }, 500);
         return;
       }
+      if (isConflictError(error)) {
+        const payload = getErrorPayload<SlotError>(error);
+        setSlotError({
+          message: payload?.message ?? "The selected time is not available",
+          conflicts: payload?.conflicts ?? [],
+          timeOff: payload?.timeOff ?? [],
+        });
+        setSelectedSlot(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+        toast({
+          title: "Scheduling conflict",
+          description: payload?.message ?? "The selected time is not available",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to create appointment",
@@ -112,23 +255,51 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
     },
   });
 
-  const onSubmit = (values: InsertAppointment & { scheduledTime: string }) => {
-    // Combine date and time
-    const scheduledDate = new Date(values.scheduledDate);
-    const [hours, minutes] = values.scheduledTime.split(':');
-    scheduledDate.setHours(parseInt(hours), parseInt(minutes));
+  const handleSlotSelect = (slot: AvailableSlot) => {
+    setSelectedSlot(slot);
+    setSlotError(null);
+    form.setValue("scheduledDate", new Date(slot.start));
+    form.setValue("artistId", slot.artistId, { shouldValidate: true });
+    form.clearErrors("scheduledDate");
+  };
+
+  const onSubmit = (values: InsertAppointment) => {
+    const missing = getMissingTypeField(values);
+    if (missing) {
+      form.setError(missing.field, { message: missing.message });
+      return;
+    }
+    if (!selectedSlot) {
+      form.setError("scheduledDate", { message: "Pick an available time" });
+      return;
+    }
 
     const appointmentData: InsertAppointment = {
       ...values,
-      scheduledDate,
+      artistId: selectedSlot.artistId,
+      scheduledDate: new Date(selectedSlot.start),
       bodyPart: selectedBodyPart || values.bodyPart,
       referenceImages,
     };
 
-    delete (appointmentData as any).scheduledTime;
+    setSlotError(null);
     createAppointmentMutation.mutate(appointmentData);
   };
 
+  const formatTime = (date: Date | string) => {
+    return new Date(date).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    });
+  };
+
+  const formatDate = (date: Date | string) => new Date(date).toLocaleDateString('en-US', { timeZone });
+
+  const getEndTime = (appointment: AppointmentWithRelations) => {
+    return new Date(new Date(appointment.scheduledDate).getTime() + appointment.duration * 60 * 1000);
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -149,84 +320,181 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Client</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select a client" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {clients?.map((client: any) => (
-                            <SelectItem key={client.id} value={client.id}>
-                              {client.firstName} {client.lastName}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <ClientPicker
+                        value={field.value}
+                        onChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("projectId", null);
+                        }}
+                      />
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
-                <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="scheduledDate"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Date</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="date"
-                            {...field}
-                            value={field.value ? new Date(field.value).toISOString().split('T')[0] : ''}
-                            onChange={(e) => field.onChange(new Date(e.target.value))}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+                <ReliabilityNotice clientId={watchedClientId} />
+
+                {selectedClient && (
+                  <AgeNotice dateOfBirth={selectedClient.dateOfBirth} scheduledDate={watchedScheduledDate} />
+                )}
+
+                {clientProjects.length > 0 && (
+                  <FormItem>
+                    <FormLabel>Project</FormLabel>
+                    <Select value={watchedProjectId ?? "none"} onValueChange={handleProjectSelect}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Standalone appointment" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Standalone appointment</SelectItem>
+                        {clientProjects.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedProject && (
+                      <div className="rounded-md border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                        <ProjectProgress project={selectedProject} compact />
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          This will be session {selectedProject.progress.completedSessions + selectedProject.progress.bookedSessions + 1} of {selectedProject.estimatedSessions}
+                          {selectedProject.referenceImages && selectedProject.referenceImages.length > 0 &&
+                            ` · ${selectedProject.referenceImages.length} shared reference image${selectedProject.referenceImages.length === 1 ? "" : "s"}`}
+                        </p>
+                      </div>
                     )}
-                  />
+                  </FormItem>
+                )}
+
+                <FormItem>
+                  <FormLabel>Appointment Type</FormLabel>
+                  <Select value={watchedType} onValueChange={(value) => handleTypeSelect(value as AppointmentType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {appointmentTypeEnum.enumValues.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {appointmentTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
 
+                {watchedType === "touch_up" && (
                   <FormField
                     control={form.control}
-                    name="scheduledTime"
+                    name="originalAppointmentId"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Time</FormLabel>
-                        <FormControl>
-                          <Input type="time" {...field} />
-                        </FormControl>
+                        <FormLabel>Original Appointment</FormLabel>
+                        <Select value={field.value ?? ""} onValueChange={handleOriginalSelect}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue
+                                placeholder={touchUpOriginals.length > 0 ? "Select the original session" : "No completed sessions for this client"}
+                              />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {touchUpOriginals.map((appointment) => (
+                              <SelectItem key={appointment.id} value={appointment.id}>
+                                {formatDate(appointment.scheduledDate)} · {appointment.bodyPart} · {appointment.artist.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
+                )}
 
-                <FormField
-                  control={form.control}
-                  name="artistId"
-                  render={({ field }) => (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={searchMode === "artist" ? "default" : "outline"}
+                      onClick={() => {
+                        setSearchMode("artist");
+                        setSelectedSlot(null);
+                      }}
+                    >
+                      By artist
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={searchMode === "specialty" ? "default" : "outline"}
+                      onClick={() => {
+                        setSearchMode("specialty");
+                        setSelectedSlot(null);
+                        form.setValue("artistId", "");
+                      }}
+                    >
+                      By style
+                    </Button>
+                  </div>
+
+                  {searchMode === "artist" ? (
+                    <FormField
+                      control={form.control}
+                      name="artistId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Artist</FormLabel>
+                          <Select
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              setSelectedSlot(null);
+                            }}
+                            value={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select an artist" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {artists?.map((artist) => (
+                                <SelectItem key={artist.id} value={artist.id}>
+                                  {artist.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ) : (
                     <FormItem>
-                      <FormLabel>Artist</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select an artist" />
-                          </SelectTrigger>
-                        </FormControl>
+                      <FormLabel>Style</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          setSpecialty(value);
+                          setSelectedSlot(null);
+                          form.setValue("artistId", "");
+                        }}
+                        value={specialty}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Any artist with this specialty" />
+                        </SelectTrigger>
                         <SelectContent>
-                          {artists?.map((artist: any) => (
-                            <SelectItem key={artist.id} value={artist.id}>
-                              {artist.name}
+                          {specialties.map((name) => (
+                            <SelectItem key={name} value={name}>
+                              {name}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
-                      <FormMessage />
                     </FormItem>
                   )}
-                />
+                </div>
 
                 <FormField
                   control={form.control}
@@ -234,13 +502,20 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Estimated Duration (minutes)</FormLabel>
-                      <Select onValueChange={(value) => field.onChange(parseInt(value))} defaultValue={field.value?.toString()}>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(parseInt(value));
+                          setSelectedSlot(null);
+                        }}
+                        value={field.value?.toString()}
+                      >
                         <FormControl>
                           <SelectTrigger>
                             <SelectValue placeholder="Select duration" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
+                          <SelectItem value="30">30 minutes</SelectItem>
                           <SelectItem value="60">1 hour</SelectItem>
                           <SelectItem value="120">2 hours</SelectItem>
                           <SelectItem value="180">3 hours</SelectItem>
@@ -252,11 +527,49 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="scheduledDate"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>Available Times</FormLabel>
+                      <SlotPicker
+                        artistId={searchMode === "artist" ? watchedArtistId : undefined}
+                        specialty={searchMode === "specialty" ? specialty : undefined}
+                        type={watchedType}
+                        duration={watchedDuration}
+                        value={selectedSlot}
+                        onSelect={handleSlotSelect}
+                        timeZone={timeZone}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="stationId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Station</FormLabel>
+                      <StationSelect
+                        value={field.value}
+                        onChange={(stationId) => {
+                          field.onChange(stationId);
+                          setSlotError(null);
+                        }}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               {/* Tattoo Details */}
               <div className="space-y-4">
-                <h4 className="font-medium text-gray-900 dark:text-white">Tattoo Details</h4>
+                <h4 className="font-medium text-gray-900 dark:text-white">Session Details</h4>
                 
                 <FormField
                   control={form.control}
@@ -265,7 +578,8 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
                     <FormItem>
                       <FormLabel>Body Part</FormLabel>
                       <BodyPartSelector
-                        value={selectedBodyPart || field.value}
+                        key={watchedProjectId ?? "none"}
+                        value={selectedBodyPart || field.value || ""}
                         onChange={(value) => {
                           setSelectedBodyPart(value);
                           field.onChange(value);
@@ -304,6 +618,32 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="depositAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Deposit ($)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value || undefined)}
+                          placeholder={settings ? `Default: ${defaultDeposit}` : undefined}
+                        />
+                      </FormControl>
+                      {Number(field.value ?? defaultDeposit) > 0 && settings && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          The slot is held for {settings.depositHoldHours}h and released if the deposit is not recorded by then.
+                        </p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="notes"
@@ -325,6 +665,32 @@ export function AppointmentModal({ isOpen, onClose }: AppointmentModalProps) {
               </div>
             </div>
 
+            {/* Scheduling Conflicts */}
+            {slotError && (
+              <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20 p-4">
+                <div className="flex items-center mb-2 text-sm font-medium text-red-800 dark:text-red-200">
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  {slotError.message}
+                </div>
+                <ul className="space-y-1 text-sm text-red-700 dark:text-red-300">
+                  {slotError.timeOff.map((entry) => (
+                    <li key={entry.id} className="capitalize">
+                      {entry.type}: {formatDate(entry.startDate)} – {formatDate(new Date(new Date(entry.endDate).getTime() - 1))}
+                    </li>
+                  ))}
+                  {slotError.conflicts.map((conflict) => (
+                    <li key={conflict.id}>
+                      {formatTime(conflict.scheduledDate)} – {formatTime(getEndTime(conflict))} · {conflict.client.firstName} {conflict.client.lastName} · {conflict.bodyPart}
+                      {conflict.station && ` · ${conflict.station.name}`}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+                  Pick another time, artist or station to book this appointment.
+                </p>
+              </div>
+            )}
+
             <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200 dark:border-gray-700">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
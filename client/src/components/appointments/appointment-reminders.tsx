@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Mail, MessageSquare } from "lucide-react";
+import type { AppointmentReminderWithAttempts } from "@shared/schema";
+
+interface AppointmentRemindersProps {
+  appointmentId: string;
+}
+
+const reminderStatusColors: Record<AppointmentReminderWithAttempts["status"], string> = {
+  pending: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  sent: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  cancelled: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+};
+
+export function AppointmentReminders({ appointmentId }: AppointmentRemindersProps) {
+  const timeZone = useStudioTimeZone();
+
+  const { data: reminders, isLoading } = useQuery<AppointmentReminderWithAttempts[]>({
+    queryKey: ["/api/appointments", appointmentId, "reminders"],
+    retry: false,
+  });
+
+  const formatDateTime = (date: Date | string | null) => {
+    if (!date) return "";
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  if (!reminders || reminders.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Reminders are scheduled once the appointment is confirmed
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+      {reminders.map((reminder) => {
+        const lastAttempt = reminder.deliveryAttempts[reminder.deliveryAttempts.length - 1];
+        return (
+          <li key={reminder.id} className="px-3 py-2 space-y-1">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                {reminder.channel === "email" ? (
+                  <Mail className="w-4 h-4" />
+                ) : (
+                  <MessageSquare className="w-4 h-4" />
+                )}
+                <span>{reminder.hoursBefore}h before</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {reminder.status === "sent"
+                    ? `sent ${formatDateTime(reminder.sentAt)}`
+                    : reminder.status === "pending"
+                      ? `due ${formatDateTime(reminder.nextAttemptAt)}`
+                      : `for ${formatDateTime(reminder.appointmentDate)}`}
+                </span>
+              </div>
+              <Badge className={reminderStatusColors[reminder.status]}>{reminder.status}</Badge>
+            </div>
+            {reminder.deliveryAttempts.length > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {reminder.deliveryAttempts.length} attempt{reminder.deliveryAttempts.length === 1 ? "" : "s"}
+                {lastAttempt && ` · last via ${lastAttempt.transport} to ${lastAttempt.recipient || "no recipient"}`}
+              </p>
+            )}
+            {reminder.lastError && (
+              <p className="text-xs text-red-600 dark:text-red-400">{reminder.lastError}</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
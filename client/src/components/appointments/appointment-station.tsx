@@ -0,0 +1,58 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import type { AppointmentWithRelations } from "@shared/schema";
+import { StationSelect } from "@/components/stations/station-select";
+
+interface AppointmentStationProps {
+  appointment: AppointmentWithRelations;
+}
+
+export function AppointmentStation({ appointment }: AppointmentStationProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isActive = appointment.status !== "cancelled" && appointment.status !== "no_show";
+
+  const mutation = useMutation({
+    mutationFn: async (stationId: string | null) => {
+      await apiRequest("PATCH", `/api/appointments/${appointment.id}`, { stationId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      toast({
+        title: "Success",
+        description: "Station updated",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to update station",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-xs">
+      <StationSelect
+        value={appointment.stationId}
+        onChange={(stationId) => mutation.mutate(stationId)}
+        disabled={!isActive || mutation.isPending}
+      />
+    </div>
+  );
+}
@@ -11,13 +11,15 @@ interface FileUploadProps {
   onChange: (files: string[]) => void;
   maxFiles?: number;
   maxSizePerFile?: number; // in MB
+  uploadUrl?: string;
 }
 
 export function FileUpload({ 
   value, 
   onChange, 
   maxFiles = 5,
-  maxSizePerFile = 10 
+  maxSizePerFile = 10,
+  uploadUrl = '/api/upload',
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -30,7 +32,7 @@ export function FileUpload({
         formData.append('files', file);
       });
 
-      const response = await fetch('/api/upload', {
+      const response = await fetch(uploadUrl, {
         method: 'POST',
         body: formData,
         credentials: 'include',
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarClock, Zap } from "lucide-react";
+import type { AppointmentType, AvailableSlot } from "@shared/schema";
+import { fromZonedTime, getZonedDateKey, parseDateKey } from "@shared/timezone";
+
+interface SlotPickerProps {
+  artistId?: string;
+  specialty?: string;
+  type?: AppointmentType;
+  duration: number;
+  value?: AvailableSlot | null;
+  onSelect: (slot: AvailableSlot) => void;
+  searchDays?: number;
+  endpoint?: string;
+  // Days and times are shown in this zone
+  timeZone: string;
+}
+
+export function SlotPicker({
+  artistId,
+  specialty,
+  type,
+  duration,
+  value,
+  onSelect,
+  searchDays = 14,
+  endpoint = "/api/availability",
+  timeZone,
+}: SlotPickerProps) {
+  const [fromDate, setFromDate] = useState(() => getZonedDateKey(new Date(), timeZone));
+  const fromDay = parseDateKey(fromDate);
+  const canSearch = !!(artistId || specialty) && duration > 0 && !!fromDay;
+
+  const from = fromDay ? fromZonedTime(fromDay, timeZone) : new Date();
+  const to = fromDay ? fromZonedTime({ ...fromDay, day: fromDay.day + searchDays }, timeZone) : new Date();
+
+  const params = new URLSearchParams({
+    duration: duration.toString(),
+    from: from.toISOString(),
+    to: to.toISOString(),
+  });
+  if (artistId) {
+    params.set("artistId", artistId);
+  } else if (specialty) {
+    params.set("specialty", specialty);
+  }
+  if (type) {
+    params.set("type", type);
+  }
+
+  const { data: slots, isLoading } = useQuery<AvailableSlot[]>({
+    queryKey: [endpoint, params.toString()],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `${endpoint}?${params.toString()}`);
+      return res.json();
+    },
+    enabled: canSearch,
+    retry: false,
+  });
+
+  const isSelected = (slot: AvailableSlot) =>
+    !!value &&
+    value.artistId === slot.artistId &&
+    new Date(value.start).getTime() === new Date(slot.start).getTime();
+
+  const slotsByDay = (slots ?? []).reduce<Record<string, AvailableSlot[]>>((groups, slot) => {
+    const day = getZonedDateKey(slot.start, timeZone);
+    (groups[day] ??= []).push(slot);
+    return groups;
+  }, {});
+
+  const formatDay = (date: Date | string) =>
+    new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+
+  const formatTime = (date: Date | string) =>
+    new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone });
+
+  if (!canSearch) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Choose an artist or style and a duration to see open times.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          value={fromDate}
+          min={getZonedDateKey(new Date(), timeZone)}
+          onChange={(e) => setFromDate(e.target.value)}
+          className="w-40"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!slots || slots.length === 0}
+          onClick={() => slots && slots[0] && onSelect(slots[0])}
+        >
+          <Zap className="w-4 h-4 mr-1" />
+          Next available
+        </Button>
+      </div>
+
+      {value && (
+        <div className="flex items-center text-sm font-medium text-gray-900 dark:text-white">
+          <CalendarClock className="w-4 h-4 mr-2 text-primary" />
+          {formatDay(value.start)} at {formatTime(value.start)}
+          {specialty && !artistId && ` with ${value.artistName}`}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-24" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      ) : Object.keys(slotsByDay).length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No open times in the {searchDays} days from this date.
+        </p>
+      ) : (
+        <div className="max-h-56 overflow-y-auto space-y-3 pr-1">
+          {Object.entries(slotsByDay).map(([day, daySlots]) => (
+            <div key={day}>
+              <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400 mb-1">
+                {formatDay(daySlots[0].start)}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {daySlots.map((slot) => (
+                  <Button
+                    key={`${slot.artistId}-${slot.start}`}
+                    type="button"
+                    size="sm"
+                    variant={isSelected(slot) ? "default" : "outline"}
+                    className={cn("h-auto py-1", isSelected(slot) && "ring-2 ring-primary")}
+                    onClick={() => onSelect(slot)}
+                  >
+                    <span>{formatTime(slot.start)}</span>
+                    {specialty && !artistId && (
+                      <span className="ml-1 text-xs opacity-75">{slot.artistName}</span>
+                    )}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,8 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
-import { insertArtistSchema, type InsertArtist, type Artist } from "@shared/schema";
+import { insertArtistSchema, type InsertArtist, type Artist, type WeeklySchedule } from "@shared/schema";
+import { defaultWeeklySchedule } from "@shared/workingHours";
 import {
   Dialog,
   DialogContent,
@@ -26,6 +27,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { X } from "lucide-react";
+import { WorkingHoursEditor } from "./working-hours-editor";
+import { TimeOffManager } from "./time-off-manager";
+import { CalendarFeedManager } from "./calendar-feed-manager";
 
 interface ArtistModalProps {
   isOpen: boolean;
@@ -42,6 +46,7 @@ const commonSpecialties = [
 export function ArtistModal({ isOpen, onClose, artist }: ArtistModalProps) {
   const [specialties, setSpecialties] = useState<string[]>(artist?.specialties || []);
   const [newSpecialty, setNewSpecialty] = useState("");
+  const [workingHours, setWorkingHours] = useState<WeeklySchedule>(artist?.workingHours || defaultWeeklySchedule);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const isEditing = !!artist;
@@ -54,15 +59,16 @@ export function ArtistModal({ isOpen, onClose, artist }: ArtistModalProps) {
       email: artist?.email || "",
       phone: artist?.phone || "",
       specialties: artist?.specialties || [],
-      schedule: artist?.schedule || "",
       hourlyRate: artist?.hourlyRate || undefined,
+      setupMinutes: artist?.setupMinutes ?? 0,
+      cleanupMinutes: artist?.cleanupMinutes ?? 0,
       isActive: artist?.isActive ?? true,
     },
   });
 
   const mutation = useMutation({
     mutationFn: async (data: InsertArtist) => {
-      const payload = { ...data, specialties };
+      const payload = { ...data, specialties, workingHours };
       if (isEditing) {
         await apiRequest("PATCH", `/api/artists/${artist.id}`, payload);
       } else {
@@ -80,6 +86,7 @@ export function ArtistModal({ isOpen, onClose, artist }: ArtistModalProps) {
       form.reset();
       setSpecialties([]);
       setNewSpecialty("");
+      setWorkingHours(defaultWeeklySchedule);
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -218,19 +225,77 @@ export function ArtistModal({ isOpen, onClose, artist }: ArtistModalProps) {
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="schedule"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Schedule</FormLabel>
-                  <FormControl>
-                    <Input {...field} placeholder="e.g., Mon-Fri 9AM-6PM" />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="setupMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Setup Buffer (minutes)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="5"
+                        value={field.value ?? 0}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="cleanupMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cleanup Buffer (minutes)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="5"
+                        value={field.value ?? 0}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">
+              Blocked before and after each session so back-to-back bookings leave time to set up and sterilise. Not billed to the client.
+            </p>
+
+            {/* Working Hours */}
+            <div className="space-y-3">
+              <FormLabel>Working Hours</FormLabel>
+              {artist?.schedule && !artist.workingHours && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Previously noted as: {artist.schedule}
+                </p>
               )}
-            />
+              <WorkingHoursEditor value={workingHours} onChange={setWorkingHours} />
+            </div>
+
+            {/* Time Off */}
+            {isEditing && (
+              <div className="space-y-3">
+                <FormLabel>Time Off</FormLabel>
+                <TimeOffManager artistId={artist.id} />
+              </div>
+            )}
+
+            {/* Calendar Feed */}
+            {isEditing && (
+              <div className="space-y-3">
+                <FormLabel>Calendar Feed</FormLabel>
+                <CalendarFeedManager artistId={artist.id} />
+              </div>
+            )}
 
             {/* Specialties */}
             <div className="space-y-3">
@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+import { getZonedDateKey, getZonedDayRange, parseDateKey } from "@shared/timezone";
+import type {
+  Artist,
+  BulkRescheduleChange,
+  BulkRescheduleResult,
+  RescheduleProposal,
+} from "@shared/schema";
+
+const KEEP = "keep";
+const MOVE = "move";
+
+interface BulkRescheduleDialogProps {
+  artist: Artist | undefined;
+  onClose: () => void;
+}
+
+// Hands an unavailable artist's bookings to colleagues or moves them to the artist's next free slots
+export function BulkRescheduleDialog({ artist, onClose }: BulkRescheduleDialogProps) {
+  const timeZone = useStudioTimeZone();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  // Per appointment: KEEP, MOVE or the id of the artist taking over
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [failures, setFailures] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const today = getZonedDateKey(new Date(), timeZone);
+    setStartDate(today);
+    setEndDate(today);
+    setChoices({});
+    setFailures({});
+  }, [artist, timeZone]);
+
+  const range = startDate && endDate && startDate <= endDate
+    ? {
+        // Date inputs are whole studio days, so the end is the midnight after the last day
+        from: getZonedDayRange(parseDateKey(startDate)!, timeZone).start,
+        to: getZonedDayRange(parseDateKey(endDate)!, timeZone).end,
+      }
+    : undefined;
+
+  const { data: proposals, isLoading } = useQuery<RescheduleProposal[]>({
+    queryKey: ["/api/artists", artist?.id, "bulk-reschedule", startDate, endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: range!.from.toISOString(), to: range!.to.toISOString() });
+      const res = await apiRequest("GET", `/api/artists/${artist!.id}/bulk-reschedule?${params}`);
+      return res.json();
+    },
+    enabled: !!artist && !!range,
+    retry: false,
+  });
+
+  const changes = (proposals ?? []).flatMap((proposal): BulkRescheduleChange[] => {
+    const appointmentId = proposal.appointment.id;
+    const choice = choices[appointmentId] ?? KEEP;
+    if (choice === KEEP) return [];
+    if (choice === MOVE) {
+      return proposal.proposedSlot ? [{ appointmentId, action: "move", scheduledDate: proposal.proposedSlot.start }] : [];
+    }
+    return [{ appointmentId, action: "reassign", artistId: choice }];
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/artists/${artist!.id}/bulk-reschedule`, { changes });
+      return (await res.json()) as BulkRescheduleResult[];
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/artists", artist?.id, "bulk-reschedule"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      const failed = results.filter((result) => !result.ok);
+      setFailures(Object.fromEntries(failed.map((result) => [result.appointmentId, result.message ?? "Could not be changed"])));
+      setChoices({});
+      const changed = results.length - failed.length;
+      toast({
+        title: failed.length > 0 ? "Some appointments were not changed" : "Success",
+        description: `${changed} appointment${changed === 1 ? "" : "s"} updated and clients notified${failed.length > 0 ? `, ${failed.length} failed` : ""}`,
+        variant: failed.length > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to reschedule appointments",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDateTime = (date: Date | string) =>
+    new Date(date).toLocaleString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone,
+    });
+
+  return (
+    <Dialog open={!!artist} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reschedule {artist?.name}'s appointments</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-reschedule-start">Unavailable from</Label>
+              <Input id="bulk-reschedule-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-reschedule-end">Until (inclusive)</Label>
+              <Input id="bulk-reschedule-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          {!range ? (
+            <p className="text-sm text-red-600 dark:text-red-400">The last day must not be before the first</p>
+          ) : isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Looking for affected appointments...</p>
+          ) : proposals && proposals.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Appointment</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {proposals.map(({ appointment, reassignOptions, proposedSlot }) => (
+                  <TableRow key={appointment.id}>
+                    <TableCell>
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">
+                        {formatDateTime(appointment.scheduledDate)}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {appointmentTypeLabels[appointment.type]} · {appointment.duration} min
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm text-gray-900 dark:text-white">
+                        {appointment.client.firstName} {appointment.client.lastName}
+                      </div>
+                      {!appointment.client.email && !appointment.client.phone && (
+                        <div className="text-xs text-amber-600 dark:text-amber-400">No contact details, call them</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="w-80">
+                      <Select
+                        value={choices[appointment.id] ?? KEEP}
+                        onValueChange={(value) => setChoices((current) => ({ ...current, [appointment.id]: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={KEEP}>Leave as is</SelectItem>
+                          {reassignOptions.map((option) => (
+                            <SelectItem key={option.artistId} value={option.artistId}>
+                              Reassign to {option.artistName}
+                              {option.sharedSpecialties.length > 0 && ` (${option.sharedSpecialties.join(", ")})`}
+                            </SelectItem>
+                          ))}
+                          {proposedSlot && (
+                            <SelectItem value={MOVE}>Move to {formatDateTime(proposedSlot.start)}</SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      {reassignOptions.length === 0 && !proposedSlot && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          No free artist or slot found, reschedule by hand
+                        </p>
+                      )}
+                      {failures[appointment.id] && (
+                        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{failures[appointment.id]}</p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No upcoming appointments in this period</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button onClick={() => applyMutation.mutate()} disabled={changes.length === 0 || applyMutation.isPending}>
+              {applyMutation.isPending
+                ? "Applying..."
+                : `Apply ${changes.length} change${changes.length === 1 ? "" : "s"} and notify clients`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, RefreshCw, XCircle } from "lucide-react";
+import type { CalendarFeedToken } from "@shared/schema";
+
+interface CalendarFeedManagerProps {
+  // Omit for the studio-wide feed
+  artistId?: string;
+}
+
+export function CalendarFeedManager({ artistId }: CalendarFeedManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const endpoint = artistId ? `/api/artists/${artistId}/calendar-feed` : "/api/calendar-feed";
+
+  const { data: feed, isLoading } = useQuery<CalendarFeedToken | null>({
+    queryKey: [endpoint],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", endpoint);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({
+        title: "Success",
+        description: feed
+          ? "New feed link created. The old link no longer works."
+          : "Calendar feed link created",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to create calendar feed"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", endpoint);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({
+        title: "Success",
+        description: "Calendar feed link revoked",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to revoke calendar feed"),
+  });
+
+  const feedUrl = feed ? `${window.location.origin}/api/calendar/${feed.token}.ics` : "";
+
+  const copyFeedUrl = () => {
+    navigator.clipboard.writeText(feedUrl);
+    toast({
+      title: "Copied",
+      description: "Calendar feed link copied to clipboard",
+    });
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {feed ? (
+        <>
+          <div className="flex items-center gap-2">
+            <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button type="button" variant="outline" size="sm" onClick={copyFeedUrl}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Add this link as a subscribed calendar in Google Calendar, Apple Calendar or Outlook.
+            Anyone with the link can see the appointments, so regenerate it if it leaks.
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+            >
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Regenerate
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => revokeMutation.mutate()}
+              disabled={revokeMutation.isPending}
+            >
+              <XCircle className="w-4 h-4 mr-1" />
+              Revoke
+            </Button>
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No calendar feed link yet.</p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => rotateMutation.mutate()}
+            disabled={rotateMutation.isPending}
+          >
+            Create feed link
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import type { ArtistTimeOff } from "@shared/schema";
+import { getZonedDateKey, getZonedDayRange, parseDateKey } from "@shared/timezone";
+
+interface TimeOffManagerProps {
+  artistId: string;
+}
+
+export function TimeOffManager({ artistId }: TimeOffManagerProps) {
+  const timeZone = useStudioTimeZone();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [type, setType] = useState("vacation");
+  const [notes, setNotes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: timeOff } = useQuery<ArtistTimeOff[]>({
+    queryKey: ["/api/artists", artistId, "time-off"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      // Date inputs are whole studio days, so the end is the midnight after the last day off
+      const start = getZonedDayRange(parseDateKey(startDate)!, timeZone).start;
+      const end = getZonedDayRange(parseDateKey(endDate)!, timeZone).end;
+      await apiRequest("POST", `/api/artists/${artistId}/time-off`, {
+        startDate: start,
+        endDate: end,
+        type,
+        notes,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/artists", artistId, "time-off"] });
+      toast({
+        title: "Success",
+        description: "Time off added successfully",
+      });
+      setStartDate("");
+      setEndDate("");
+      setNotes("");
+    },
+    onError: (error) => handleError(error, "Failed to add time off"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/artists/${artistId}/time-off/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/artists", artistId, "time-off"] });
+    },
+    onError: (error) => handleError(error, "Failed to remove time off"),
+  });
+
+  const formatRange = (entry: ArtistTimeOff) => {
+    const start = new Date(entry.startDate);
+    const lastDay = new Date(new Date(entry.endDate).getTime() - 1);
+    const format = (d: Date) =>
+      d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone });
+    return getZonedDateKey(start, timeZone) === getZonedDateKey(lastDay, timeZone)
+      ? format(start)
+      : `${format(start)} – ${format(lastDay)}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      {timeOff && timeOff.length > 0 ? (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+          {timeOff.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between px-3 py-2">
+              <div className="flex items-center gap-3">
+                <Badge variant="secondary" className="capitalize">{entry.type}</Badge>
+                <span className="text-sm text-gray-900 dark:text-white">{formatRange(entry)}</span>
+                {entry.notes && (
+                  <span className="text-sm text-gray-500 dark:text-gray-400 truncate">{entry.notes}</span>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate(entry.id)}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No time off scheduled</p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="vacation">Vacation</SelectItem>
+            <SelectItem value="sick">Sick</SelectItem>
+            <SelectItem value="personal">Personal</SelectItem>
+            <SelectItem value="other">Other</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input placeholder="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => createMutation.mutate()}
+        disabled={!startDate || !endDate || endDate < startDate || createMutation.isPending}
+      >
+        {createMutation.isPending ? "Adding..." : "Add Time Off"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { weekdays, type WeeklySchedule, type Weekday, type WorkingDay } from "@shared/schema";
+import { weekdayLabels } from "@shared/workingHours";
+import { Plus, X } from "lucide-react";
+
+interface WorkingHoursEditorProps {
+  value: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+}
+
+const defaultWorkingDay: WorkingDay = { start: "10:00", end: "18:00", breaks: [] };
+
+export function WorkingHoursEditor({ value, onChange }: WorkingHoursEditorProps) {
+  const updateDay = (weekday: Weekday, day: WorkingDay | null) => {
+    onChange({ ...value, [weekday]: day });
+  };
+
+  const updateBreak = (weekday: Weekday, index: number, field: "start" | "end", time: string) => {
+    const day = value[weekday];
+    if (!day) return;
+    const breaks = day.breaks.map((b, i) => (i === index ? { ...b, [field]: time } : b));
+    updateDay(weekday, { ...day, breaks });
+  };
+
+  const addBreak = (weekday: Weekday) => {
+    const day = value[weekday];
+    if (!day) return;
+    updateDay(weekday, { ...day, breaks: [...day.breaks, { start: "13:00", end: "14:00" }] });
+  };
+
+  const removeBreak = (weekday: Weekday, index: number) => {
+    const day = value[weekday];
+    if (!day) return;
+    updateDay(weekday, { ...day, breaks: day.breaks.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-2">
+      {weekdays.map((weekday) => {
+        const day = value[weekday];
+
+        return (
+          <div key={weekday} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+            <div className="flex items-center gap-3">
+              <Switch
+                checked={!!day}
+                onCheckedChange={(checked) => updateDay(weekday, checked ? { ...defaultWorkingDay } : null)}
+              />
+              <span className="w-10 text-sm font-medium text-gray-900 dark:text-white">
+                {weekdayLabels[weekday]}
+              </span>
+              {day ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={day.start}
+                    onChange={(e) => updateDay(weekday, { ...day, start: e.target.value })}
+                  />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={day.end}
+                    onChange={(e) => updateDay(weekday, { ...day, end: e.target.value })}
+                  />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => addBreak(weekday)}>
+                    <Plus className="w-3 h-3 mr-1" />
+                    Break
+                  </Button>
+                </div>
+              ) : (
+                <span className="text-sm text-gray-500 dark:text-gray-400">Day off</span>
+              )}
+            </div>
+
+            {day && day.breaks.length > 0 && (
+              <div className="mt-2 ml-[5.25rem] space-y-2">
+                {day.breaks.map((b, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-12 text-xs text-gray-500 dark:text-gray-400">Break</span>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      value={b.start}
+                      onChange={(e) => updateBreak(weekday, index, "start", e.target.value)}
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      value={b.end}
+                      onChange={(e) => updateBreak(weekday, index, "end", e.target.value)}
+                    />
+                    <Button type="button" variant="ghost" size="sm" onClick={() => removeBreak(weekday, index)}>
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
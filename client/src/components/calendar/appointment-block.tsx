@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import {
+  SNAP_MINUTES,
+  isReschedulable,
+  minutesToPixels,
+  pixelsToMinutes,
+  snapMinutes,
+  statusBlockColors,
+} from "@/lib/calendarUtils";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+import type { AppointmentWithRelations } from "@shared/schema";
+
+export interface AppointmentDragData {
+  id: string;
+  grabOffsetMinutes: number;
+}
+
+interface AppointmentBlockProps {
+  appointment: AppointmentWithRelations;
+  top: number;
+  left: string;
+  width: string;
+  showArtist?: boolean;
+  onResize: (appointment: AppointmentWithRelations, duration: number) => void;
+  onSelect?: (appointment: AppointmentWithRelations) => void;
+}
+
+export function AppointmentBlock({ appointment, top, left, width, showArtist, onResize, onSelect }: AppointmentBlockProps) {
+  const timeZone = useStudioTimeZone();
+
+  const [previewDuration, setPreviewDuration] = useState<number | null>(null);
+  const movable = isReschedulable(appointment);
+  const duration = previewDuration ?? appointment.duration;
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const data: AppointmentDragData = {
+      id: appointment.id,
+      grabOffsetMinutes: pixelsToMinutes(e.clientY - rect.top),
+    };
+    e.dataTransfer.setData("text/plain", JSON.stringify(data));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleResizeStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startY = e.clientY;
+    let nextDuration = appointment.duration;
+
+    const handleMove = (event: PointerEvent) => {
+      nextDuration = Math.max(
+        SNAP_MINUTES,
+        snapMinutes(appointment.duration + pixelsToMinutes(event.clientY - startY)),
+      );
+      setPreviewDuration(nextDuration);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+      setPreviewDuration(null);
+      if (nextDuration !== appointment.duration) {
+        onResize(appointment, nextDuration);
+      }
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+  };
+
+  const formatTime = (date: Date | string) =>
+    new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone });
+
+  return (
+    <div
+      draggable={movable && previewDuration === null}
+      onDragStart={handleDragStart}
+      onClick={() => onSelect?.(appointment)}
+      className={cn(
+        "absolute overflow-hidden rounded-md border-l-4 px-2 py-1 text-xs shadow-sm",
+        statusBlockColors[appointment.status ?? "scheduled"],
+        movable ? "cursor-move" : onSelect ? "cursor-pointer" : "cursor-default",
+      )}
+      style={{
+        top,
+        left,
+        width,
+        height: Math.max(minutesToPixels(duration), 18),
+      }}
+      title={`${appointment.client.firstName} ${appointment.client.lastName} · ${appointmentTypeLabels[appointment.type]} · ${appointment.bodyPart}`}
+    >
+      <div className="font-semibold truncate">
+        {appointment.client.firstName} {appointment.client.lastName}
+      </div>
+      <div className="truncate">
+        {formatTime(appointment.scheduledDate)} · {appointment.bodyPart}
+      </div>
+      {(showArtist || appointment.station) && (
+        <div className="truncate opacity-75">
+          {[showArtist && appointment.artist.name, appointment.station?.name].filter(Boolean).join(" · ")}
+        </div>
+      )}
+
+      {movable && (
+        <div
+          onPointerDown={handleResizeStart}
+          onClick={(e) => e.stopPropagation()}
+          className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { isConflictError, getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  getRangeTitle,
+  getStudioToday,
+  getVisibleRange,
+  isOnCalendarDay,
+  isStudioToday,
+  shiftDate,
+  statusBlockColors,
+  toStudioRange,
+  type CalendarView,
+} from "@/lib/calendarUtils";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarPlus, ChevronLeft, ChevronRight } from "lucide-react";
+import { CalendarFeedManager } from "@/components/artists/calendar-feed-manager";
+import { TimeGrid, type TimeGridColumn } from "./time-grid";
+import { MonthGrid } from "./month-grid";
+import type { AppointmentWithRelations, Artist, InsertAppointment } from "@shared/schema";
+
+const views: CalendarView[] = ["day", "week", "month"];
+
+interface AppointmentCalendarProps {
+  onSelectAppointment?: (appointment: AppointmentWithRelations) => void;
+}
+
+export function AppointmentCalendar({ onSelectAppointment }: AppointmentCalendarProps) {
+  const timeZone = useStudioTimeZone();
+  const [view, setView] = useState<CalendarView>("week");
+  const [currentDate, setCurrentDate] = useState(() => getStudioToday(timeZone));
+  const [artistFilter, setArtistFilter] = useState("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const range = getVisibleRange(view, currentDate);
+  const studioRange = toStudioRange(range, timeZone);
+
+  const { data: appointments, isLoading } = useQuery<AppointmentWithRelations[]>({
+    queryKey: ["/api/appointments", "range", studioRange.start.toISOString(), studioRange.end.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        start: studioRange.start.toISOString(),
+        end: studioRange.end.toISOString(),
+      });
+      const res = await apiRequest("GET", `/api/appointments?${params.toString()}`);
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const { data: artists } = useQuery<Artist[]>({
+    queryKey: ["/api/artists"],
+    retry: false,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Partial<InsertAppointment> }) => {
+      await apiRequest("PATCH", `/api/appointments/${id}`, changes);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "Appointment rescheduled",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      if (isConflictError(error)) {
+        const payload = getErrorPayload<{ message: string }>(error);
+        toast({
+          title: "Scheduling conflict",
+          description: payload?.message ?? "The new time is not available",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to reschedule appointment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const visibleAppointments = (appointments ?? []).filter(
+    (appointment) => artistFilter === "all" || appointment.artistId === artistFilter,
+  );
+
+  const handleMove = (appointmentId: string, changes: { scheduledDate: Date; artistId?: string }) => {
+    const appointment = appointments?.find((a) => a.id === appointmentId);
+    if (!appointment) return;
+
+    const sameTime = new Date(appointment.scheduledDate).getTime() === changes.scheduledDate.getTime();
+    const sameArtist = !changes.artistId || changes.artistId === appointment.artistId;
+    if (sameTime && sameArtist) return;
+
+    rescheduleMutation.mutate({
+      id: appointmentId,
+      changes: {
+        scheduledDate: changes.scheduledDate,
+        ...(sameArtist ? {} : { artistId: changes.artistId }),
+      },
+    });
+  };
+
+  const handleResize = (appointment: AppointmentWithRelations, duration: number) => {
+    rescheduleMutation.mutate({ id: appointment.id, changes: { duration } });
+  };
+
+  const dayColumns = (): TimeGridColumn[] => {
+    const dayArtists = (artists ?? []).filter(
+      (artist) =>
+        (artistFilter === "all" || artist.id === artistFilter) &&
+        (artist.isActive || visibleAppointments.some((a) => a.artistId === artist.id)),
+    );
+    return dayArtists.map((artist) => ({
+      id: artist.id,
+      label: artist.name,
+      date: range.start,
+      artistId: artist.id,
+      appointments: visibleAppointments.filter((a) => a.artistId === artist.id),
+    }));
+  };
+
+  const weekColumns = (): TimeGridColumn[] =>
+    Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(range.start, i);
+      return {
+        id: date.toISOString(),
+        label: format(date, "EEE"),
+        sublabel: format(date, "MMM d"),
+        date,
+        highlight: isStudioToday(date, timeZone),
+        appointments: visibleAppointments.filter((a) => isOnCalendarDay(a.scheduledDate, date, timeZone)),
+      };
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setCurrentDate(getStudioToday(timeZone))}>
+              Today
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setCurrentDate(shiftDate(view, currentDate, -1))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setCurrentDate(shiftDate(view, currentDate, 1))}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {getRangeTitle(view, currentDate)}
+            </h3>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={artistFilter} onValueChange={setArtistFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="All artists" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Artists</SelectItem>
+                {artists?.map((artist) => (
+                  <SelectItem key={artist.id} value={artist.id}>
+                    {artist.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700">
+              {views.map((option) => (
+                <Button
+                  key={option}
+                  variant={view === option ? "default" : "ghost"}
+                  size="sm"
+                  className="capitalize rounded-none first:rounded-l-md last:rounded-r-md"
+                  onClick={() => setView(option)}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <CalendarPlus className="w-4 h-4 mr-1" />
+                  Subscribe
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-96 space-y-2">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">Studio calendar feed</p>
+                <CalendarFeedManager />
+              </PopoverContent>
+            </Popover>
+          </div>
+        </div>
+
+        {/* Status legend */}
+        <div className="flex flex-wrap gap-2 pt-2">
+          {Object.entries(statusBlockColors).map(([status, className]) => (
+            <span
+              key={status}
+              className={cn("rounded border-l-4 px-2 py-0.5 text-xs capitalize", className)}
+            >
+              {status.replace('_', ' ')}
+            </span>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-2 text-gray-500 dark:text-gray-400">Loading calendar...</p>
+          </div>
+        ) : view === "month" ? (
+          <MonthGrid
+            month={currentDate}
+            rangeStart={range.start}
+            rangeEnd={range.end}
+            appointments={visibleAppointments}
+            onMove={handleMove}
+            onSelectAppointment={onSelectAppointment}
+            onSelectDay={(date) => {
+              setCurrentDate(date);
+              setView("day");
+            }}
+          />
+        ) : (
+          <TimeGrid
+            columns={view === "day" ? dayColumns() : weekColumns()}
+            showArtist={view === "week"}
+            onMove={handleMove}
+            onResize={handleResize}
+            onSelectAppointment={onSelectAppointment}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { addDays, format, isSameMonth } from "date-fns";
+import { cn } from "@/lib/utils";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import {
+  atStudioTime,
+  isOnCalendarDay,
+  isReschedulable,
+  isStudioToday,
+  statusBlockColors,
+} from "@/lib/calendarUtils";
+import { getMinutesIntoZonedDay } from "@shared/timezone";
+import type { AppointmentDragData } from "./appointment-block";
+import type { AppointmentWithRelations } from "@shared/schema";
+
+interface MonthGridProps {
+  month: Date;
+  rangeStart: Date;
+  rangeEnd: Date;
+  appointments: AppointmentWithRelations[];
+  onMove: (appointmentId: string, changes: { scheduledDate: Date }) => void;
+  onSelectAppointment?: (appointment: AppointmentWithRelations) => void;
+  onSelectDay: (date: Date) => void;
+}
+
+const MAX_VISIBLE_PER_DAY = 3;
+
+export function MonthGrid({ month, rangeStart, rangeEnd, appointments, onMove, onSelectAppointment, onSelectDay }: MonthGridProps) {
+  const timeZone = useStudioTimeZone();
+  const days: Date[] = [];
+  for (let day = rangeStart; day < rangeEnd; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const handleDrop = (day: Date) => (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    let data: AppointmentDragData;
+    try {
+      data = JSON.parse(e.dataTransfer.getData("text/plain"));
+    } catch {
+      return;
+    }
+
+    // Moving between days keeps the time of day
+    const appointment = appointments.find((a) => a.id === data.id);
+    if (!appointment) return;
+    const minutes = getMinutesIntoZonedDay(appointment.scheduledDate, timeZone);
+    onMove(data.id, { scheduledDate: atStudioTime(day, minutes, timeZone) });
+  };
+
+  const handleDragStart = (appointment: AppointmentWithRelations) => (e: React.DragEvent<HTMLDivElement>) => {
+    const data: AppointmentDragData = { id: appointment.id, grabOffsetMinutes: 0 };
+    e.dataTransfer.setData("text/plain", JSON.stringify(data));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-7 border-b border-gray-200 dark:border-gray-700">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="py-2 text-center text-xs font-medium uppercase text-gray-500 dark:text-gray-400">
+            {format(day, "EEE")}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const dayAppointments = appointments.filter((a) => isOnCalendarDay(a.scheduledDate, day, timeZone));
+          const hidden = dayAppointments.length - MAX_VISIBLE_PER_DAY;
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "min-h-[110px] border-b border-r border-gray-200 dark:border-gray-700 p-1",
+                !isSameMonth(day, month) && "bg-gray-50 dark:bg-gray-900",
+              )}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleDrop(day)}
+            >
+              <button
+                type="button"
+                onClick={() => onSelectDay(day)}
+                className={cn(
+                  "mb-1 h-6 w-6 rounded-full text-xs font-medium hover:bg-gray-100 dark:hover:bg-gray-700",
+                  isStudioToday(day, timeZone) ? "bg-primary text-white hover:bg-primary" : "text-gray-700 dark:text-gray-300",
+                )}
+              >
+                {format(day, "d")}
+              </button>
+              <div className="space-y-1">
+                {dayAppointments.slice(0, MAX_VISIBLE_PER_DAY).map((appointment) => (
+                  <div
+                    key={appointment.id}
+                    draggable={isReschedulable(appointment)}
+                    onDragStart={handleDragStart(appointment)}
+                    onClick={() => onSelectAppointment?.(appointment)}
+                    className={cn(
+                      "truncate rounded border-l-4 px-1 text-xs",
+                      statusBlockColors[appointment.status ?? "scheduled"],
+                      isReschedulable(appointment) ? "cursor-move" : onSelectAppointment ? "cursor-pointer" : "cursor-default",
+                    )}
+                    title={`${appointment.client.firstName} ${appointment.client.lastName} · ${appointment.artist.name}${appointment.station ? ` · ${appointment.station.name}` : ""}`}
+                  >
+                    {new Date(appointment.scheduledDate).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hourCycle: "h23", timeZone })}{" "}
+                    {appointment.client.firstName} {appointment.client.lastName}
+                  </div>
+                ))}
+                {hidden > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => onSelectDay(day)}
+                    className="text-xs text-primary hover:underline"
+                  >
+                    +{hidden} more
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
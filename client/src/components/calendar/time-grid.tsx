@@ -0,0 +1,122 @@
+import { cn } from "@/lib/utils";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import {
+  GRID_END_HOUR,
+  GRID_START_HOUR,
+  HOUR_HEIGHT,
+  assignLanes,
+  atStudioTime,
+  getMinutesFromGridTop,
+  minutesToPixels,
+  pixelsToMinutes,
+  snapMinutes,
+} from "@/lib/calendarUtils";
+import { AppointmentBlock, type AppointmentDragData } from "./appointment-block";
+import type { AppointmentWithRelations } from "@shared/schema";
+
+export interface TimeGridColumn {
+  id: string;
+  label: string;
+  sublabel?: string;
+  date: Date;
+  artistId?: string;
+  highlight?: boolean;
+  appointments: AppointmentWithRelations[];
+}
+
+interface TimeGridProps {
+  columns: TimeGridColumn[];
+  showArtist?: boolean;
+  onMove: (appointmentId: string, changes: { scheduledDate: Date; artistId?: string }) => void;
+  onResize: (appointment: AppointmentWithRelations, duration: number) => void;
+  onSelectAppointment?: (appointment: AppointmentWithRelations) => void;
+}
+
+const hours = Array.from({ length: GRID_END_HOUR - GRID_START_HOUR }, (_, i) => GRID_START_HOUR + i);
+
+export function TimeGrid({ columns, showArtist, onMove, onResize, onSelectAppointment }: TimeGridProps) {
+  const timeZone = useStudioTimeZone();
+  const gridHeight = hours.length * HOUR_HEIGHT;
+
+  const handleDrop = (column: TimeGridColumn) => (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    let data: AppointmentDragData;
+    try {
+      data = JSON.parse(e.dataTransfer.getData("text/plain"));
+    } catch {
+      return;
+    }
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = snapMinutes(pixelsToMinutes(e.clientY - rect.top) - data.grabOffsetMinutes);
+    const minutes = Math.min(
+      Math.max(offset, 0),
+      (GRID_END_HOUR - GRID_START_HOUR) * 60,
+    ) + GRID_START_HOUR * 60;
+
+    onMove(data.id, { scheduledDate: atStudioTime(column.date, minutes, timeZone), artistId: column.artistId });
+  };
+
+  return (
+    <div className="overflow-auto">
+      <div className="flex min-w-max">
+        {/* Hour labels */}
+        <div className="w-16 flex-shrink-0">
+          <div className="h-12 border-b border-gray-200 dark:border-gray-700" />
+          {hours.map((hour) => (
+            <div
+              key={hour}
+              className="pr-2 text-right text-xs text-gray-500 dark:text-gray-400"
+              style={{ height: HOUR_HEIGHT }}
+            >
+              {hour.toString().padStart(2, "0")}:00
+            </div>
+          ))}
+        </div>
+
+        {columns.map((column) => (
+          <div key={column.id} className="flex-1 min-w-[140px] border-l border-gray-200 dark:border-gray-700">
+            <div
+              className={cn(
+                "h-12 px-2 flex flex-col justify-center border-b border-gray-200 dark:border-gray-700 text-center",
+                column.highlight && "bg-blue-50 dark:bg-blue-950",
+              )}
+            >
+              <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{column.label}</span>
+              {column.sublabel && (
+                <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{column.sublabel}</span>
+              )}
+            </div>
+            <div
+              className="relative"
+              style={{ height: gridHeight }}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleDrop(column)}
+            >
+              {hours.map((hour) => (
+                <div
+                  key={hour}
+                  className="border-b border-gray-100 dark:border-gray-800"
+                  style={{ height: HOUR_HEIGHT }}
+                />
+              ))}
+
+              {assignLanes(column.appointments).map(({ appointment, lane, lanes }) => (
+                <AppointmentBlock
+                  key={appointment.id}
+                  appointment={appointment}
+                  top={minutesToPixels(Math.max(getMinutesFromGridTop(new Date(appointment.scheduledDate), timeZone), 0))}
+                  left={`${(lane / lanes) * 100}%`}
+                  width={`calc(${100 / lanes}% - 4px)`}
+                  showArtist={showArtist}
+                  onResize={onResize}
+                  onSelect={onSelectAppointment}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { AlertTriangle } from "lucide-react";
+import { getAgeAtAppointment, isUnderAge } from "@shared/age";
+import type { StudioSettings } from "@shared/schema";
+
+// The client's age on the appointment day, and whether that is under the studio's minimum
+function useAppointmentAge(dateOfBirth: Date | string | null | undefined, scheduledDate: Date | string | undefined) {
+  const { data: settings } = useQuery<StudioSettings>({
+    queryKey: ["/api/settings"],
+    retry: false,
+  });
+
+  if (!settings || !scheduledDate) return undefined;
+  const age = getAgeAtAppointment(dateOfBirth, scheduledDate, settings.timeZone);
+  return { age, underAge: isUnderAge(age, settings), settings };
+}
+
+interface AgeWarningProps {
+  dateOfBirth: Date | string | null | undefined;
+  scheduledDate: Date | string | undefined;
+}
+
+// Compact flag for schedules: only shown for clients under the minimum age
+export function AgeBadge({ dateOfBirth, scheduledDate, className }: AgeWarningProps & { className?: string }) {
+  const result = useAppointmentAge(dateOfBirth, scheduledDate);
+  if (!result?.underAge) return null;
+
+  return (
+    <Badge
+      className={cn("border-transparent bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300", className)}
+      title={`Under the studio's minimum age of ${result.settings.minimumAge}`}
+    >
+      Age {result.age}
+    </Badge>
+  );
+}
+
+// What the client's age means for the booking being made
+export function AgeNotice({ dateOfBirth, scheduledDate }: AgeWarningProps) {
+  const result = useAppointmentAge(dateOfBirth, scheduledDate);
+  if (!result) return null;
+
+  if (result.age === null) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No date of birth on file; check the client's ID before the session.
+      </p>
+    );
+  }
+  if (!result.underAge) return null;
+
+  return (
+    <div className="rounded-md border border-orange-200 dark:border-orange-800 p-3 text-sm flex items-start gap-2">
+      <AlertTriangle className="w-4 h-4 mt-0.5 text-orange-600 dark:text-orange-400 shrink-0" />
+      <p className="text-orange-700 dark:text-orange-400">
+        The client will be {result.age} on this date, under the studio's minimum age of {result.settings.minimumAge}.{" "}
+        {result.settings.minorPolicy === "block"
+          ? "The booking will be refused."
+          : "A parent or guardian has to show ID and sign consent before the session can start."}
+      </p>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
+import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
-import { insertClientSchema, type InsertClient, type Client } from "@shared/schema";
+import { getDateOfBirthKey, parseDateOfBirth } from "@shared/age";
+import { insertClientSchema, medicalInfoRoles, sensitiveClientFields, type InsertClient, type Client } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -22,6 +25,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { ShieldAlert } from "lucide-react";
 
 interface ClientModalProps {
   isOpen: boolean;
@@ -33,6 +37,10 @@ export function ClientModal({ isOpen, onClose, client }: ClientModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const isEditing = !!client;
+  const { user } = useAuth();
+  const canViewMedicalInfo = !!user && medicalInfoRoles.includes(user.role);
+  // Anyone can record medical details at intake, but only medical roles can see or change them afterwards
+  const showMedicalFields = !isEditing || canViewMedicalInfo;
 
   const form = useForm<InsertClient>({
     resolver: zodResolver(insertClientSchema),
@@ -48,6 +56,20 @@ export function ClientModal({ isOpen, onClose, client }: ClientModalProps) {
     },
   });
 
+  // Client lists leave the medical details out, so they are loaded separately before editing
+  const { data: details, isLoading: isLoadingDetails, isError: detailsFailed } = useQuery<Client>({
+    queryKey: ["/api/clients", client?.id],
+    enabled: isOpen && isEditing && canViewMedicalInfo,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (details) {
+      form.setValue("emergencyContact", details.emergencyContact || "");
+      form.setValue("medicalNotes", details.medicalNotes || "");
+    }
+  }, [details, form]);
+
   const mutation = useMutation({
     mutationFn: async (data: InsertClient) => {
       if (isEditing) {
@@ -86,6 +108,15 @@ export function ClientModal({ isOpen, onClose, client }: ClientModalProps) {
   });
 
   const onSubmit = (data: InsertClient) => {
+    // Medical details are only sent when edited, so what was stored is never replaced by blanks
+    if (isEditing) {
+      const { dirtyFields } = form.formState;
+      for (const field of sensitiveClientFields) {
+        if (!dirtyFields[field]) {
+          delete data[field];
+        }
+      }
+    }
     mutation.mutate(data);
   };
 
@@ -168,8 +199,8 @@ export function ClientModal({ isOpen, onClose, client }: ClientModalProps) {
                     <Input
                       type="date"
                       {...field}
-                      value={field.value ? new Date(field.value).toISOString().split('T')[0] : ''}
-                      onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                      value={field.value ? getDateOfBirthKey(field.value) : ''}
+                      onChange={(e) => field.onChange(parseDateOfBirth(e.target.value))}
                     />
                   </FormControl>
                   <FormMessage />
@@ -191,6 +222,13 @@ export function ClientModal({ isOpen, onClose, client }: ClientModalProps) {
               )}
             />
 
+            {showMedicalFields ? (
+              <>
+            {detailsFailed && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Medical details could not be loaded, so the client cannot be saved. Close and try again.
+              </p>
+            )}
             <FormField
               control={form.control}
               name="emergencyContact"
@@ -223,12 +261,19 @@ export function ClientModal({ isOpen, onClose, client }: ClientModalProps) {
                 </FormItem>
               )}
             />
+              </>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                <ShieldAlert className="w-4 h-4" />
+                Emergency contact and medical notes are only visible to artists and admins
+              </p>
+            )}
 
             <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={mutation.isPending}>
+              <Button type="submit" disabled={mutation.isPending || (isEditing && canViewMedicalInfo && (isLoadingDetails || detailsFailed))}>
                 {mutation.isPending ? (isEditing ? "Updating..." : "Creating...") : (isEditing ? "Update Client" : "Create Client")}
               </Button>
             </div>
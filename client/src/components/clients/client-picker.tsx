@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { HighlightedText } from "./highlighted-text";
+import type { Client, ClientSearchResult } from "@shared/schema";
+
+interface ClientPickerProps {
+  value: string;
+  onChange: (clientId: string) => void;
+  placeholder?: string;
+}
+
+// The detail shown under a result's name when something else matched the search
+function getMatchedDetail(client: ClientSearchResult): string | null {
+  switch (client.matchedField) {
+    case "email":
+      return client.email;
+    case "phone":
+      return client.phone;
+    case "address":
+      return client.address;
+    default:
+      return null;
+  }
+}
+
+// Client select that searches the server as you type; clients are listed A-Z until then
+export function ClientPicker({ value, onChange, placeholder = "Select a client" }: ClientPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const query = search.trim();
+
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    retry: false,
+  });
+
+  const { data: results, isFetching } = useQuery<ClientSearchResult[]>({
+    queryKey: ["/api/clients", { search: query }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/clients?${new URLSearchParams({ search: query })}`);
+      return res.json();
+    },
+    enabled: open && !!query,
+    retry: false,
+  });
+
+  const selected = clients?.find((client) => client.id === value);
+  const options: (Client | ClientSearchResult)[] = query ? results ?? [] : clients ?? [];
+
+  const handleSelect = (clientId: string) => {
+    onChange(clientId);
+    setOpen(false);
+    setSearch("");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", !selected && "text-muted-foreground")}
+        >
+          <span className="truncate">{selected ? `${selected.firstName} ${selected.lastName}` : placeholder}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Name, email, phone or address" value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{isFetching ? "Searching..." : "No clients found"}</CommandEmpty>
+            <CommandGroup>
+              {options.map((client) => {
+                const name = `${client.firstName} ${client.lastName}`;
+                const matched = "matchedField" in client ? client : null;
+                const detail = matched && getMatchedDetail(matched);
+                return (
+                  <CommandItem key={client.id} value={client.id} onSelect={() => handleSelect(client.id)}>
+                    <Check className={cn("mr-2 h-4 w-4 shrink-0", value === client.id ? "opacity-100" : "opacity-0")} />
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        {matched?.matchedField === "name" ? <HighlightedText text={name} query={query} /> : name}
+                      </p>
+                      {detail && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          <HighlightedText text={detail} query={query} />
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { FileUpload } from "@/components/appointments/file-upload";
+import {
+  Calendar,
+  CreditCard,
+  FileSignature,
+  Layers,
+  MessageSquare,
+  Merge,
+  Send,
+  StickyNote,
+  Trash2,
+  Wallet,
+} from "lucide-react";
+import { appointmentStatusLabels } from "@shared/appointmentStatus";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+import type {
+  AppointmentWithRelations,
+  ClientNoteKind,
+  ClientTimelineEvent,
+} from "@shared/schema";
+
+export const clientNoteKindLabels: Record<ClientNoteKind, string> = {
+  note: "Note",
+  call: "Phone call",
+  email: "Email",
+  sms: "Text message",
+  in_person: "In person",
+};
+
+const statusClasses: Record<string, string> = {
+  confirmed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  checked_in: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  in_progress: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  completed: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+const eventIcons: Record<ClientTimelineEvent["kind"], typeof Calendar> = {
+  appointment: Calendar,
+  project: Layers,
+  deposit: Wallet,
+  sale: CreditCard,
+  signature: FileSignature,
+  note: StickyNote,
+  message: Send,
+  merge: Merge,
+};
+
+const formatCurrency = (amount: string | number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(Number(amount));
+
+function ImageStrip({ images }: { images: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {images.map((url) => (
+        <a key={url} href={url} target="_blank" rel="noreferrer">
+          <img src={url} alt="" className="w-16 h-16 rounded-md object-cover border border-gray-200 dark:border-gray-700" />
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// Healed photos are added to the session they belong to, usually at the touch-up
+function HealedPhotos({ appointment, clientId }: { appointment: AppointmentWithRelations; clientId: string }) {
+  const [isEditing, setIsEditing] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async (healedPhotos: string[]) => {
+      await apiRequest("PATCH", `/api/appointments/${appointment.id}`, { healedPhotos });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients", clientId, "profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save healed photos",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const healedPhotos = appointment.healedPhotos ?? [];
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Healed photos</p>
+        <FileUpload value={healedPhotos} onChange={(files) => saveMutation.mutate(files)} maxFiles={10} />
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setIsEditing(false)}>
+          Done
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {healedPhotos.length > 0 && (
+        <>
+          <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Healed photos</p>
+          <ImageStrip images={healedPhotos} />
+        </>
+      )}
+      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setIsEditing(true)}>
+        {healedPhotos.length > 0 ? "Edit healed photos" : "Add healed photos"}
+      </Button>
+    </div>
+  );
+}
+
+interface ClientTimelineProps {
+  clientId: string;
+  events: ClientTimelineEvent[];
+  timeZone: string;
+  onDeleteNote: (id: string) => void;
+}
+
+export function ClientTimeline({ clientId, events, timeZone, onDeleteNote }: ClientTimelineProps) {
+  const formatDateTime = (date: Date | string) =>
+    new Date(date).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone,
+    });
+
+  const renderEvent = (event: ClientTimelineEvent) => {
+    switch (event.kind) {
+      case "appointment": {
+        const { appointment } = event;
+        const status = appointment.status ?? "scheduled";
+        return (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-gray-900 dark:text-white">
+                {appointmentTypeLabels[appointment.type]} with {appointment.artist.name}
+              </span>
+              <Badge className={statusClasses[status] ?? "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"}>
+                {appointmentStatusLabels[status]}
+              </Badge>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {appointment.bodyPart} · {appointment.duration} min
+              {appointment.description && ` · ${appointment.description}`}
+            </p>
+            {appointment.notes && <p className="text-sm text-gray-600 dark:text-gray-400">{appointment.notes}</p>}
+            {appointment.referenceImages && appointment.referenceImages.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Reference images</p>
+                <ImageStrip images={appointment.referenceImages} />
+              </div>
+            )}
+            {status === "completed" && <HealedPhotos appointment={appointment} clientId={clientId} />}
+          </div>
+        );
+      }
+      case "project":
+        return (
+          <div className="space-y-2">
+            <p className="font-medium text-gray-900 dark:text-white">Project started: {event.project.title}</p>
+            {event.project.designNotes && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">{event.project.designNotes}</p>
+            )}
+            {event.project.referenceImages && event.project.referenceImages.length > 0 && (
+              <ImageStrip images={event.project.referenceImages} />
+            )}
+          </div>
+        );
+      case "deposit":
+        return (
+          <p className="font-medium text-gray-900 dark:text-white">
+            Deposit of {formatCurrency(event.amount)} paid
+            {event.paymentMethod && <span className="font-normal text-gray-600 dark:text-gray-400"> by {event.paymentMethod}</span>}
+          </p>
+        );
+      case "sale":
+        return (
+          <div className="space-y-1">
+            <p className="font-medium text-gray-900 dark:text-white">
+              Sale of {formatCurrency(event.sale.totalAmount)} with {event.sale.artist.name}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {Number(event.sale.remainingBalance ?? 0) > 0
+                ? `${formatCurrency(event.sale.remainingBalance ?? 0)} still owed`
+                : "Paid in full"}
+              {event.sale.paymentMethod && ` · ${event.sale.paymentMethod}`}
+            </p>
+            {event.sale.notes && <p className="text-sm text-gray-600 dark:text-gray-400">{event.sale.notes}</p>}
+          </div>
+        );
+      case "signature":
+        return (
+          <p className="font-medium text-gray-900 dark:text-white">
+            Signed {event.signature.formTitle} (version {event.signature.formVersion})
+            <span className="font-normal text-gray-600 dark:text-gray-400"> as "{event.signature.signedName}"</span>
+          </p>
+        );
+      case "note":
+        return (
+          <div className="flex items-start justify-between gap-3">
+            <div className="space-y-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{clientNoteKindLabels[event.note.kind]}</Badge>
+                {event.note.author && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    by {[event.note.author.firstName, event.note.author.lastName].filter(Boolean).join(" ") || event.note.author.email}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{event.note.body}</p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => onDeleteNote(event.note.id)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      case "message":
+        return (
+          <p className="font-medium text-gray-900 dark:text-white">
+            Appointment reminder sent by {event.reminder.channel === "sms" ? "text message" : "email"}
+            <span className="font-normal text-gray-600 dark:text-gray-400">
+              {" "}({event.reminder.hoursBefore} hours before)
+            </span>
+          </p>
+        );
+      case "merge": {
+        const { merge } = event;
+        const moved = Object.values(merge.movedRecords).reduce((total, count) => total + count, 0);
+        const mergedBy = merge.mergedByUser
+          ? [merge.mergedByUser.firstName, merge.mergedByUser.lastName].filter(Boolean).join(" ") || merge.mergedByUser.email
+          : null;
+        return (
+          <div className="space-y-1">
+            <p className="font-medium text-gray-900 dark:text-white">
+              Merged with duplicate record {merge.mergedClient.firstName} {merge.mergedClient.lastName}
+              {mergedBy && <span className="font-normal text-gray-600 dark:text-gray-400"> by {mergedBy}</span>}
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {[merge.mergedClient.email, merge.mergedClient.phone].filter(Boolean).join(" · ")}
+              {(merge.mergedClient.email || merge.mergedClient.phone) && " · "}
+              {moved} {moved === 1 ? "record" : "records"} moved over
+            </p>
+          </div>
+        );
+      }
+    }
+  };
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <MessageSquare className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+        <p className="text-gray-500 dark:text-gray-400">Nothing on record for this client yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-3 space-y-6">
+      {events.map((event, index) => {
+        const Icon = eventIcons[event.kind];
+        return (
+          <li key={`${event.kind}-${index}`} className="ml-6">
+            <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+              <Icon className="w-3 h-3 text-gray-500 dark:text-gray-400" />
+            </span>
+            <time className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{formatDateTime(event.date)}</time>
+            {renderEvent(event)}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
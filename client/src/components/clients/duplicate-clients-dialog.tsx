@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Users } from "lucide-react";
+import { combineClientDetails, duplicateMatchReasonLabels } from "@shared/clientMatching";
+import { formatDateOfBirth } from "@shared/age";
+import type { Client, DuplicateClientPair } from "@shared/schema";
+
+interface DuplicateClientsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type PendingMerge = { survivor: Client; duplicate: Client };
+
+export function DuplicateClientsDialog({ open, onOpenChange }: DuplicateClientsDialogProps) {
+  const timeZone = useStudioTimeZone();
+  const [pending, setPending] = useState<PendingMerge | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === "admin";
+
+  const { data: pairs, isLoading } = useQuery<DuplicateClientPair[]>({
+    queryKey: ["/api/clients/duplicates"],
+    enabled: open,
+    retry: false,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivor, duplicate }: PendingMerge) => {
+      await apiRequest("POST", "/api/clients/merge", { survivorId: survivor.id, duplicateId: duplicate.id });
+    },
+    onSuccess: (_, { survivor, duplicate }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Success",
+        description: `${duplicate.firstName} ${duplicate.lastName} merged into ${survivor.firstName} ${survivor.lastName}`,
+      });
+      setPending(null);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to merge clients",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (date: Date | string | null) => {
+    if (!date) return "—";
+    return new Date(date).toLocaleDateString("en-US", { timeZone });
+  };
+
+  const renderClient = (client: Client, pair: DuplicateClientPair) => {
+    const other = pair.clients.find((entry) => entry.id !== client.id)!;
+    const isSurvivor = pending?.survivor.id === client.id && pending.duplicate.id === other.id;
+    return (
+      <div
+        className={cn(
+          "flex-1 min-w-0 rounded-md border p-3 space-y-1 text-sm",
+          isSurvivor ? "border-primary" : "border-gray-200 dark:border-gray-700",
+        )}
+      >
+        <p className="font-medium text-gray-900 dark:text-white">
+          {client.firstName} {client.lastName}
+        </p>
+        <p className="text-gray-600 dark:text-gray-400 truncate">{client.email || "No email"}</p>
+        <p className="text-gray-600 dark:text-gray-400">{client.phone || "No phone"}</p>
+        <p className="text-gray-600 dark:text-gray-400">Born {client.dateOfBirth ? formatDateOfBirth(client.dateOfBirth) : "—"}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">Added {formatDate(client.createdAt)}</p>
+        {isAdmin && (
+          <Button
+            variant={isSurvivor ? "default" : "outline"}
+            size="sm"
+            className="mt-2"
+            onClick={() => setPending({ survivor: client, duplicate: other })}
+          >
+            Keep this record
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  // What the kept record will look like once the other is folded into it
+  const preview = pending ? { ...pending.survivor, ...combineClientDetails(pending.survivor, pending.duplicate) } : null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) setPending(null);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicate Clients</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : !pairs || pairs.length === 0 ? (
+          <div className="text-center py-12">
+            <Users className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-500 dark:text-gray-400">No likely duplicates found</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!isAdmin && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Ask an admin to merge these records.</p>
+            )}
+            {pairs.map((pair) => {
+              const [first, second] = pair.clients;
+              const isPending = !!pending && pair.clients.some((client) => client.id === pending.survivor.id)
+                && pair.clients.some((client) => client.id === pending.duplicate.id);
+              return (
+                <div key={`${first.id}:${second.id}`} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline">Score {pair.score}</Badge>
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary">{duplicateMatchReasonLabels[reason]}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-3">
+                    {renderClient(first, pair)}
+                    {renderClient(second, pair)}
+                  </div>
+                  {isPending && preview && (
+                    <div className="rounded-md bg-gray-50 dark:bg-gray-900 p-3 text-sm space-y-2">
+                      <p className="text-gray-700 dark:text-gray-300">
+                        {pending!.duplicate.firstName} {pending!.duplicate.lastName}'s appointments, sales, projects,
+                        forms and notes move to {pending!.survivor.firstName} {pending!.survivor.lastName}, and the
+                        duplicate record is removed. The kept record will have:
+                      </p>
+                      <p className="text-gray-600 dark:text-gray-400">
+                        {preview.email || "No email"} · {preview.phone || "No phone"} · Born {preview.dateOfBirth ? formatDateOfBirth(preview.dateOfBirth) : "—"}
+                      </p>
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setPending(null)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={() => mergeMutation.mutate(pending!)} disabled={mergeMutation.isPending}>
+                          {mergeMutation.isPending ? "Merging..." : "Merge"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
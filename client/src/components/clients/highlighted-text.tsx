@@ -0,0 +1,26 @@
+import { getHighlightRanges } from "@shared/clientMatching";
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+// Marks the parts of the text a search matched
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  const ranges = query.trim() ? getHighlightRanges(text, query.trim()) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(<span key={position}>{text.slice(position, start)}</span>);
+    parts.push(
+      <mark key={start} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(<span key={position}>{text.slice(position)}</span>);
+  return <>{parts}</>;
+}
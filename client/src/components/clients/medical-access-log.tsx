@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { MedicalInfoAccessWithUser } from "@shared/schema";
+
+const sourceLabels: Record<string, string> = {
+  client: "client details",
+  profile: "profile",
+};
+
+// Who has been shown this client's medical details; admins only
+export function MedicalAccessLog({ clientId }: { clientId: string }) {
+  const timeZone = useStudioTimeZone();
+
+  const { data: entries, isLoading } = useQuery<MedicalInfoAccessWithUser[]>({
+    queryKey: ["/api/clients", clientId, "medical-access"],
+    retry: false,
+  });
+
+  const formatDateTime = (date: Date | string | null) => {
+    if (!date) return "";
+    return new Date(date).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Medical info access</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : !entries || entries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No one has viewed this client's medical details</p>
+        ) : (
+          <ul className="space-y-2 max-h-64 overflow-y-auto text-sm">
+            {entries.map((entry) => (
+              <li key={entry.id} className="text-gray-600 dark:text-gray-400">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {[entry.user.firstName, entry.user.lastName].filter(Boolean).join(" ") || entry.user.email}
+                </span>{" "}
+                via {sourceLabels[entry.source] ?? entry.source} · {formatDateTime(entry.accessedAt)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
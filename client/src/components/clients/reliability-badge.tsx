@@ -0,0 +1,97 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  getReliabilityLevel,
+  isUnreliableClient,
+  reliabilityLevelLabels,
+  type ReliabilityLevel,
+} from "@shared/reliability";
+import type { ClientReliability, StudioSettings } from "@shared/schema";
+
+const levelClasses: Record<ReliabilityLevel, string> = {
+  reliable: "border-transparent bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  watch: "border-transparent bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300",
+  flagged: "border-transparent bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function describeReliability(reliability: ClientReliability | undefined): string {
+  if (!reliability) return "No appointments yet";
+  return [
+    plural(reliability.noShows, "no-show"),
+    plural(reliability.lateCancellations, "late cancellation"),
+    plural(reliability.reschedules, "reschedule"),
+  ].join(" · ");
+}
+
+// Reliability of every client plus the studio's threshold; shared by all badges on a page
+function useClientReliability(clientId: string | null | undefined) {
+  const { data: reliability } = useQuery<ClientReliability[]>({
+    queryKey: ["/api/clients/reliability"],
+    enabled: !!clientId,
+    retry: false,
+  });
+  const { data: settings } = useQuery<StudioSettings>({
+    queryKey: ["/api/settings"],
+    enabled: !!clientId,
+    retry: false,
+  });
+
+  return {
+    loaded: !!reliability && !!settings,
+    reliability: reliability?.find((entry) => entry.clientId === clientId),
+    settings,
+  };
+}
+
+interface ReliabilityBadgeProps {
+  clientId: string;
+}
+
+export function ReliabilityBadge({ clientId }: ReliabilityBadgeProps) {
+  const { loaded, reliability, settings } = useClientReliability(clientId);
+  if (!loaded) return null;
+
+  const level = getReliabilityLevel(reliability, settings!.reliabilityThreshold);
+  return (
+    <Badge className={levelClasses[level]} title={describeReliability(reliability)}>
+      {reliabilityLevelLabels[level]}
+    </Badge>
+  );
+}
+
+interface ReliabilityNoticeProps {
+  clientId: string | null | undefined;
+}
+
+// Badge, history and what the studio's rule means for a new booking for the client
+export function ReliabilityNotice({ clientId }: ReliabilityNoticeProps) {
+  const { loaded, reliability, settings } = useClientReliability(clientId);
+  if (!clientId || !loaded) return null;
+
+  const flagged = isUnreliableClient(reliability, settings!.reliabilityThreshold);
+  return (
+    <div
+      className={cn(
+        "rounded-md border p-3 text-sm space-y-1",
+        flagged ? "border-red-200 dark:border-red-800" : "border-gray-200 dark:border-gray-700",
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <ReliabilityBadge clientId={clientId} />
+        <span className="text-gray-600 dark:text-gray-400">{describeReliability(reliability)}</span>
+      </div>
+      {flagged && (
+        <p className="text-red-700 dark:text-red-400">
+          {settings!.reliabilityAction === "larger_deposit"
+            ? `New bookings need a deposit of at least $${settings!.reliabilityDepositAmount}.`
+            : "New bookings need a manager's approval before they can be confirmed."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Edit } from "lucide-react";
+import { appointmentTypeEnum, type AppointmentType, type ConsentForm } from "@shared/schema";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+
+interface ConsentFormManagerProps {
+  canEdit: boolean;
+}
+
+export function ConsentFormManager({ canEdit }: ConsentFormManagerProps) {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentType[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: forms } = useQuery<ConsentForm[]>({
+    queryKey: ["/api/consent-forms"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const resetForm = () => {
+    setTitle("");
+    setBody("");
+    setAppointmentTypes([]);
+    setEditingId(null);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/consent-forms", {
+        title: title.trim(),
+        body: body.trim(),
+        appointmentTypes,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/consent-forms"] });
+      toast({
+        title: "Success",
+        description: "Form added successfully",
+      });
+      resetForm();
+    },
+    onError: (error) => handleError(error, "Failed to add form"),
+  });
+
+  // Changing the wording publishes a new version; existing signatures keep the text they were signed against
+  const updateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("PATCH", `/api/consent-forms/${id}`, {
+        title: title.trim(),
+        body: body.trim(),
+        appointmentTypes,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/consent-forms"] });
+      toast({
+        title: "Success",
+        description: "Form updated successfully",
+      });
+      resetForm();
+    },
+    onError: (error) => handleError(error, "Failed to update form"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/consent-forms/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/consent-forms"] });
+    },
+    onError: (error) => handleError(error, "Failed to update form"),
+  });
+
+  const startEditing = (form: ConsentForm) => {
+    setEditingId(form.id);
+    setTitle(form.title);
+    setBody(form.body);
+    setAppointmentTypes(form.appointmentTypes);
+  };
+
+  const toggleType = (type: AppointmentType, checked: boolean) => {
+    setAppointmentTypes((current) => (checked ? [...current, type] : current.filter((t) => t !== type)));
+  };
+
+  const describeTypes = (types: AppointmentType[]) =>
+    types.length === 0 ? "All appointments" : types.map((type) => appointmentTypeLabels[type]).join(", ");
+
+  return (
+    <div className="space-y-3">
+      {forms && forms.length > 0 ? (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+          {forms.map((form) => (
+            <li key={form.id} className="flex items-center justify-between px-3 py-2">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">{form.title}</span>
+                <Badge variant="outline">v{form.version}</Badge>
+                <Badge variant="secondary">{describeTypes(form.appointmentTypes)}</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                {canEdit && (
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(form)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                )}
+                <Switch
+                  checked={form.isActive}
+                  onCheckedChange={(isActive) => toggleMutation.mutate({ id: form.id, isActive })}
+                  disabled={!canEdit || toggleMutation.isPending}
+                  aria-label={form.isActive ? "Active" : "Inactive"}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No forms set up yet</p>
+      )}
+
+      {canEdit && (
+        <>
+          <Input placeholder="Title, e.g. Tattoo release" value={title} onChange={(e) => setTitle(e.target.value)} />
+          <Textarea
+            placeholder="Form text the client reads before signing"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={5}
+          />
+          <div className="flex flex-wrap items-center gap-4">
+            <span className="text-sm text-gray-500 dark:text-gray-400">Required for:</span>
+            {appointmentTypeEnum.enumValues.map((type) => (
+              <div key={type} className="flex items-center gap-2">
+                <Checkbox
+                  id={`form-type-${type}`}
+                  checked={appointmentTypes.includes(type)}
+                  onCheckedChange={(checked) => toggleType(type, checked === true)}
+                />
+                <Label htmlFor={`form-type-${type}`} className="font-normal">
+                  {appointmentTypeLabels[type]}
+                </Label>
+              </div>
+            ))}
+            <span className="text-xs text-gray-500 dark:text-gray-400">None ticked means every appointment</span>
+          </div>
+          {editingId ? (
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => updateMutation.mutate(editingId)}
+                disabled={!title.trim() || !body.trim() || updateMutation.isPending}
+              >
+                {updateMutation.isPending ? "Saving..." : "Save Changes"}
+              </Button>
+              <Button type="button" variant="ghost" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => createMutation.mutate()}
+              disabled={!title.trim() || !body.trim() || createMutation.isPending}
+            >
+              {createMutation.isPending ? "Adding..." : "Add Form"}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
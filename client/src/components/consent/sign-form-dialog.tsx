@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SignaturePad } from "./signature-pad";
+import type { ConsentForm } from "@shared/schema";
+
+interface SignFormDialogProps {
+  appointmentId: string;
+  form: ConsentForm | undefined;
+  onClose: () => void;
+}
+
+// Hand the tablet to the client: they read the form, type their name and sign
+export function SignFormDialog({ appointmentId, form, onClose }: SignFormDialogProps) {
+  const [signedName, setSignedName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setSignedName("");
+    setSignatureImage(null);
+  }, [form]);
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/appointments/${appointmentId}/signatures`, {
+        formId: form!.id,
+        signedName: signedName.trim(),
+        signatureImage,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments", appointmentId, "forms"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/unsigned-forms"] });
+      toast({
+        title: "Success",
+        description: `${form!.title} signed`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to save signature",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!form} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{form?.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-72 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700 p-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+            {form?.body}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sign-form-name">Full name</Label>
+            <Input
+              id="sign-form-name"
+              value={signedName}
+              onChange={(e) => setSignedName(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Signature</Label>
+            {form && <SignaturePad onChange={setSignatureImage} />}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => signMutation.mutate()}
+              disabled={!signedName.trim() || !signatureImage || signMutation.isPending}
+            >
+              {signMutation.isPending ? "Saving..." : "Sign"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+
+interface SignaturePadProps {
+  // PNG data URL of the drawing, or null while the pad is empty
+  onChange: (signature: string | null) => void;
+  height?: number;
+}
+
+export function SignaturePad({ onChange, height = 160 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  // Match the canvas to its on-screen size so strokes stay sharp on high-density screens
+  useEffect(() => {
+    const canvas = canvasRef.current!;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext("2d")!;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.strokeStyle = "#111827";
+  }, [height]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const context = e.currentTarget.getContext("2d")!;
+    const { x, y } = getPoint(e);
+    context.beginPath();
+    context.moveTo(x, y);
+    // A tap without moving still leaves a dot
+    context.lineTo(x + 0.1, y + 0.1);
+    context.stroke();
+    drawing.current = true;
+    hasInk.current = true;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = e.currentTarget.getContext("2d")!;
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(hasInk.current ? canvasRef.current!.toDataURL("image/png") : null);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        style={{ height }}
+        className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        aria-label="Signature"
+      />
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-gray-500 dark:text-gray-400">Sign with your finger, stylus or mouse</span>
+        <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={clear}>
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Calendar, DollarSign, Users, AlertTriangle } from "lucide-react";
+import { appointmentTypeEnum, type AppointmentType } from "@shared/schema";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
 
 interface StatsCardsProps {
   stats?: {
     todayAppointments: number;
+    todayAppointmentsByType: Partial<Record<AppointmentType, number>>;
     monthlyRevenue: number;
     activeArtists: number;
     lowStockItems: number;
@@ -64,8 +67,14 @@ export function StatsCards({ stats, isLoading }: StatsCardsProps) {
             </div>
           </div>
           <div className="mt-4 flex items-center">
-            <span className="text-green-600 text-sm font-medium">+8%</span>
-            <span className="text-gray-500 dark:text-gray-400 text-sm ml-2">from yesterday</span>
+            <span className="text-gray-500 dark:text-gray-400 text-sm truncate">
+              {stats.todayAppointments === 0
+                ? "Nothing booked yet"
+                : appointmentTypeEnum.enumValues
+                    .filter((type) => stats.todayAppointmentsByType[type])
+                    .map((type) => `${appointmentTypeLabels[type]}: ${stats.todayAppointmentsByType[type]}`)
+                    .join(" · ")}
+            </span>
           </div>
         </CardContent>
       </Card>
@@ -1,8 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Eye, Edit, Clock } from "lucide-react";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { AgeBadge } from "@/components/clients/age-warning";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
 import type { AppointmentWithRelations } from "@shared/schema";
 
 interface TodayScheduleProps {
@@ -11,10 +15,19 @@ interface TodayScheduleProps {
 }
 
 export function TodaySchedule({ appointments, isLoading }: TodayScheduleProps) {
+  const timeZone = useStudioTimeZone();
+
+  const { data: unsignedForms } = useQuery<Record<string, number>>({
+    queryKey: ["/api/appointments/unsigned-forms"],
+    retry: false,
+  });
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
       case 'in_progress':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
       case 'completed':
@@ -31,7 +44,8 @@ export function TodaySchedule({ appointments, isLoading }: TodayScheduleProps) {
     return d.toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit',
-      hour12: false
+      hour12: false,
+      timeZone,
     });
   };
 
@@ -98,9 +112,17 @@ export function TodaySchedule({ appointments, isLoading }: TodayScheduleProps) {
                     <Badge className={getStatusColor(appointment.status)}>
                       {appointment.status.replace('_', ' ')}
                     </Badge>
+                    <AgeBadge dateOfBirth={appointment.client.dateOfBirth} scheduledDate={appointment.scheduledDate} />
+                    {unsignedForms?.[appointment.id] && (
+                      <Badge variant="outline" className="border-red-300 text-red-700 dark:border-red-700 dark:text-red-300">
+                        {unsignedForms[appointment.id]} unsigned
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex items-center space-x-4 text-sm text-gray-500 dark:text-gray-400">
                     <span>{appointment.artist.name}</span>
+                    {appointment.station && <span>• {appointment.station.name}</span>}
+                    <span>• {appointmentTypeLabels[appointment.type]}</span>
                     <span>• {appointment.bodyPart}</span>
                     <span>• {formatDuration(appointment.duration)}</span>
                   </div>
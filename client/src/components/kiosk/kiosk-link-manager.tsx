@@ -0,0 +1,142 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, RefreshCw, XCircle } from "lucide-react";
+import type { KioskToken } from "@shared/schema";
+
+interface KioskLinkManagerProps {
+  canEdit: boolean;
+}
+
+export function KioskLinkManager({ canEdit }: KioskLinkManagerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: kiosk, isLoading } = useQuery<KioskToken | null>({
+    queryKey: ["/api/kiosk"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/kiosk");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kiosk"] });
+      toast({
+        title: "Success",
+        description: kiosk
+          ? "New kiosk link created. The old link no longer works."
+          : "Kiosk link created",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to create kiosk link"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/kiosk");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kiosk"] });
+      toast({
+        title: "Success",
+        description: "Kiosk link revoked",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to revoke kiosk link"),
+  });
+
+  const kioskUrl = kiosk ? `${window.location.origin}/kiosk/${kiosk.token}` : "";
+
+  const copyKioskUrl = () => {
+    navigator.clipboard.writeText(kioskUrl);
+    toast({
+      title: "Copied",
+      description: "Kiosk link copied to clipboard",
+    });
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {kiosk ? (
+        <>
+          <div className="flex items-center gap-2">
+            <Input value={kioskUrl} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button type="button" variant="outline" size="sm" onClick={copyKioskUrl}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Open this link on the front-desk tablet without signing in. Regenerate it if the tablet goes missing.
+          </p>
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => rotateMutation.mutate()}
+                disabled={rotateMutation.isPending}
+              >
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Regenerate
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => revokeMutation.mutate()}
+                disabled={revokeMutation.isPending}
+              >
+                <XCircle className="w-4 h-4 mr-1" />
+                Revoke
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No kiosk link yet.</p>
+          {canEdit && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+            >
+              Create kiosk link
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
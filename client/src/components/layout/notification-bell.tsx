@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+import type { Notification } from "@shared/schema";
+
+// Check-ins should reach the artist while the client is still in the waiting area
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+export function NotificationBell() {
+  const queryClient = useQueryClient();
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: REFRESH_INTERVAL_MS,
+    retry: false,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const unreadCount = notifications?.filter((notification) => !notification.readAt).length ?? 0;
+
+  const formatTime = (date: Date | string) =>
+    new Date(date).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="text-sm font-semibold text-gray-900 dark:text-white">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications && notifications.length > 0 ? (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+            {notifications.map((notification) => (
+              <li
+                key={notification.id}
+                className={cn("px-3 py-2 text-sm", !notification.readAt && "bg-blue-50 dark:bg-blue-950 cursor-pointer")}
+                onClick={() => !notification.readAt && markReadMutation.mutate(notification.id)}
+              >
+                <p className="font-medium text-gray-900 dark:text-white">{notification.title}</p>
+                {notification.body && <p className="text-gray-600 dark:text-gray-400">{notification.body}</p>}
+                <p className="text-xs text-gray-500 dark:text-gray-400">{formatTime(notification.createdAt ?? new Date())}</p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">No notifications</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,22 +2,28 @@ import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
+import { NotificationBell } from "./notification-bell";
 import { 
   Palette, 
   BarChart3, 
   Calendar, 
+  Hourglass,
+  DoorOpen,
+  Inbox,
   Users, 
   UserCheck, 
   Package, 
   DollarSign, 
   Settings, 
-  Bell,
   LogOut
 } from "lucide-react";
 
 const navigation = [
   { name: "Dashboard", href: "/", icon: BarChart3 },
   { name: "Appointments", href: "/appointments", icon: Calendar },
+  { name: "Waitlist", href: "/waitlist", icon: Hourglass },
+  { name: "Walk-ins", href: "/walk-ins", icon: DoorOpen },
+  { name: "Booking Requests", href: "/booking-requests", icon: Inbox },
   { name: "Clients", href: "/clients", icon: Users },
   { name: "Artists", href: "/artists", icon: UserCheck },
   { name: "Inventory", href: "/inventory", icon: Package },
@@ -79,7 +85,7 @@ export function Sidebar({ className }: SidebarProps) {
       <nav className="px-3 pb-6 flex-1">
         <ul className="space-y-1">
           {navigation.map((item) => {
-            const isActive = location === item.href;
+            const isActive = location === item.href || location.startsWith(`${item.href}/`);
             const Icon = item.icon;
             
             return (
@@ -106,13 +112,7 @@ export function Sidebar({ className }: SidebarProps) {
       {/* Bottom Actions */}
       <div className="p-3 border-t border-gray-200 dark:border-gray-700">
         <div className="flex items-center justify-between mb-3">
-          <Button
-            variant="ghost"
-            size="sm"
-            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
-          >
-            <Bell className="w-4 h-4" />
-          </Button>
+          <NotificationBell />
           <Button
             variant="ghost"
             size="sm"
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  insertProjectSchema,
+  type InsertProject,
+  type Project,
+  type Artist,
+  type Client,
+} from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { BodyPartSelector } from "@/components/appointments/body-part-selector";
+import { FileUpload } from "@/components/appointments/file-upload";
+
+interface ProjectModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project?: Project;
+  clientId?: string;
+}
+
+export function ProjectModal({ isOpen, onClose, project, clientId }: ProjectModalProps) {
+  const [referenceImages, setReferenceImages] = useState<string[]>(project?.referenceImages || []);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!project;
+
+  const form = useForm<InsertProject>({
+    resolver: zodResolver(insertProjectSchema),
+    defaultValues: {
+      clientId: project?.clientId || clientId || "",
+      artistId: project?.artistId || undefined,
+      title: project?.title || "",
+      bodyPart: project?.bodyPart || "",
+      designNotes: project?.designNotes || "",
+      estimatedSessions: project?.estimatedSessions || 2,
+      status: project?.status || "active",
+    },
+  });
+
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    retry: false,
+  });
+
+  const { data: artists } = useQuery<Artist[]>({
+    queryKey: ["/api/artists"],
+    retry: false,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertProject) => {
+      const payload = { ...data, referenceImages };
+      if (isEditing) {
+        await apiRequest("PATCH", `/api/projects/${project.id}`, payload);
+      } else {
+        await apiRequest("POST", "/api/projects", payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Success",
+        description: `Project ${isEditing ? 'updated' : 'created'} successfully`,
+      });
+      onClose();
+      form.reset();
+      setReferenceImages([]);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: `Failed to ${isEditing ? 'update' : 'create'} project`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: InsertProject) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Project' : 'New Project'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Japanese back piece" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="clientId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Client</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isEditing || !!clientId}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a client" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {clients?.map((client) => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.firstName} {client.lastName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="artistId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lead Artist</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value ?? undefined}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select an artist" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {artists?.map((artist) => (
+                          <SelectItem key={artist.id} value={artist.id}>
+                            {artist.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="estimatedSessions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estimated Sessions</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : 1)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value ?? "active"}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="active">Active</SelectItem>
+                        <SelectItem value="on_hold">On Hold</SelectItem>
+                        <SelectItem value="completed">Completed</SelectItem>
+                        <SelectItem value="cancelled">Cancelled</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="bodyPart"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Body Part</FormLabel>
+                  <BodyPartSelector value={field.value ?? ""} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormItem>
+              <FormLabel>Shared Reference Images</FormLabel>
+              <FileUpload value={referenceImages} onChange={setReferenceImages} maxFiles={10} />
+            </FormItem>
+
+            <FormField
+              control={form.control}
+              name="designNotes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Design Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      value={field.value ?? ""}
+                      rows={4}
+                      className="resize-none"
+                      placeholder="Overall concept, flow, colour palette, what each session covers..."
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mutation.isPending}>
+                {mutation.isPending ? (isEditing ? "Updating..." : "Creating...") : (isEditing ? "Update Project" : "Create Project")}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
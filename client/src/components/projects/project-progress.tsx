@@ -0,0 +1,63 @@
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { ProjectWithProgress } from "@shared/schema";
+
+interface ProjectProgressProps {
+  project: ProjectWithProgress;
+  compact?: boolean;
+  className?: string;
+}
+
+export function ProjectProgress({ project, compact, className }: ProjectProgressProps) {
+  const { completedSessions, bookedSessions, totalSales, totalPaid, outstandingBalance } = project.progress;
+  const percent = Math.min(100, Math.round((completedSessions / Math.max(project.estimatedSessions, 1)) * 100));
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active':
+        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      case 'on_hold':
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+      case 'completed':
+        return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      default:
+        return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+    }
+  };
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{project.title}</span>
+        {!compact && (
+          <Badge className={getStatusColor(project.status ?? 'active')}>
+            {(project.status ?? 'active').replace('_', ' ')}
+          </Badge>
+        )}
+      </div>
+      <Progress value={percent} className="h-2" />
+      <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {completedSessions} of {project.estimatedSessions} sessions done
+          {bookedSessions > 0 && ` · ${bookedSessions} booked`}
+        </span>
+        {!compact && totalSales > 0 && (
+          <span>
+            {formatCurrency(totalPaid)} paid
+            {outstandingBalance > 0 && ` · ${formatCurrency(outstandingBalance)} due`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,15 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
-import { insertSaleSchema, type InsertSale, type SaleWithRelations } from "@shared/schema";
+import {
+  insertSaleSchema,
+  type AppointmentWithRelations,
+  type InsertSale,
+  type SaleWithRelations,
+} from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -29,6 +35,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { ClientPicker } from "@/components/clients/client-picker";
 
 interface SaleModalProps {
   isOpen: boolean;
@@ -37,6 +44,8 @@ interface SaleModalProps {
 }
 
 export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
+  const timeZone = useStudioTimeZone();
+
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const isEditing = !!sale;
@@ -56,21 +65,29 @@ export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
     },
   });
 
-  const { data: clients } = useQuery({
-    queryKey: ["/api/clients"],
-    retry: false,
-  });
-
   const { data: artists } = useQuery({
     queryKey: ["/api/artists"],
     retry: false,
   });
 
-  const { data: appointments } = useQuery({
+  const { data: appointments } = useQuery<AppointmentWithRelations[]>({
     queryKey: ["/api/appointments"],
     retry: false,
   });
 
+  const handleAppointmentSelect = (appointmentId: string) => {
+    form.setValue("appointmentId", appointmentId || undefined);
+    const appointment = appointments?.find((a) => a.id === appointmentId);
+    if (!appointment) return;
+
+    form.setValue("clientId", appointment.clientId);
+    form.setValue("artistId", appointment.artistId);
+    // The deposit taken at booking counts towards this sale
+    if (appointment.depositStatus === "paid") {
+      form.setValue("deposit", appointment.depositAmount ?? "0");
+    }
+  };
+
   const mutation = useMutation({
     mutationFn: async (data: InsertSale) => {
       // Calculate remaining balance
@@ -92,6 +109,7 @@ export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       toast({
         title: "Success",
@@ -125,6 +143,11 @@ export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
   const deposit = Number(watchedValues[1]) || 0;
   const remainingBalance = Math.max(0, totalAmount - deposit);
 
+  const watchedAppointmentId = form.watch("appointmentId");
+  const depositAppointment = appointments?.find(
+    (a) => a.id === watchedAppointmentId && a.depositStatus === "paid",
+  );
+
   const onSubmit = (data: InsertSale) => {
     mutation.mutate(data);
   };
@@ -144,7 +167,7 @@ export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Related Appointment (Optional)</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value || ""}>
+                  <Select onValueChange={handleAppointmentSelect} defaultValue={field.value || ""}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select appointment" />
@@ -152,9 +175,9 @@ export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
                     </FormControl>
                     <SelectContent>
                       <SelectItem value="">No appointment</SelectItem>
-                      {appointments?.map((appointment: any) => (
+                      {appointments?.map((appointment) => (
                         <SelectItem key={appointment.id} value={appointment.id}>
-                          {appointment.client.firstName} {appointment.client.lastName} - {new Date(appointment.scheduledDate).toLocaleDateString()}
+                          {appointment.client.firstName} {appointment.client.lastName} - {new Date(appointment.scheduledDate).toLocaleDateString('en-US', { timeZone })}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -171,20 +194,7 @@ export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Client</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select client" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {clients?.map((client: any) => (
-                          <SelectItem key={client.id} value={client.id}>
-                            {client.firstName} {client.lastName}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <ClientPicker value={field.value} onChange={field.onChange} placeholder="Select client" />
                     <FormMessage />
                   </FormItem>
                 )}
@@ -196,7 +206,7 @@ export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Artist</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
                           <SelectValue placeholder="Select artist" />
@@ -248,6 +258,11 @@ export function SaleModal({ isOpen, onClose, sale }: SaleModalProps) {
                         {...field}
                       />
                     </FormControl>
+                    {depositAppointment && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Includes the ${depositAppointment.depositAmount} deposit paid at booking
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import type { Station, StationType } from "@shared/schema";
+import { stationTypeLabels } from "./station-select";
+
+interface StationManagerProps {
+  canEdit: boolean;
+}
+
+export function StationManager({ canEdit }: StationManagerProps) {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<StationType>("station");
+  const [description, setDescription] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: stations } = useQuery<Station[]>({
+    queryKey: ["/api/stations"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/stations", {
+        name: name.trim(),
+        type,
+        description: description.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stations"] });
+      toast({
+        title: "Success",
+        description: "Station added successfully",
+      });
+      setName("");
+      setDescription("");
+    },
+    onError: (error) => handleError(error, "Failed to add station"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/stations/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stations"] });
+    },
+    onError: (error) => handleError(error, "Failed to update station"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/stations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+    },
+    onError: (error) => handleError(error, "Failed to remove station"),
+  });
+
+  return (
+    <div className="space-y-3">
+      {stations && stations.length > 0 ? (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+          {stations.map((station) => (
+            <li key={station.id} className="flex items-center justify-between px-3 py-2">
+              <div className="flex items-center gap-3 min-w-0">
+                <Badge variant="secondary">{stationTypeLabels[station.type]}</Badge>
+                <span className="text-sm font-medium text-gray-900 dark:text-white">{station.name}</span>
+                {station.description && (
+                  <span className="text-sm text-gray-500 dark:text-gray-400 truncate">{station.description}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={!!station.isActive}
+                  onCheckedChange={(isActive) => toggleMutation.mutate({ id: station.id, isActive })}
+                  disabled={!canEdit || toggleMutation.isPending}
+                  aria-label={station.isActive ? "Active" : "Inactive"}
+                />
+                {canEdit && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(station.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No stations set up yet</p>
+      )}
+
+      {canEdit && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <Input placeholder="Name, e.g. Station 1" value={name} onChange={(e) => setName(e.target.value)} />
+            <Select value={type} onValueChange={(value) => setType(value as StationType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="station">{stationTypeLabels.station}</SelectItem>
+                <SelectItem value="room">{stationTypeLabels.room}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input placeholder="Description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || createMutation.isPending}
+          >
+            {createMutation.isPending ? "Adding..." : "Add Station"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
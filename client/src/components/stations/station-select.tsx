@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Station, StationType } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const stationTypeLabels: Record<StationType, string> = {
+  station: "Station",
+  room: "Private room",
+};
+
+interface StationSelectProps {
+  value: string | null | undefined;
+  onChange: (stationId: string | null) => void;
+  disabled?: boolean;
+}
+
+const NO_STATION = "none";
+
+export function StationSelect({ value, onChange, disabled }: StationSelectProps) {
+  const { data: stations } = useQuery<Station[]>({
+    queryKey: ["/api/stations"],
+    retry: false,
+  });
+
+  // Keep an inactive station visible while it is still the current choice
+  const options = (stations ?? []).filter((station) => station.isActive || station.id === value);
+
+  return (
+    <Select
+      value={value ?? NO_STATION}
+      onValueChange={(next) => onChange(next === NO_STATION ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="No station" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_STATION}>No station</SelectItem>
+        {options.map((station) => (
+          <SelectItem key={station.id} value={station.id}>
+            {station.name} · {stationTypeLabels[station.type]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
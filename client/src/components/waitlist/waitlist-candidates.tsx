@@ -0,0 +1,118 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { AppointmentWithRelations, WaitlistCandidate } from "@shared/schema";
+
+interface WaitlistCandidatesProps {
+  appointment: AppointmentWithRelations;
+}
+
+export function WaitlistCandidates({ appointment }: WaitlistCandidatesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: candidates, isLoading } = useQuery<WaitlistCandidate[]>({
+    queryKey: ["/api/appointments", appointment.id, "waitlist-candidates"],
+    retry: false,
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: async (candidate: WaitlistCandidate) => {
+      await apiRequest("POST", `/api/waitlist/${candidate.id}/book`, {
+        scheduledDate: appointment.scheduledDate,
+      });
+    },
+    onSuccess: (_, candidate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Success",
+        description: `${candidate.client.firstName} ${candidate.client.lastName} booked into the freed slot`,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments", appointment.id, "waitlist-candidates"] });
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to book from waitlist",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+    }
+    return `${mins}m`;
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  if (!candidates || candidates.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No waitlisted clients fit this slot
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-2">
+      {candidates.map((candidate, index) => (
+        <li
+          key={candidate.id}
+          className="flex items-center justify-between gap-3 rounded-md border border-gray-200 dark:border-gray-700 p-3"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <span className="flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full bg-gray-100 text-xs font-semibold text-gray-700 dark:bg-gray-700 dark:text-gray-200">
+              {index + 1}
+            </span>
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                {candidate.client.firstName} {candidate.client.lastName}
+                {candidate.client.phone && (
+                  <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{candidate.client.phone}</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {formatDuration(candidate.duration)} · <span className="capitalize">{candidate.bodyPart}</span> ·{" "}
+                waiting {candidate.waitingDays} day{candidate.waitingDays === 1 ? "" : "s"}
+                {candidate.unusedMinutes > 0 && ` · leaves ${formatDuration(candidate.unusedMinutes)} free`}
+              </div>
+            </div>
+          </div>
+          <Button
+            size="sm"
+            disabled={bookMutation.isPending}
+            onClick={() => bookMutation.mutate(candidate)}
+          >
+            Book
+          </Button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import type { Artist, Client, ProjectWithProgress } from "@shared/schema";
+import { getZonedDayRange, parseDateKey } from "@shared/timezone";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BodyPartSelector } from "@/components/appointments/body-part-selector";
+
+interface WaitlistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const durationOptions = [60, 120, 180, 240, 300, 360];
+
+export function WaitlistModal({ isOpen, onClose }: WaitlistModalProps) {
+  const timeZone = useStudioTimeZone();
+  const [clientId, setClientId] = useState("");
+  const [artistId, setArtistId] = useState("");
+  const [projectId, setProjectId] = useState("none");
+  const [earliestDate, setEarliestDate] = useState("");
+  const [latestDate, setLatestDate] = useState("");
+  const [duration, setDuration] = useState("120");
+  const [bodyPart, setBodyPart] = useState("");
+  const [notes, setNotes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    retry: false,
+  });
+
+  const { data: artists } = useQuery<Artist[]>({
+    queryKey: ["/api/artists"],
+    retry: false,
+  });
+
+  const { data: projects } = useQuery<ProjectWithProgress[]>({
+    queryKey: ["/api/projects"],
+    retry: false,
+  });
+
+  const clientProjects = (projects ?? []).filter(
+    (project) => project.clientId === clientId && project.status === "active",
+  );
+
+  const reset = () => {
+    setClientId("");
+    setArtistId("");
+    setProjectId("none");
+    setEarliestDate("");
+    setLatestDate("");
+    setDuration("120");
+    setBodyPart("");
+    setNotes("");
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      // Date inputs are whole studio days, so the range ends at the midnight after the last day
+      const earliest = getZonedDayRange(parseDateKey(earliestDate)!, timeZone).start;
+      const latest = getZonedDayRange(parseDateKey(latestDate)!, timeZone).end;
+      await apiRequest("POST", "/api/waitlist", {
+        clientId,
+        artistId,
+        projectId: projectId === "none" ? null : projectId,
+        earliestDate: earliest,
+        latestDate: latest,
+        duration: parseInt(duration),
+        bodyPart,
+        notes,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      toast({
+        title: "Success",
+        description: "Client added to the waitlist",
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to add to waitlist",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = clientId && artistId && earliestDate && latestDate && latestDate >= earliestDate && bodyPart;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add to Waitlist</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select
+                value={clientId}
+                onValueChange={(value) => {
+                  setClientId(value);
+                  setProjectId("none");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients?.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.firstName} {client.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Artist</Label>
+              <Select value={artistId} onValueChange={setArtistId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an artist" />
+                </SelectTrigger>
+                <SelectContent>
+                  {artists?.filter((artist) => artist.isActive).map((artist) => (
+                    <SelectItem key={artist.id} value={artist.id}>
+                      {artist.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {clientProjects.length > 0 && (
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Standalone appointment</SelectItem>
+                  {clientProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Earliest Date</Label>
+              <Input type="date" value={earliestDate} onChange={(e) => setEarliestDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Latest Date</Label>
+              <Input
+                type="date"
+                value={latestDate}
+                min={earliestDate || undefined}
+                onChange={(e) => setLatestDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Estimated Duration</Label>
+              <Select value={duration} onValueChange={setDuration}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {durationOptions.map((minutes) => (
+                    <SelectItem key={minutes} value={minutes.toString()}>
+                      {minutes / 60} hour{minutes === 60 ? "" : "s"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Body Part</Label>
+            <BodyPartSelector value={bodyPart} onChange={setBodyPart} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="resize-none"
+              placeholder="Design idea, preferred days or times..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!canSubmit || createMutation.isPending}>
+              {createMutation.isPending ? "Adding..." : "Add to Waitlist"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import type { Appointment, Artist, WalkInQueueEntry } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StationSelect } from "@/components/stations/station-select";
+
+interface StartWalkInDialogProps {
+  walkIn: WalkInQueueEntry | undefined;
+  onClose: () => void;
+}
+
+// Turns a queued walk-in into an appointment that is in progress from now
+export function StartWalkInDialog({ walkIn, onClose }: StartWalkInDialogProps) {
+  const [artistId, setArtistId] = useState("");
+  const [stationId, setStationId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: artists } = useQuery<Artist[]>({
+    queryKey: ["/api/artists"],
+    retry: false,
+  });
+
+  useEffect(() => {
+    setArtistId(walkIn?.artistId ?? walkIn?.estimatedArtistId ?? "");
+    setStationId(null);
+  }, [walkIn]);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/walk-ins/${walkIn!.id}/start`, { artistId, stationId });
+      return (await res.json()) as Appointment;
+    },
+    onSuccess: (appointment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/walk-ins"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: appointment.status === "checked_in"
+          ? "Walk-in checked in. The session can start once their consent forms are signed."
+          : "Walk-in session started",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to start walk-in",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!walkIn} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Start {walkIn?.client.firstName} {walkIn?.client.lastName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Artist</Label>
+            <Select value={artistId} onValueChange={setArtistId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an artist" />
+              </SelectTrigger>
+              <SelectContent>
+                {artists?.filter((artist) => artist.isActive).map((artist) => (
+                  <SelectItem key={artist.id} value={artist.id}>
+                    {artist.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Station</Label>
+            <StationSelect value={stationId} onChange={setStationId} />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => startMutation.mutate()} disabled={!artistId || startMutation.isPending}>
+              {startMutation.isPending ? "Starting..." : "Start Session"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { appointmentTypeEnum, type AppointmentType, type Artist, type Client } from "@shared/schema";
+import { appointmentTypeLabels, appointmentTypeRules } from "@shared/appointmentTypes";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BodyPartSelector } from "@/components/appointments/body-part-selector";
+
+interface WalkInModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ANY_ARTIST = "any";
+
+// Touch-ups have to reference an earlier session, so they are booked as appointments instead
+const walkInTypes = appointmentTypeEnum.enumValues.filter(
+  (type) => !appointmentTypeRules[type].requiredFields.includes("originalAppointmentId"),
+);
+
+export function WalkInModal({ isOpen, onClose }: WalkInModalProps) {
+  const [clientId, setClientId] = useState("");
+  const [artistId, setArtistId] = useState(ANY_ARTIST);
+  const [type, setType] = useState<AppointmentType>("tattoo");
+  const [description, setDescription] = useState("");
+  const [bodyPart, setBodyPart] = useState("");
+  const [duration, setDuration] = useState(String(appointmentTypeRules.tattoo.defaultDuration));
+  const [notes, setNotes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    retry: false,
+  });
+
+  const { data: artists } = useQuery<Artist[]>({
+    queryKey: ["/api/artists"],
+    retry: false,
+  });
+
+  const reset = () => {
+    setClientId("");
+    setArtistId(ANY_ARTIST);
+    setType("tattoo");
+    setDescription("");
+    setBodyPart("");
+    setDuration(String(appointmentTypeRules.tattoo.defaultDuration));
+    setNotes("");
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/walk-ins", {
+        clientId,
+        artistId: artistId === ANY_ARTIST ? null : artistId,
+        type,
+        description,
+        bodyPart,
+        duration: parseInt(duration),
+        notes,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/walk-ins"] });
+      toast({
+        title: "Success",
+        description: "Walk-in added to the queue",
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to add walk-in",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const durationMinutes = parseInt(duration);
+  const canSubmit = clientId && bodyPart && durationMinutes > 0 &&
+    (!appointmentTypeRules[type].requiredFields.includes("description") || description.trim());
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add Walk-in</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients?.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.firstName} {client.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Preferred Artist</Label>
+              <Select value={artistId} onValueChange={setArtistId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_ARTIST}>First available</SelectItem>
+                  {artists?.filter((artist) => artist.isActive).map((artist) => (
+                    <SelectItem key={artist.id} value={artist.id}>
+                      {artist.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => {
+                  setType(value as AppointmentType);
+                  setDuration(String(appointmentTypeRules[value as AppointmentType].defaultDuration));
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {walkInTypes.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {appointmentTypeLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Estimated Duration (minutes)</Label>
+              <Input
+                type="number"
+                min="5"
+                step="5"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Desired Piece</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="resize-none"
+              placeholder="Flash design, size, colour or black and grey..."
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Placement</Label>
+            <BodyPartSelector value={bodyPart} onChange={setBodyPart} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="resize-none"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!canSubmit || createMutation.isPending}>
+              {createMutation.isPending ? "Adding..." : "Add to Queue"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import type { StudioSettings } from "@shared/schema";
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Times are shown in the studio's zone; the browser's is only a stand-in until settings load
+export function useStudioTimeZone(): string {
+  const { data: settings } = useQuery<StudioSettings>({
+    queryKey: ["/api/settings"],
+    retry: false,
+  });
+
+  return settings?.timeZone ?? browserTimeZone;
+}
@@ -0,0 +1,12 @@
+export function isConflictError(error: Error): boolean {
+  return /^409: /.test(error.message);
+}
+
+export function getErrorPayload<T>(error: Error): T | undefined {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    return undefined;
+  }
+}
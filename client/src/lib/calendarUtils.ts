@@ -0,0 +1,152 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import type { AppointmentWithRelations } from "@shared/schema";
+import { reschedulableStatuses } from "@shared/appointmentStatus";
+import {
+  fromZonedTime,
+  getMinutesIntoZonedDay,
+  getZonedDateKey,
+  getZonedParts,
+  toDateKey,
+  type CalendarDate,
+  type DateRange,
+} from "@shared/timezone";
+
+export type CalendarView = "day" | "week" | "month";
+
+// Time grid geometry
+export const HOUR_HEIGHT = 48;
+export const SNAP_MINUTES = 15;
+export const GRID_START_HOUR = 8;
+export const GRID_END_HOUR = 22;
+
+// Block colours for each appointmentStatusEnum value
+export const statusBlockColors: Record<string, string> = {
+  scheduled: "bg-gray-100 border-gray-400 text-gray-900 dark:bg-gray-700 dark:border-gray-500 dark:text-gray-100",
+  confirmed: "bg-green-100 border-green-500 text-green-900 dark:bg-green-900 dark:border-green-600 dark:text-green-100",
+  checked_in: "bg-purple-100 border-purple-500 text-purple-900 dark:bg-purple-900 dark:border-purple-600 dark:text-purple-100",
+  in_progress: "bg-yellow-100 border-yellow-500 text-yellow-900 dark:bg-yellow-900 dark:border-yellow-600 dark:text-yellow-100",
+  completed: "bg-blue-100 border-blue-500 text-blue-900 dark:bg-blue-900 dark:border-blue-600 dark:text-blue-100",
+  cancelled: "bg-red-50 border-red-300 text-red-800 line-through opacity-70 dark:bg-red-950 dark:border-red-800 dark:text-red-200",
+  no_show: "bg-orange-50 border-orange-400 text-orange-900 opacity-70 dark:bg-orange-950 dark:border-orange-700 dark:text-orange-200",
+};
+
+export function isReschedulable(appointment: AppointmentWithRelations): boolean {
+  return reschedulableStatuses.includes(appointment.status ?? "scheduled");
+}
+
+// Days in the calendar are plain local dates; appointments are placed on them by the studio's wall clock
+function toCalendarDate(day: Date): CalendarDate {
+  return { year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate() };
+}
+
+export function getStudioToday(timeZone: string): Date {
+  const today = getZonedParts(new Date(), timeZone);
+  return new Date(today.year, today.month - 1, today.day);
+}
+
+export function isOnCalendarDay(date: Date | string, day: Date, timeZone: string): boolean {
+  return getZonedDateKey(date, timeZone) === toDateKey(toCalendarDate(day));
+}
+
+export function isStudioToday(day: Date, timeZone: string): boolean {
+  return isOnCalendarDay(new Date(), day, timeZone);
+}
+
+// The moment it is the given minute of the day at the studio
+export function atStudioTime(day: Date, minutes: number, timeZone: string): Date {
+  return fromZonedTime({ ...toCalendarDate(day), minute: minutes }, timeZone);
+}
+
+export function toStudioRange(range: DateRange, timeZone: string): DateRange {
+  return { start: atStudioTime(range.start, 0, timeZone), end: atStudioTime(range.end, 0, timeZone) };
+}
+
+export function getVisibleRange(view: CalendarView, date: Date): DateRange {
+  switch (view) {
+    case "day":
+      return { start: startOfDay(date), end: addDays(startOfDay(date), 1) };
+    case "week":
+      return { start: startOfWeek(date), end: addDays(startOfWeek(date), 7) };
+    case "month":
+      return {
+        start: startOfWeek(startOfMonth(date)),
+        end: addDays(endOfWeek(endOfMonth(date)), 1),
+      };
+  }
+}
+
+export function shiftDate(view: CalendarView, date: Date, direction: 1 | -1): Date {
+  switch (view) {
+    case "day":
+      return addDays(date, direction);
+    case "week":
+      return addWeeks(date, direction);
+    case "month":
+      return addMonths(date, direction);
+  }
+}
+
+export function getRangeTitle(view: CalendarView, date: Date): string {
+  switch (view) {
+    case "day":
+      return format(date, "EEEE, MMMM d, yyyy");
+    case "week": {
+      const start = startOfWeek(date);
+      const end = addDays(start, 6);
+      return `${format(start, "MMM d")} – ${format(end, "MMM d, yyyy")}`;
+    }
+    case "month":
+      return format(date, "MMMM yyyy");
+  }
+}
+
+export function snapMinutes(minutes: number): number {
+  return Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+}
+
+// Vertical offset in the time grid for a moment of the studio's day
+export function getMinutesFromGridTop(date: Date, timeZone: string): number {
+  return getMinutesIntoZonedDay(date, timeZone) - GRID_START_HOUR * 60;
+}
+
+export function minutesToPixels(minutes: number): number {
+  return (minutes / 60) * HOUR_HEIGHT;
+}
+
+export function pixelsToMinutes(pixels: number): number {
+  return (pixels / HOUR_HEIGHT) * 60;
+}
+
+// Side-by-side lanes for overlapping blocks in a single column
+export function assignLanes(
+  appointments: AppointmentWithRelations[],
+): { appointment: AppointmentWithRelations; lane: number; lanes: number }[] {
+  const sorted = [...appointments].sort(
+    (a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime(),
+  );
+  const laneEnds: number[] = [];
+  const placed = sorted.map((appointment) => {
+    const start = new Date(appointment.scheduledDate).getTime();
+    const end = start + appointment.duration * 60 * 1000;
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+    return { appointment, lane };
+  });
+
+  return placed.map((entry) => ({ ...entry, lanes: laneEnds.length }));
+}
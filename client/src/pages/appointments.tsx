@@ -2,22 +2,32 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/sidebar";
 import { AppointmentModal } from "@/components/appointments/appointment-modal";
+import { AppointmentDetailsModal } from "@/components/appointments/appointment-details-modal";
+import { AgeBadge } from "@/components/clients/age-warning";
+import { AppointmentCalendar } from "@/components/calendar/appointment-calendar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Search, Filter, Eye, Edit, Trash2 } from "lucide-react";
-import type { AppointmentWithRelations } from "@shared/schema";
+import { Plus, Search, Filter, Eye, Edit, Trash2, CalendarDays, List } from "lucide-react";
+import { appointmentTypeEnum, type AppointmentWithRelations, type ProjectWithProgress } from "@shared/schema";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
 
 export default function Appointments() {
+  const timeZone = useStudioTimeZone();
+
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [viewMode, setViewMode] = useState<"calendar" | "list">("calendar");
+  const [detailsId, setDetailsId] = useState<string | null>(null);
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
@@ -42,12 +52,25 @@ export default function Appointments() {
     retry: false,
   });
 
+  const { data: projects } = useQuery<ProjectWithProgress[]>({
+    queryKey: ["/api/projects"],
+    retry: false,
+  });
+
+  const { data: unsignedForms } = useQuery<Record<string, number>>({
+    queryKey: ["/api/appointments/unsigned-forms"],
+    retry: false,
+  });
+
+  const projectsById = new Map((projects ?? []).map((project) => [project.id, project]));
+
   const deleteAppointmentMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest("DELETE", `/api/appointments/${id}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
       toast({
         title: "Success",
         description: "Appointment deleted successfully",
@@ -77,6 +100,8 @@ export default function Appointments() {
     switch (status) {
       case 'confirmed':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      case 'checked_in':
+        return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
       case 'in_progress':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
       case 'completed':
@@ -96,6 +121,7 @@ export default function Appointments() {
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit',
+      timeZone,
     });
   };
 
@@ -115,8 +141,9 @@ export default function Appointments() {
       appointment.artist.name.toLowerCase().includes(searchQuery.toLowerCase());
     
     const matchesStatus = statusFilter === "all" || appointment.status === statusFilter;
+    const matchesType = typeFilter === "all" || appointment.type === typeFilter;
     
-    return matchesSearch && matchesStatus;
+    return matchesSearch && matchesStatus && matchesType;
   });
 
   if (isLoading || !isAuthenticated) {
@@ -135,127 +162,201 @@ export default function Appointments() {
               <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Appointments</h2>
               <p className="text-sm text-gray-500 dark:text-gray-400">Manage your studio appointments</p>
             </div>
-            <Button onClick={() => setIsModalOpen(true)}>
-              <Plus className="w-4 h-4 mr-2" />
-              New Appointment
-            </Button>
+            <div className="flex items-center space-x-3">
+              <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700">
+                <Button
+                  variant={viewMode === "calendar" ? "default" : "ghost"}
+                  size="sm"
+                  className="rounded-r-none"
+                  onClick={() => setViewMode("calendar")}
+                >
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                  Calendar
+                </Button>
+                <Button
+                  variant={viewMode === "list" ? "default" : "ghost"}
+                  size="sm"
+                  className="rounded-l-none"
+                  onClick={() => setViewMode("list")}
+                >
+                  <List className="w-4 h-4 mr-2" />
+                  List
+                </Button>
+              </div>
+              <Button onClick={() => setIsModalOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Appointment
+              </Button>
+            </div>
           </div>
         </header>
 
         {/* Content */}
         <main className="flex-1 overflow-y-auto p-6">
-          {/* Filters */}
-          <div className="mb-6 flex flex-col sm:flex-row gap-4">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-              <Input
-                placeholder="Search appointments..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
-              <SelectTrigger className="w-[180px]">
-                <Filter className="w-4 h-4 mr-2" />
-                <SelectValue placeholder="Filter by status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="scheduled">Scheduled</SelectItem>
-                <SelectItem value="confirmed">Confirmed</SelectItem>
-                <SelectItem value="in_progress">In Progress</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          {/* Appointments List */}
-          <Card>
-            <CardHeader>
-              <h3 className="text-lg font-semibold">All Appointments</h3>
-            </CardHeader>
-            <CardContent>
-              {appointmentsLoading ? (
-                <div className="text-center py-8">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
-                  <p className="mt-2 text-gray-500 dark:text-gray-400">Loading appointments...</p>
-                </div>
-              ) : !filteredAppointments || filteredAppointments.length === 0 ? (
-                <div className="text-center py-8">
-                  <p className="text-gray-500 dark:text-gray-400">No appointments found</p>
+          {viewMode === "calendar" ? (
+            <AppointmentCalendar onSelectAppointment={(appointment) => setDetailsId(appointment.id)} />
+          ) : (
+            <>
+              {/* Filters */}
+              <div className="mb-6 flex flex-col sm:flex-row gap-4">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                  <Input
+                    placeholder="Search appointments..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
                 </div>
-              ) : (
-                <div className="overflow-x-auto">
-                  <table className="w-full">
-                    <thead>
-                      <tr className="border-b border-gray-200 dark:border-gray-700">
-                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Client</th>
-                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Artist</th>
-                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Date & Time</th>
-                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Body Part</th>
-                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Duration</th>
-                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Status</th>
-                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {filteredAppointments.map((appointment: AppointmentWithRelations) => (
-                        <tr key={appointment.id} className="border-b border-gray-200 dark:border-gray-700">
-                          <td className="py-3 px-4">
-                            <div>
-                              <div className="font-medium text-gray-900 dark:text-white">
-                                {appointment.client.firstName} {appointment.client.lastName}
-                              </div>
-                              <div className="text-sm text-gray-500 dark:text-gray-400">
-                                {appointment.client.email}
-                              </div>
-                            </div>
-                          </td>
-                          <td className="py-3 px-4 text-gray-900 dark:text-white">
-                            {appointment.artist.name}
-                          </td>
-                          <td className="py-3 px-4 text-gray-900 dark:text-white">
-                            {formatDateTime(appointment.scheduledDate)}
-                          </td>
-                          <td className="py-3 px-4 text-gray-900 dark:text-white">
-                            {appointment.bodyPart}
-                          </td>
-                          <td className="py-3 px-4 text-gray-900 dark:text-white">
-                            {formatDuration(appointment.duration)}
-                          </td>
-                          <td className="py-3 px-4">
-                            <Badge className={getStatusColor(appointment.status)}>
-                              {appointment.status.replace('_', ' ')}
-                            </Badge>
-                          </td>
-                          <td className="py-3 px-4">
-                            <div className="flex items-center space-x-2">
-                              <Button variant="ghost" size="sm">
-                                <Eye className="w-4 h-4" />
-                              </Button>
-                              <Button variant="ghost" size="sm">
-                                <Edit className="w-4 h-4" />
-                              </Button>
-                              <Button 
-                                variant="ghost" 
-                                size="sm"
-                                onClick={() => deleteAppointmentMutation.mutate(appointment.id)}
-                                disabled={deleteAppointmentMutation.isPending}
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
-                            </div>
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              )}
-            </CardContent>
-          </Card>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-[180px]">
+                    <Filter className="w-4 h-4 mr-2" />
+                    <SelectValue placeholder="Filter by status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Status</SelectItem>
+                    <SelectItem value="scheduled">Scheduled</SelectItem>
+                    <SelectItem value="confirmed">Confirmed</SelectItem>
+                    <SelectItem value="checked_in">Checked In</SelectItem>
+                    <SelectItem value="in_progress">In Progress</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={typeFilter} onValueChange={setTypeFilter}>
+                  <SelectTrigger className="w-[180px]">
+                    <Filter className="w-4 h-4 mr-2" />
+                    <SelectValue placeholder="Filter by type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Types</SelectItem>
+                    {appointmentTypeEnum.enumValues.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {appointmentTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Appointments List */}
+              <Card>
+                <CardHeader>
+                  <h3 className="text-lg font-semibold">All Appointments</h3>
+                </CardHeader>
+                <CardContent>
+                  {appointmentsLoading ? (
+                    <div className="text-center py-8">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                      <p className="mt-2 text-gray-500 dark:text-gray-400">Loading appointments...</p>
+                    </div>
+                  ) : !filteredAppointments || filteredAppointments.length === 0 ? (
+                    <div className="text-center py-8">
+                      <p className="text-gray-500 dark:text-gray-400">No appointments found</p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b border-gray-200 dark:border-gray-700">
+                            <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Client</th>
+                            <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Artist</th>
+                            <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Date & Time</th>
+                            <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Type</th>
+                            <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Body Part</th>
+                            <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Duration</th>
+                            <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Status</th>
+                            <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {filteredAppointments.map((appointment: AppointmentWithRelations) => (
+                            <tr key={appointment.id} className="border-b border-gray-200 dark:border-gray-700">
+                              <td className="py-3 px-4">
+                                <div>
+                                  <div className="font-medium text-gray-900 dark:text-white">
+                                    {appointment.client.firstName} {appointment.client.lastName}
+                                  </div>
+                                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                                    {appointment.client.email}
+                                  </div>
+                                </div>
+                              </td>
+                              <td className="py-3 px-4 text-gray-900 dark:text-white">
+                                <div>{appointment.artist.name}</div>
+                                {appointment.station && (
+                                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    {appointment.station.name}
+                                  </div>
+                                )}
+                              </td>
+                              <td className="py-3 px-4 text-gray-900 dark:text-white">
+                                {formatDateTime(appointment.scheduledDate)}
+                              </td>
+                              <td className="py-3 px-4 text-gray-900 dark:text-white">
+                                {appointmentTypeLabels[appointment.type]}
+                              </td>
+                              <td className="py-3 px-4 text-gray-900 dark:text-white">
+                                <div>{appointment.bodyPart}</div>
+                                {appointment.projectId && projectsById.has(appointment.projectId) && (
+                                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    {projectsById.get(appointment.projectId)!.title} ·{" "}
+                                    {projectsById.get(appointment.projectId)!.progress.completedSessions}/
+                                    {projectsById.get(appointment.projectId)!.estimatedSessions} sessions
+                                  </div>
+                                )}
+                              </td>
+                              <td className="py-3 px-4 text-gray-900 dark:text-white">
+                                {formatDuration(appointment.duration)}
+                              </td>
+                              <td className="py-3 px-4">
+                                <Badge className={getStatusColor(appointment.status)}>
+                                  {appointment.status.replace('_', ' ')}
+                                </Badge>
+                                <AgeBadge
+                                  dateOfBirth={appointment.client.dateOfBirth}
+                                  scheduledDate={appointment.scheduledDate}
+                                  className="ml-1"
+                                />
+                                {unsignedForms?.[appointment.id] && (
+                                  <Badge variant="outline" className="ml-1 border-red-300 text-red-700 dark:border-red-700 dark:text-red-300">
+                                    {unsignedForms[appointment.id]} unsigned
+                                  </Badge>
+                                )}
+                                {appointment.depositStatus === "pending" && appointment.holdExpiresAt && (
+                                  <div className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                                    Deposit due by {formatDateTime(appointment.holdExpiresAt)}
+                                  </div>
+                                )}
+                              </td>
+                              <td className="py-3 px-4">
+                                <div className="flex items-center space-x-2">
+                                  <Button variant="ghost" size="sm" onClick={() => setDetailsId(appointment.id)}>
+                                    <Eye className="w-4 h-4" />
+                                  </Button>
+                                  <Button variant="ghost" size="sm">
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => deleteAppointmentMutation.mutate(appointment.id)}
+                                    disabled={deleteAppointmentMutation.isPending}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
         </main>
       </div>
 
@@ -264,6 +365,12 @@ export default function Appointments() {
         isOpen={isModalOpen} 
         onClose={() => setIsModalOpen(false)} 
       />
+
+      {/* Appointment Details */}
+      <AppointmentDetailsModal
+        appointmentId={detailsId}
+        onClose={() => setDetailsId(null)}
+      />
     </div>
   );
 }
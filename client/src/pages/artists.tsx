@@ -6,16 +6,19 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/sidebar";
 import { ArtistModal } from "@/components/artists/artist-modal";
+import { BulkRescheduleDialog } from "@/components/artists/bulk-reschedule-dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Plus, Search, Eye, Edit, Trash2, Mail, DollarSign, Calendar } from "lucide-react";
+import { Plus, Search, Eye, Edit, Trash2, Mail, DollarSign, Calendar, CalendarX } from "lucide-react";
 import type { Artist } from "@shared/schema";
+import { summarizeWeeklySchedule } from "@shared/workingHours";
 
 export default function Artists() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedArtist, setSelectedArtist] = useState<Artist | undefined>();
+  const [unavailableArtist, setUnavailableArtist] = useState<Artist | undefined>();
   const [searchQuery, setSearchQuery] = useState("");
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
@@ -191,10 +194,12 @@ export default function Artists() {
                         </div>
                       )}
 
-                      {artist.schedule && (
+                      {(artist.workingHours || artist.schedule) && (
                         <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
                           <Calendar className="w-4 h-4 mr-2" />
-                          <span className="truncate">{artist.schedule}</span>
+                          <span className="truncate">
+                            {artist.workingHours ? summarizeWeeklySchedule(artist.workingHours) : artist.schedule}
+                          </span>
                         </div>
                       )}
 
@@ -221,6 +226,14 @@ export default function Artists() {
                       <Button variant="ghost" size="sm" onClick={() => handleEdit(artist)}>
                         <Edit className="w-4 h-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setUnavailableArtist(artist)}
+                        title="Reschedule while unavailable"
+                      >
+                        <CalendarX className="w-4 h-4" />
+                      </Button>
                       <Button 
                         variant="ghost" 
                         size="sm"
@@ -244,6 +257,11 @@ export default function Artists() {
         onClose={handleCloseModal}
         artist={selectedArtist}
       />
+
+      <BulkRescheduleDialog
+        artist={unavailableArtist}
+        onClose={() => setUnavailableArtist(undefined)}
+      />
     </div>
   );
 }
@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorPayload, isConflictError } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BodyPartSelector } from "@/components/appointments/body-part-selector";
+import { FileUpload } from "@/components/appointments/file-upload";
+import { SlotPicker } from "@/components/appointments/slot-picker";
+import { Palette, CheckCircle } from "lucide-react";
+import { getUnderAgeMessage, parseDateOfBirth } from "@shared/age";
+import type { AvailableSlot, PublicArtist, PublicStudio } from "@shared/schema";
+
+const sizeOptions = [
+  { label: "Small (about 1 hour)", duration: 60 },
+  { label: "Medium (about 2 hours)", duration: 120 },
+  { label: "Large (about 4 hours)", duration: 240 },
+];
+
+export default function Book() {
+  const [formStartedAt] = useState(() => Date.now());
+  const [searchMode, setSearchMode] = useState<"artist" | "specialty">("artist");
+  const [artistId, setArtistId] = useState("");
+  const [specialty, setSpecialty] = useState("");
+  const [duration, setDuration] = useState("120");
+  const [selectedSlot, setSelectedSlot] = useState<AvailableSlot | null>(null);
+  const [bodyPart, setBodyPart] = useState("");
+  const [description, setDescription] = useState("");
+  const [referenceImages, setReferenceImages] = useState<string[]>([]);
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [dateOfBirth, setDateOfBirth] = useState("");
+  const [website, setWebsite] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: artists } = useQuery<PublicArtist[]>({
+    queryKey: ["/api/public/artists"],
+    retry: false,
+  });
+
+  const { data: studio } = useQuery<PublicStudio>({
+    queryKey: ["/api/public/studio"],
+    retry: false,
+  });
+
+  const specialties = Array.from(
+    new Set((artists ?? []).flatMap((artist) => artist.specialties ?? [])),
+  ).sort();
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedSlot) return;
+      await apiRequest("POST", "/api/public/booking-requests", {
+        firstName,
+        lastName,
+        email,
+        phone: phone || undefined,
+        dateOfBirth: parseDateOfBirth(dateOfBirth) ?? null,
+        artistId: selectedSlot.artistId,
+        requestedDate: selectedSlot.start,
+        duration: parseInt(duration),
+        bodyPart,
+        description,
+        referenceImages,
+        website,
+        formStartedAt,
+      });
+    },
+    onSuccess: () => {
+      setSubmitted(true);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/public/availability"] });
+      if (isConflictError(error)) {
+        setSelectedSlot(null);
+      }
+      toast({
+        title: "Could not send request",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Please check your details and try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The same check the studio makes when the request arrives
+  const tooYoung =
+    !!studio && !!selectedSlot && !!dateOfBirth &&
+    !!getUnderAgeMessage(parseDateOfBirth(dateOfBirth), selectedSlot.start, studio);
+
+  const canSubmit =
+    !tooYoung &&
+    !!selectedSlot &&
+    !!bodyPart &&
+    description.trim().length >= 10 &&
+    !!firstName.trim() &&
+    !!lastName.trim() &&
+    !!email.trim();
+
+  const resetSlot = () => setSelectedSlot(null);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+        <div className="max-w-3xl mx-auto flex items-center space-x-3">
+          <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+            <Palette className="text-white w-6 h-6" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">InkFlow Studio</h1>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Request a booking</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 px-6 py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {submitted ? (
+            <Card>
+              <CardContent className="py-12 text-center space-y-3">
+                <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Request received</h2>
+                <p className="text-gray-600 dark:text-gray-300">
+                  Thanks! The studio will review your request and contact you at {email} to confirm.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Artist and time */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>1. Choose an artist and time</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={searchMode === "artist" ? "default" : "outline"}
+                      onClick={() => {
+                        setSearchMode("artist");
+                        resetSlot();
+                      }}
+                    >
+                      By artist
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={searchMode === "specialty" ? "default" : "outline"}
+                      onClick={() => {
+                        setSearchMode("specialty");
+                        resetSlot();
+                      }}
+                    >
+                      By style
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {searchMode === "artist" ? (
+                      <div className="space-y-2">
+                        <Label>Artist</Label>
+                        <Select
+                          value={artistId}
+                          onValueChange={(value) => {
+                            setArtistId(value);
+                            resetSlot();
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select an artist" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {artists?.map((artist) => (
+                              <SelectItem key={artist.id} value={artist.id}>
+                                {artist.name}
+                                {artist.specialties && artist.specialties.length > 0 && ` · ${artist.specialties.join(", ")}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label>Style</Label>
+                        <Select
+                          value={specialty}
+                          onValueChange={(value) => {
+                            setSpecialty(value);
+                            resetSlot();
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a style" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {specialties.map((style) => (
+                              <SelectItem key={style} value={style}>
+                                {style}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label>Size</Label>
+                      <Select
+                        value={duration}
+                        onValueChange={(value) => {
+                          setDuration(value);
+                          resetSlot();
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sizeOptions.map((option) => (
+                            <SelectItem key={option.duration} value={option.duration.toString()}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {studio && (
+                    <SlotPicker
+                      endpoint="/api/public/availability"
+                      artistId={searchMode === "artist" ? artistId || undefined : undefined}
+                      specialty={searchMode === "specialty" ? specialty || undefined : undefined}
+                      duration={parseInt(duration)}
+                      value={selectedSlot}
+                      onSelect={setSelectedSlot}
+                      timeZone={studio.timeZone}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* The piece */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>2. Describe your tattoo</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Placement</Label>
+                    <BodyPartSelector value={bodyPart} onChange={setBodyPart} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Description</Label>
+                    <Textarea
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      rows={4}
+                      maxLength={2000}
+                      className="resize-none"
+                      placeholder="What would you like? Size, style, colours, any meaning behind it..."
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Reference Images (optional)</Label>
+                    <FileUpload
+                      value={referenceImages}
+                      onChange={setReferenceImages}
+                      maxFiles={5}
+                      uploadUrl="/api/public/upload"
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Contact details */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>3. Your details</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>First Name</Label>
+                      <Input value={firstName} onChange={(e) => setFirstName(e.target.value)} maxLength={100} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Last Name</Label>
+                      <Input value={lastName} onChange={(e) => setLastName(e.target.value)} maxLength={100} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Email</Label>
+                      <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} maxLength={200} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Phone (optional)</Label>
+                      <Input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} maxLength={40} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Date of Birth (optional)</Label>
+                      <Input type="date" value={dateOfBirth} onChange={(e) => setDateOfBirth(e.target.value)} />
+                      {tooYoung && (
+                        <p className="text-sm text-red-600 dark:text-red-400">
+                          Sorry, we only book clients who are {studio!.minimumAge} or over on the day of their appointment.
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Honeypot: hidden from people, filled in by bots */}
+                  <div className="absolute -left-[10000px]" aria-hidden="true">
+                    <label htmlFor="website">Website</label>
+                    <input
+                      id="website"
+                      name="website"
+                      type="text"
+                      tabIndex={-1}
+                      autoComplete="off"
+                      value={website}
+                      onChange={(e) => setWebsite(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
+                    <Button
+                      onClick={() => submitMutation.mutate()}
+                      disabled={!canSubmit || submitMutation.isPending}
+                    >
+                      {submitMutation.isPending ? "Sending..." : "Send Booking Request"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, Check, Copy, Mail, Phone, X } from "lucide-react";
+import type { BookingRequestWithRelations } from "@shared/schema";
+
+export default function BookingRequests() {
+  const timeZone = useStudioTimeZone();
+
+  const [statusFilter, setStatusFilter] = useState("pending");
+  const [declineReasons, setDeclineReasons] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: requests, isLoading: requestsLoading } = useQuery<BookingRequestWithRelations[]>({
+    queryKey: ["/api/booking-requests", statusFilter],
+    queryFn: async () => {
+      const params = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const res = await apiRequest("GET", `/api/booking-requests${params}`);
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getErrorPayload<{ message: string }>(error)?.message ?? description,
+      variant: "destructive",
+    });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/booking-requests/${id}/approve`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description: "Request approved and appointment booked",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to approve request"),
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/booking-requests/${id}/decline`, {
+        reason: declineReasons[id] || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-requests"] });
+      toast({
+        title: "Success",
+        description: "Request declined",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to decline request"),
+  });
+
+  const formatDateTime = (date: Date | string) => {
+    return new Date(date).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    });
+  };
+
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins > 0 ? `${mins}m` : ''}`;
+    }
+    return `${mins}m`;
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'approved':
+        return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      case 'declined':
+        return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      default:
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+    }
+  };
+
+  const copyBookingLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}/book`);
+    toast({
+      title: "Copied",
+      description: "Public booking link copied to clipboard",
+    });
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Booking Requests</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Requests submitted through the online booking page</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Button variant="outline" onClick={copyBookingLink}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy Booking Link
+              </Button>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="declined">Declined</SelectItem>
+                  <SelectItem value="all">All</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </header>
+
+        {/* Content */}
+        <main className="flex-1 overflow-y-auto p-6">
+          {requestsLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+              <p className="mt-2 text-gray-500 dark:text-gray-400">Loading requests...</p>
+            </div>
+          ) : !requests || requests.length === 0 ? (
+            <Card>
+              <CardContent className="py-8">
+                <p className="text-center text-gray-500 dark:text-gray-400">No booking requests</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {requests.map((request) => (
+                <Card key={request.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <h3 className="font-semibold text-gray-900 dark:text-white">
+                          {request.firstName} {request.lastName}
+                        </h3>
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+                          <span className="flex items-center">
+                            <Mail className="w-4 h-4 mr-1" />
+                            {request.email}
+                          </span>
+                          {request.phone && (
+                            <span className="flex items-center">
+                              <Phone className="w-4 h-4 mr-1" />
+                              {request.phone}
+                            </span>
+                          )}
+                        </div>
+                        {request.matchingClient && request.status === "pending" && (
+                          <p className="mt-1 text-xs text-blue-600 dark:text-blue-400">
+                            Existing client: {request.matchingClient.firstName} {request.matchingClient.lastName}
+                          </p>
+                        )}
+                      </div>
+                      <Badge className={getStatusColor(request.status)}>{request.status}</Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="pt-0 space-y-3">
+                    <div className="flex items-center text-sm text-gray-900 dark:text-white">
+                      <Calendar className="w-4 h-4 mr-2" />
+                      {formatDateTime(request.requestedDate)} · {formatDuration(request.duration)} with {request.artist.name} ·{" "}
+                      <span className="capitalize ml-1">{request.bodyPart}</span>
+                    </div>
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{request.description}</p>
+                    {request.referenceImages && request.referenceImages.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {request.referenceImages.map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt="Reference" className="h-20 w-20 rounded-md object-cover border border-gray-200 dark:border-gray-700" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {request.status === "declined" && request.declineReason && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Declined: {request.declineReason}</p>
+                    )}
+
+                    {request.status === "pending" && (
+                      <div className="flex flex-col md:flex-row md:items-center gap-2 pt-3 border-t border-gray-200 dark:border-gray-700">
+                        <Input
+                          placeholder="Reason for declining (optional)"
+                          value={declineReasons[request.id] ?? ""}
+                          onChange={(e) => setDeclineReasons({ ...declineReasons, [request.id]: e.target.value })}
+                          className="md:flex-1"
+                          maxLength={500}
+                        />
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            onClick={() => declineMutation.mutate(request.id)}
+                            disabled={declineMutation.isPending}
+                          >
+                            <X className="w-4 h-4 mr-2" />
+                            Decline
+                          </Button>
+                          <Button
+                            onClick={() => approveMutation.mutate(request.id)}
+                            disabled={approveMutation.isPending}
+                          >
+                            <Check className="w-4 h-4 mr-2" />
+                            Approve
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
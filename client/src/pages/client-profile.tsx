@@ -0,0 +1,289 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { ClientModal } from "@/components/clients/client-modal";
+import { ReliabilityBadge } from "@/components/clients/reliability-badge";
+import { MedicalAccessLog } from "@/components/clients/medical-access-log";
+import { ClientTimeline, clientNoteKindLabels } from "@/components/clients/client-timeline";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, CheckCircle, DollarSign, Edit, Mail, Phone, Wallet } from "lucide-react";
+import { formatDateOfBirth } from "@shared/age";
+import { clientNoteKindEnum, type ClientNoteKind, type ClientProfile as ClientProfileData } from "@shared/schema";
+
+export default function ClientProfile() {
+  const { id } = useParams<{ id: string }>();
+  const timeZone = useStudioTimeZone();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [noteKind, setNoteKind] = useState<ClientNoteKind>("note");
+  const [noteBody, setNoteBody] = useState("");
+  const { toast } = useToast();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: profile, isLoading: profileLoading } = useQuery<ClientProfileData>({
+    queryKey: ["/api/clients", id, "profile"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const addNoteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/clients/${id}/notes`, { kind: noteKind, body: noteBody.trim() });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients", id, "profile"] });
+      setNoteBody("");
+      setNoteKind("note");
+    },
+    onError: (error) => handleError(error, "Failed to add note"),
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      await apiRequest("DELETE", `/api/clients/${id}/notes/${noteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients", id, "profile"] });
+    },
+    onError: (error) => handleError(error, "Failed to delete note"),
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return null;
+  }
+
+  const client = profile?.client;
+
+  return (
+    <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/clients">
+                <Button variant="ghost" size="sm" aria-label="Back to clients">
+                  <ArrowLeft className="w-4 h-4" />
+                </Button>
+              </Link>
+              <div>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                    {client ? `${client.firstName} ${client.lastName}` : "Client"}
+                  </h2>
+                  {client && <ReliabilityBadge clientId={client.id} />}
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Full history with the studio</p>
+              </div>
+            </div>
+            {client && (
+              <Button variant="outline" onClick={() => setIsModalOpen(true)}>
+                <Edit className="w-4 h-4 mr-2" />
+                Edit Client
+              </Button>
+            )}
+          </div>
+        </header>
+
+        {/* Content */}
+        <main className="flex-1 overflow-y-auto p-6">
+          {profileLoading ? (
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardContent className="p-6">
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-1/3 mb-2"></div>
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : !profile || !client ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500 dark:text-gray-400">Client not found</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {/* Summary */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card>
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <DollarSign className="w-8 h-8 text-green-500" />
+                    <div>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Lifetime value</p>
+                      <p className="text-xl font-bold text-gray-900 dark:text-white">{formatCurrency(profile.lifetimeValue)}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <Wallet className={profile.outstandingBalance > 0 ? "w-8 h-8 text-red-500" : "w-8 h-8 text-gray-400"} />
+                    <div>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Outstanding balance</p>
+                      <p className="text-xl font-bold text-gray-900 dark:text-white">{formatCurrency(profile.outstandingBalance)}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <CheckCircle className="w-8 h-8 text-blue-500" />
+                    <div>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Completed sessions</p>
+                      <p className="text-xl font-bold text-gray-900 dark:text-white">{profile.completedSessions}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Details</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                      {client.email && (
+                        <div className="flex items-center text-gray-600 dark:text-gray-400">
+                          <Mail className="w-4 h-4 mr-2" />
+                          {client.email}
+                        </div>
+                      )}
+                      {client.phone && (
+                        <div className="flex items-center text-gray-600 dark:text-gray-400">
+                          <Phone className="w-4 h-4 mr-2" />
+                          {client.phone}
+                        </div>
+                      )}
+                      {client.dateOfBirth && (
+                        <p className="text-gray-600 dark:text-gray-400">Born {formatDateOfBirth(client.dateOfBirth)}</p>
+                      )}
+                      {client.address && <p className="text-gray-600 dark:text-gray-400">{client.address}</p>}
+                      {client.emergencyContact && (
+                        <p className="text-gray-600 dark:text-gray-400">Emergency contact: {client.emergencyContact}</p>
+                      )}
+                      {client.medicalNotes && (
+                        <p className="text-amber-700 dark:text-amber-400">Medical notes: {client.medicalNotes}</p>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Add to history</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <Select value={noteKind} onValueChange={(value) => setNoteKind(value as ClientNoteKind)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {clientNoteKindEnum.enumValues.map((kind) => (
+                            <SelectItem key={kind} value={kind}>
+                              {clientNoteKindLabels[kind]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Textarea
+                        placeholder={noteKind === "note" ? "Note about the client" : "What was discussed"}
+                        value={noteBody}
+                        onChange={(e) => setNoteBody(e.target.value)}
+                        rows={4}
+                      />
+                      <Button
+                        className="w-full"
+                        onClick={() => addNoteMutation.mutate()}
+                        disabled={!noteBody.trim() || addNoteMutation.isPending}
+                      >
+                        {addNoteMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </CardContent>
+                  </Card>
+
+                  {user?.role === "admin" && <MedicalAccessLog clientId={client.id} />}
+                </div>
+
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle>Timeline</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ClientTimeline
+                      clientId={client.id}
+                      events={profile.timeline}
+                      timeZone={timeZone}
+                      onDeleteNote={(noteId) => deleteNoteMutation.mutate(noteId)}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          )}
+        </main>
+      </div>
+
+      <ClientModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        client={client}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
@@ -6,16 +7,24 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/sidebar";
 import { ClientModal } from "@/components/clients/client-modal";
+import { ReliabilityBadge } from "@/components/clients/reliability-badge";
+import { DuplicateClientsDialog } from "@/components/clients/duplicate-clients-dialog";
+import { HighlightedText } from "@/components/clients/highlighted-text";
+import { ProjectModal } from "@/components/projects/project-modal";
+import { ProjectProgress } from "@/components/projects/project-progress";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Plus, Search, Eye, Edit, Trash2, Phone, Mail } from "lucide-react";
-import type { Client } from "@shared/schema";
+import { Plus, Search, Eye, Edit, Trash2, Phone, Mail, MapPin, Layers, Users } from "lucide-react";
+import { formatDateOfBirth } from "@shared/age";
+import type { Client, ClientSearchField, ClientSearchResult, Project, ProjectWithProgress } from "@shared/schema";
 
 export default function Clients() {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
   const [selectedClient, setSelectedClient] = useState<Client | undefined>();
   const [searchQuery, setSearchQuery] = useState("");
+  const [projectModal, setProjectModal] = useState<{ clientId?: string; project?: Project } | null>(null);
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
@@ -35,8 +44,23 @@ export default function Clients() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  const { data: clients, isLoading: clientsLoading } = useQuery({
-    queryKey: ["/api/clients", { search: searchQuery }],
+  const search = searchQuery.trim();
+
+  // Searches come back best match first, with the field that matched
+  const { data: clients, isLoading: clientsLoading } = useQuery<(Client | ClientSearchResult)[]>({
+    queryKey: ["/api/clients", { search }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", search ? `/api/clients?${new URLSearchParams({ search })}` : "/api/clients");
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const highlight = (client: Client | ClientSearchResult, field: ClientSearchField, text: string) =>
+    "matchedField" in client && client.matchedField === field ? <HighlightedText text={text} query={search} /> : text;
+
+  const { data: projects } = useQuery<ProjectWithProgress[]>({
+    queryKey: ["/api/projects"],
     retry: false,
   });
 
@@ -102,10 +126,16 @@ export default function Clients() {
               <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Clients</h2>
               <p className="text-sm text-gray-500 dark:text-gray-400">Manage your studio clients</p>
             </div>
-            <Button onClick={() => setIsModalOpen(true)}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add Client
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setIsDuplicatesOpen(true)}>
+                <Users className="w-4 h-4 mr-2" />
+                Find Duplicates
+              </Button>
+              <Button onClick={() => setIsModalOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Client
+              </Button>
+            </div>
           </div>
         </header>
 
@@ -116,7 +146,7 @@ export default function Clients() {
             <div className="relative max-w-md">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
               <Input
-                placeholder="Search clients..."
+                placeholder="Search by name, email, phone or address..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
@@ -142,7 +172,7 @@ export default function Clients() {
             </Card>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {clients.map((client: Client) => (
+              {clients.map((client) => (
                 <Card key={client.id} className="hover:shadow-md transition-shadow">
                   <CardHeader className="pb-3">
                     <div className="flex items-start justify-between">
@@ -153,9 +183,12 @@ export default function Clients() {
                           </span>
                         </div>
                         <div>
-                          <h3 className="font-semibold text-gray-900 dark:text-white">
-                            {client.firstName} {client.lastName}
-                          </h3>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold text-gray-900 dark:text-white">
+                              {highlight(client, "name", `${client.firstName} ${client.lastName}`)}
+                            </h3>
+                            <ReliabilityBadge clientId={client.id} />
+                          </div>
                           <p className="text-sm text-gray-500 dark:text-gray-400">
                             Joined {formatDate(client.createdAt)}
                           </p>
@@ -168,26 +201,59 @@ export default function Clients() {
                       {client.email && (
                         <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
                           <Mail className="w-4 h-4 mr-2" />
-                          <span className="truncate">{client.email}</span>
+                          <span className="truncate">{highlight(client, "email", client.email)}</span>
                         </div>
                       )}
                       {client.phone && (
                         <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
                           <Phone className="w-4 h-4 mr-2" />
-                          <span>{client.phone}</span>
+                          <span>{highlight(client, "phone", client.phone)}</span>
+                        </div>
+                      )}
+                      {"matchedField" in client && client.matchedField === "address" && client.address && (
+                        <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                          <MapPin className="w-4 h-4 mr-2" />
+                          <span className="truncate">{highlight(client, "address", client.address)}</span>
                         </div>
                       )}
                       {client.dateOfBirth && (
                         <div className="text-sm text-gray-600 dark:text-gray-400">
-                          <strong>DOB:</strong> {formatDate(client.dateOfBirth)}
+                          <strong>DOB:</strong> {formatDateOfBirth(client.dateOfBirth)}
                         </div>
                       )}
                     </div>
+
+                    {projects?.some((project) => project.clientId === client.id) && (
+                      <div className="mt-4 space-y-3">
+                        {projects
+                          .filter((project) => project.clientId === client.id)
+                          .map((project) => (
+                            <button
+                              key={project.id}
+                              type="button"
+                              className="block w-full text-left rounded-md border border-gray-200 dark:border-gray-700 p-2 hover:bg-gray-50 dark:hover:bg-gray-700"
+                              onClick={() => setProjectModal({ project })}
+                            >
+                              <ProjectProgress project={project} />
+                            </button>
+                          ))}
+                      </div>
+                    )}
                     
                     <div className="flex items-center justify-end space-x-2 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
-                      <Button variant="ghost" size="sm">
-                        <Eye className="w-4 h-4" />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="New project"
+                        onClick={() => setProjectModal({ clientId: client.id })}
+                      >
+                        <Layers className="w-4 h-4" />
                       </Button>
+                      <Link href={`/clients/${client.id}`}>
+                        <Button variant="ghost" size="sm" title="View profile">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                      </Link>
                       <Button variant="ghost" size="sm" onClick={() => handleEdit(client)}>
                         <Edit className="w-4 h-4" />
                       </Button>
@@ -214,6 +280,18 @@ export default function Clients() {
         onClose={handleCloseModal}
         client={selectedClient}
       />
+
+      <DuplicateClientsDialog open={isDuplicatesOpen} onOpenChange={setIsDuplicatesOpen} />
+
+      {/* Project Modal */}
+      {projectModal && (
+        <ProjectModal
+          isOpen
+          onClose={() => setProjectModal(null)}
+          project={projectModal.project}
+          clientId={projectModal.clientId}
+        />
+      )}
     </div>
   );
 }
@@ -2,16 +2,21 @@ import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/sidebar";
 import { StatsCards } from "@/components/dashboard/stats-cards";
 import { TodaySchedule } from "@/components/dashboard/today-schedule";
 import { Button } from "@/components/ui/button";
 import { Plus, Bell } from "lucide-react";
+import { getZonedDateKey } from "@shared/timezone";
+import type { AppointmentWithRelations } from "@shared/schema";
 
 export default function Dashboard() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
+  const timeZone = useStudioTimeZone();
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -33,8 +38,14 @@ export default function Dashboard() {
     retry: false,
   });
 
-  const { data: todayAppointments, isLoading: appointmentsLoading } = useQuery({
-    queryKey: ["/api/appointments", { date: new Date().toISOString().split('T')[0] }],
+  // "Today" is the studio's today, not the browser's
+  const today = getZonedDateKey(new Date(), timeZone);
+  const { data: todayAppointments, isLoading: appointmentsLoading } = useQuery<AppointmentWithRelations[]>({
+    queryKey: ["/api/appointments", "date", today],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/appointments?date=${today}`);
+      return res.json();
+    },
     retry: false,
   });
 
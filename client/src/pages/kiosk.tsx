@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SignaturePad } from "@/components/consent/signature-pad";
+import { Palette, CheckCircle } from "lucide-react";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+import type { KioskAppointment, PublicStudio } from "@shared/schema";
+
+// Back to the search screen when the client walks away mid check-in
+const IDLE_RESET_MS = 2 * 60 * 1000;
+// How long the confirmation stays up before the next client
+const DONE_RESET_MS = 10 * 1000;
+
+type Step = "search" | "confirm" | "forms" | "done";
+
+export default function Kiosk() {
+  const { token } = useParams<{ token: string }>();
+  const [step, setStep] = useState<Step>("search");
+  const [query, setQuery] = useState("");
+  const [matches, setMatches] = useState<KioskAppointment[] | null>(null);
+  const [appointment, setAppointment] = useState<KioskAppointment | null>(null);
+  const [updatingContact, setUpdatingContact] = useState(false);
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [signedNames, setSignedNames] = useState<Record<string, string>>({});
+  const [signatureImages, setSignatureImages] = useState<Record<string, string | null>>({});
+  const [error, setError] = useState("");
+  const [lastActivity, setLastActivity] = useState(() => Date.now());
+
+  const { data: studio, isLoading } = useQuery<PublicStudio>({
+    queryKey: ["/api/kiosk", token],
+    retry: false,
+  });
+
+  const reset = () => {
+    setStep("search");
+    setQuery("");
+    setMatches(null);
+    setAppointment(null);
+    setUpdatingContact(false);
+    setEmail("");
+    setPhone("");
+    setSignedNames({});
+    setSignatureImages({});
+    setError("");
+  };
+
+  useEffect(() => {
+    if (step === "search" && !query && !matches) return;
+    const timeout = setTimeout(reset, step === "done" ? DONE_RESET_MS : IDLE_RESET_MS);
+    return () => clearTimeout(timeout);
+  }, [step, query, matches, lastActivity]);
+
+  const lookupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/kiosk/${token}/lookup`, { query });
+      return (await res.json()) as KioskAppointment[];
+    },
+    onSuccess: (found) => {
+      setError("");
+      setMatches(found);
+      if (found.length === 1) {
+        chooseAppointment(found[0]);
+      }
+    },
+    onError: (err) => {
+      setError(getErrorPayload<{ message: string }>(err)?.message ?? "Something went wrong, please ask at the front desk");
+    },
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/kiosk/${token}/appointments/${appointment!.id}/check-in`, {
+        email: updatingContact && email.trim() ? email.trim() : undefined,
+        phone: updatingContact && phone.trim() ? phone.trim() : undefined,
+        signatures: appointment!.outstandingForms.map((form) => ({
+          formId: form.id,
+          signedName: signedNames[form.id]?.trim() ?? "",
+          signatureImage: signatureImages[form.id] ?? "",
+        })),
+      });
+    },
+    onSuccess: () => {
+      setError("");
+      setStep("done");
+    },
+    onError: (err) => {
+      setError(getErrorPayload<{ message: string }>(err)?.message ?? "Something went wrong, please ask at the front desk");
+    },
+  });
+
+  const chooseAppointment = (chosen: KioskAppointment) => {
+    setAppointment(chosen);
+    setStep("confirm");
+  };
+
+  const formatTime = (date: Date | string) =>
+    new Date(date).toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone: studio?.timeZone,
+    });
+
+  const allSigned = appointment?.outstandingForms.every(
+    (form) => signedNames[form.id]?.trim() && signatureImages[form.id],
+  ) ?? false;
+
+  const continueFromContact = () => {
+    if (appointment!.outstandingForms.length > 0) {
+      setStep("forms");
+    } else {
+      checkInMutation.mutate();
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col"
+      onPointerDown={() => setLastActivity(Date.now())}
+      onKeyDown={() => setLastActivity(Date.now())}
+    >
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+        <div className="max-w-2xl mx-auto flex items-center space-x-3">
+          <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+            <Palette className="text-white w-6 h-6" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900 dark:text-white">InkFlow Studio</h1>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Check in for your appointment</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 px-6 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {isLoading ? null : !studio ? (
+            <Card>
+              <CardContent className="py-12 text-center">
+                <p className="text-gray-600 dark:text-gray-300">
+                  This check-in link is no longer active. Please ask at the front desk.
+                </p>
+              </CardContent>
+            </Card>
+          ) : step === "done" ? (
+            <Card>
+              <CardContent className="py-12 text-center space-y-3">
+                <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  You're checked in, {appointment?.clientFirstName}
+                </h2>
+                <p className="text-gray-600 dark:text-gray-300">
+                  {appointment?.artistName} knows you're here. Please take a seat.
+                </p>
+              </CardContent>
+            </Card>
+          ) : step === "search" ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Find your appointment</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    lookupMutation.mutate();
+                  }}
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="kiosk-query">Your full name or phone number</Label>
+                    <Input
+                      id="kiosk-query"
+                      value={query}
+                      onChange={(e) => {
+                        setQuery(e.target.value);
+                        setMatches(null);
+                      }}
+                      autoComplete="off"
+                      className="h-12 text-lg"
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    size="lg"
+                    className="w-full"
+                    disabled={query.trim().length < 3 || lookupMutation.isPending}
+                  >
+                    {lookupMutation.isPending ? "Searching..." : "Find my appointment"}
+                  </Button>
+                </form>
+
+                {matches && matches.length === 0 && (
+                  <p className="text-center text-gray-600 dark:text-gray-300">
+                    We couldn't find an appointment for today. Please check your details or ask at the front desk.
+                  </p>
+                )}
+                {matches && matches.length > 1 && (
+                  <div className="space-y-2">
+                    <p className="text-gray-600 dark:text-gray-300">Which appointment are you here for?</p>
+                    {matches.map((match) => (
+                      <Button
+                        key={match.id}
+                        variant="outline"
+                        size="lg"
+                        className="w-full justify-between"
+                        onClick={() => chooseAppointment(match)}
+                      >
+                        <span>{formatTime(match.scheduledDate)} · {appointmentTypeLabels[match.type]}</span>
+                        <span>{match.artistName}</span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ) : step === "confirm" && appointment ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Hi {appointment.clientFirstName}!</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-gray-600 dark:text-gray-300">
+                  {appointmentTypeLabels[appointment.type]} with {appointment.artistName} at{" "}
+                  {formatTime(appointment.scheduledDate)}
+                </p>
+                <div className="rounded-md border border-gray-200 dark:border-gray-700 p-4 space-y-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">Is this still how we reach you?</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">Email: {appointment.maskedEmail ?? "none"}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">Phone: {appointment.maskedPhone ?? "none"}</p>
+                </div>
+                {updatingContact ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="kiosk-email">New email</Label>
+                      <Input id="kiosk-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="kiosk-phone">New phone</Label>
+                      <Input id="kiosk-phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} />
+                    </div>
+                  </div>
+                ) : (
+                  <Button variant="link" className="px-0" onClick={() => setUpdatingContact(true)}>
+                    My details have changed
+                  </Button>
+                )}
+                <div className="flex justify-between gap-3">
+                  <Button variant="outline" size="lg" onClick={reset}>
+                    Start over
+                  </Button>
+                  <Button size="lg" onClick={continueFromContact} disabled={checkInMutation.isPending}>
+                    {appointment.outstandingForms.length > 0 ? "Continue" : "Check in"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : step === "forms" && appointment ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Please read and sign</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {appointment.outstandingForms.map((form) => (
+                  <div key={form.id} className="space-y-2">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{form.title}</h3>
+                    <div className="max-h-64 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-700 p-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                      {form.body}
+                    </div>
+                    <Label htmlFor={`sign-${form.id}`}>Type your full name to sign</Label>
+                    <Input
+                      id={`sign-${form.id}`}
+                      value={signedNames[form.id] ?? ""}
+                      onChange={(e) => setSignedNames((current) => ({ ...current, [form.id]: e.target.value }))}
+                      autoComplete="off"
+                    />
+                    <Label>Sign below</Label>
+                    <SignaturePad
+                      onChange={(image) => setSignatureImages((current) => ({ ...current, [form.id]: image }))}
+                    />
+                  </div>
+                ))}
+                <div className="flex justify-between gap-3">
+                  <Button variant="outline" size="lg" onClick={reset}>
+                    Start over
+                  </Button>
+                  <Button size="lg" onClick={() => checkInMutation.mutate()} disabled={!allSigned || checkInMutation.isPending}>
+                    {checkInMutation.isPending ? "Checking in..." : "Sign and check in"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : null}
+
+          {error && step !== "done" && (
+            <p className="text-center text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
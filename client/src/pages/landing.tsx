@@ -17,9 +17,14 @@ export default function Landing() {
               <p className="text-xs text-gray-500 dark:text-gray-400">Management System</p>
             </div>
           </div>
-          <Button onClick={() => window.location.href = '/api/login'}>
-            Sign In
-          </Button>
+          <div className="flex items-center space-x-3">
+            <Button variant="outline" onClick={() => window.location.href = '/book'}>
+              Book a Tattoo
+            </Button>
+            <Button onClick={() => window.location.href = '/api/login'}>
+              Sign In
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/sidebar";
@@ -12,14 +13,22 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, Search, Filter, Eye, Edit, Trash2, Calendar, DollarSign, TrendingUp } from "lucide-react";
-import type { SaleWithRelations } from "@shared/schema";
+import { appointmentTypeEnum, type AppointmentType, type SaleWithRelations } from "@shared/schema";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+
+const NO_APPOINTMENT = "none";
+
+const saleTypeLabel = (sale: SaleWithRelations) =>
+  sale.appointment ? appointmentTypeLabels[sale.appointment.type] : "No appointment";
 
 export default function Sales() {
+  const timeZone = useStudioTimeZone();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedSale, setSelectedSale] = useState<SaleWithRelations | undefined>();
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [dateRange, setDateRange] = useState("all");
+  const [typeFilter, setTypeFilter] = useState("all");
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
@@ -39,43 +48,14 @@ export default function Sales() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  // Calculate date range for API query
-  const getDateRangeParams = () => {
-    const now = new Date();
-    let startDate, endDate;
-
-    switch (dateRange) {
-      case 'today':
-        startDate = new Date(now);
-        startDate.setHours(0, 0, 0, 0);
-        endDate = new Date(now);
-        endDate.setHours(23, 59, 59, 999);
-        break;
-      case 'week':
-        startDate = new Date(now);
-        startDate.setDate(now.getDate() - 7);
-        endDate = now;
-        break;
-      case 'month':
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-        endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-        break;
-      case 'year':
-        startDate = new Date(now.getFullYear(), 0, 1);
-        endDate = new Date(now.getFullYear(), 11, 31);
-        break;
-      default:
-        return {};
-    }
-
-    return {
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
-    };
-  };
-
-  const { data: sales, isLoading: salesLoading } = useQuery({
-    queryKey: ["/api/sales", getDateRangeParams()],
+  // Periods are counted in the studio's time zone by the server
+  const { data: sales, isLoading: salesLoading } = useQuery<SaleWithRelations[]>({
+    queryKey: ["/api/sales", "period", dateRange],
+    queryFn: async () => {
+      const params = dateRange === "all" ? "" : `?${new URLSearchParams({ period: dateRange })}`;
+      const res = await apiRequest("GET", `/api/sales${params}`);
+      return res.json();
+    },
     retry: false,
   });
 
@@ -147,6 +127,7 @@ export default function Sales() {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
+      timeZone,
     });
   };
 
@@ -157,10 +138,18 @@ export default function Sales() {
       sale.artist.name.toLowerCase().includes(searchQuery.toLowerCase());
     
     const matchesStatus = statusFilter === "all" || sale.paymentStatus === statusFilter;
+    const matchesType = typeFilter === "all" || (sale.appointment?.type ?? NO_APPOINTMENT) === typeFilter;
     
-    return matchesSearch && matchesStatus;
+    return matchesSearch && matchesStatus && matchesType;
   });
 
+  // Revenue per appointment type; sales without an appointment are counted separately
+  const revenueByType: Record<string, number> = (filteredSales ?? []).reduce((totals: Record<string, number>, sale: SaleWithRelations) => {
+    const type = sale.appointment?.type ?? NO_APPOINTMENT;
+    totals[type] = (totals[type] ?? 0) + Number(sale.totalAmount);
+    return totals;
+  }, {});
+
   // Calculate summary statistics
   const summaryStats = filteredSales ? {
     totalRevenue: filteredSales.reduce((sum: number, sale: SaleWithRelations) => sum + Number(sale.totalAmount), 0),
@@ -246,6 +235,31 @@ export default function Sales() {
             </Card>
           </div>
 
+          {/* Revenue by Type */}
+          {Object.keys(revenueByType).length > 0 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <h3 className="text-lg font-semibold">Revenue by Type</h3>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  {[...appointmentTypeEnum.enumValues, NO_APPOINTMENT]
+                    .filter((type) => revenueByType[type] !== undefined)
+                    .map((type) => (
+                      <div key={type}>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {type === NO_APPOINTMENT ? "No appointment" : appointmentTypeLabels[type as AppointmentType]}
+                        </p>
+                        <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                          {formatCurrency(revenueByType[type])}
+                        </p>
+                      </div>
+                    ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Filters */}
           <div className="mb-6 flex flex-col sm:flex-row gap-4">
             <div className="relative flex-1">
@@ -269,6 +283,21 @@ export default function Sales() {
                 <SelectItem value="pending">Pending</SelectItem>
               </SelectContent>
             </Select>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-[180px]">
+                <Filter className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Appointment Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {appointmentTypeEnum.enumValues.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {appointmentTypeLabels[type]}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NO_APPOINTMENT}>No appointment</SelectItem>
+              </SelectContent>
+            </Select>
             <Select value={dateRange} onValueChange={setDateRange}>
               <SelectTrigger className="w-[180px]">
                 <Calendar className="w-4 h-4 mr-2" />
@@ -307,6 +336,7 @@ export default function Sales() {
                         <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Date</th>
                         <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Client</th>
                         <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Artist</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Type</th>
                         <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Total</th>
                         <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Deposit</th>
                         <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Balance</th>
@@ -333,6 +363,9 @@ export default function Sales() {
                           <td className="py-3 px-4 text-gray-900 dark:text-white">
                             {sale.artist.name}
                           </td>
+                          <td className="py-3 px-4 text-gray-900 dark:text-white">
+                            {saleTypeLabel(sale)}
+                          </td>
                           <td className="py-3 px-4 text-gray-900 dark:text-white font-medium">
                             {formatCurrency(sale.totalAmount)}
                           </td>
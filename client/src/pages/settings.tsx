@@ -0,0 +1,488 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getErrorPayload } from "@/lib/apiErrors";
+import { apiRequest } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StationManager } from "@/components/stations/station-manager";
+import { ConsentFormManager } from "@/components/consent/consent-form-manager";
+import { KioskLinkManager } from "@/components/kiosk/kiosk-link-manager";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { reliabilityActionLabels } from "@shared/reliability";
+import { minorPolicyLabels } from "@shared/age";
+import {
+  updateStudioSettingsSchema,
+  type MinorPolicy,
+  type ReliabilityAction,
+  type StudioSettings,
+  type UpdateStudioSettings,
+} from "@shared/schema";
+
+// Offered as suggestions; any IANA zone name is accepted
+const timeZoneOptions = Intl.supportedValuesOf("timeZone");
+
+export default function Settings() {
+  const { toast } = useToast();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === "admin";
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: settings, isLoading: settingsLoading } = useQuery<StudioSettings>({
+    queryKey: ["/api/settings"],
+    retry: false,
+  });
+
+  const form = useForm<UpdateStudioSettings>({
+    resolver: zodResolver(updateStudioSettingsSchema),
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset({
+        timeZone: settings.timeZone,
+        defaultDepositAmount: settings.defaultDepositAmount,
+        depositHoldHours: settings.depositHoldHours,
+        lateCancellationHours: settings.lateCancellationHours,
+        forfeitDepositOnNoShow: settings.forfeitDepositOnNoShow,
+        forfeitDepositOnLateCancel: settings.forfeitDepositOnLateCancel,
+        reliabilityThreshold: settings.reliabilityThreshold,
+        reliabilityAction: settings.reliabilityAction,
+        reliabilityDepositAmount: settings.reliabilityDepositAmount,
+        minimumAge: settings.minimumAge,
+        minorPolicy: settings.minorPolicy,
+      });
+    }
+  }, [settings, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: UpdateStudioSettings) => {
+      await apiRequest("PATCH", "/api/settings", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clients/reliability"] });
+      // Daily and monthly figures are counted in the studio's time zone
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+      toast({
+        title: "Success",
+        description: "Settings saved",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getErrorPayload<{ message: string }>(error)?.message ?? "Failed to save settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reliabilityAction = form.watch("reliabilityAction");
+
+  if (isLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Settings</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {isAdmin ? "Studio-wide policies" : "Only admins can change studio settings"}
+            </p>
+          </div>
+        </header>
+
+        {/* Content */}
+        <main className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-3xl space-y-6">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Studio</CardTitle>
+                    <CardDescription>
+                      Working hours, calendar days and daily and monthly figures follow the studio's time zone.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {settingsLoading ? (
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                    ) : (
+                      <fieldset disabled={!isAdmin} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="timeZone"
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-2">
+                              <FormLabel>Time Zone</FormLabel>
+                              <FormControl>
+                                <Input list="time-zone-options" placeholder="Europe/London" {...field} value={field.value ?? ""} />
+                              </FormControl>
+                              <datalist id="time-zone-options">
+                                {timeZoneOptions.map((zone) => (
+                                  <option key={zone} value={zone} />
+                                ))}
+                              </datalist>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </fieldset>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Deposits</CardTitle>
+                    <CardDescription>
+                      New bookings with a deposit hold their slot until the deposit is recorded.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {settingsLoading ? (
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                    ) : (
+                      <fieldset disabled={!isAdmin} className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="defaultDepositAmount"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Default Deposit ($)</FormLabel>
+                                <FormControl>
+                                  <Input type="number" step="0.01" min="0" {...field} value={field.value ?? ""} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="depositHoldHours"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Hold Window (hours)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min="1"
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(parseInt(e.target.value))}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="lateCancellationHours"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Late Cancellation (hours)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(parseInt(e.target.value))}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
+                        <FormField
+                          control={form.control}
+                          name="forfeitDepositOnNoShow"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center justify-between rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                              <div>
+                                <FormLabel>Forfeit deposit on no-show</FormLabel>
+                                <FormDescription>The paid deposit is kept and recorded as a sale</FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch checked={!!field.value} onCheckedChange={field.onChange} disabled={!isAdmin} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="forfeitDepositOnLateCancel"
+                          render={({ field }) => (
+                            <FormItem className="flex items-center justify-between rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                              <div>
+                                <FormLabel>Forfeit deposit on late cancellation</FormLabel>
+                                <FormDescription>
+                                  Earlier cancellations are marked as refund due instead
+                                </FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch checked={!!field.value} onCheckedChange={field.onChange} disabled={!isAdmin} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                      </fieldset>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Client Reliability</CardTitle>
+                    <CardDescription>
+                      No-shows and late cancellations count against a client. Once a client reaches the threshold,
+                      their new bookings fall under the rule below.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {settingsLoading ? (
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                    ) : (
+                      <fieldset disabled={!isAdmin} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="reliabilityThreshold"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Threshold</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  value={field.value ?? ""}
+                                  onChange={(e) => field.onChange(parseInt(e.target.value))}
+                                />
+                              </FormControl>
+                              <FormDescription>0 turns the rule off</FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="reliabilityAction"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Rule</FormLabel>
+                              <Select
+                                value={field.value}
+                                onValueChange={(value) => field.onChange(value as ReliabilityAction)}
+                                disabled={!isAdmin}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {(Object.keys(reliabilityActionLabels) as ReliabilityAction[]).map((action) => (
+                                    <SelectItem key={action} value={action}>
+                                      {reliabilityActionLabels[action]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        {reliabilityAction === "larger_deposit" && (
+                          <FormField
+                            control={form.control}
+                            name="reliabilityDepositAmount"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Minimum Deposit ($)</FormLabel>
+                                <FormControl>
+                                  <Input type="number" step="0.01" min="0" {...field} value={field.value ?? ""} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                      </fieldset>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Age Verification</CardTitle>
+                    <CardDescription>
+                      A client's age is worked out from their date of birth on the day of the appointment.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {settingsLoading ? (
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                    ) : (
+                      <fieldset disabled={!isAdmin} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="minimumAge"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Minimum Age</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  value={field.value ?? ""}
+                                  onChange={(e) => field.onChange(parseInt(e.target.value))}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="minorPolicy"
+                          render={({ field }) => (
+                            <FormItem className="md:col-span-2">
+                              <FormLabel>Younger Clients</FormLabel>
+                              <Select
+                                value={field.value}
+                                onValueChange={(value) => field.onChange(value as MinorPolicy)}
+                                disabled={!isAdmin}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {(Object.keys(minorPolicyLabels) as MinorPolicy[]).map((policy) => (
+                                    <SelectItem key={policy} value={policy}>
+                                      {minorPolicyLabels[policy]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormDescription>
+                                With guardian consent the session cannot start until a parent or guardian has shown ID and signed
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </fieldset>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {isAdmin && (
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={mutation.isPending || !form.formState.isDirty}>
+                      {mutation.isPending ? "Saving..." : "Save Settings"}
+                    </Button>
+                  </div>
+                )}
+              </form>
+            </Form>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Stations &amp; Rooms</CardTitle>
+                <CardDescription>
+                  Appointments can reserve a station or room, which then cannot be double-booked.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StationManager canEdit={isAdmin} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Consent Forms</CardTitle>
+                <CardDescription>
+                  Clients sign the active forms for their appointment type when they check in at the kiosk.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ConsentFormManager canEdit={isAdmin} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Check-in Kiosk</CardTitle>
+                <CardDescription>
+                  Arriving clients find today's appointment by name or phone, sign their forms and check in.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <KioskLinkManager canEdit={isAdmin} />
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
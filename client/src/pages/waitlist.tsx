@@ -0,0 +1,223 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { WaitlistModal } from "@/components/waitlist/waitlist-modal";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { WaitlistEntryWithRelations } from "@shared/schema";
+
+export default function Waitlist() {
+  const timeZone = useStudioTimeZone();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState("waiting");
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: entries, isLoading: entriesLoading } = useQuery<WaitlistEntryWithRelations[]>({
+    queryKey: ["/api/waitlist", statusFilter],
+    queryFn: async () => {
+      const params = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const res = await apiRequest("GET", `/api/waitlist${params}`);
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/waitlist/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      toast({
+        title: "Success",
+        description: "Removed from waitlist",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to remove from waitlist",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone,
+    });
+  };
+
+  // latestDate is the midnight after the last acceptable day
+  const formatRange = (entry: WaitlistEntryWithRelations) => {
+    const lastDay = new Date(new Date(entry.latestDate).getTime() - 1);
+    return `${formatDate(entry.earliestDate)} – ${formatDate(lastDay)}`;
+  };
+
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins > 0 ? `${mins}m` : ''}`;
+    }
+    return `${mins}m`;
+  };
+
+  const isExpired = (entry: WaitlistEntryWithRelations) =>
+    entry.status === "waiting" && new Date(entry.latestDate) <= new Date();
+
+  if (isLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Waitlist</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Clients waiting for a cancellation</p>
+            </div>
+            <Button onClick={() => setIsModalOpen(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add to Waitlist
+            </Button>
+          </div>
+        </header>
+
+        {/* Content */}
+        <main className="flex-1 overflow-y-auto p-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {entries?.length ?? 0} {statusFilter === "all" ? "entries" : statusFilter}
+                </h3>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="waiting">Waiting</SelectItem>
+                    <SelectItem value="booked">Booked</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {entriesLoading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                  <p className="mt-2 text-gray-500 dark:text-gray-400">Loading waitlist...</p>
+                </div>
+              ) : !entries || entries.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-500 dark:text-gray-400">Nobody is on the waitlist</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-700">
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Client</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Artist</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Dates</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Duration</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Body Part</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Status</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entries.map((entry) => (
+                        <tr key={entry.id} className="border-b border-gray-200 dark:border-gray-700">
+                          <td className="py-3 px-4">
+                            <div className="font-medium text-gray-900 dark:text-white">
+                              {entry.client.firstName} {entry.client.lastName}
+                            </div>
+                            <div className="text-sm text-gray-500 dark:text-gray-400">
+                              Since {formatDate(entry.createdAt ?? new Date())}
+                            </div>
+                          </td>
+                          <td className="py-3 px-4 text-gray-900 dark:text-white">{entry.artist.name}</td>
+                          <td className="py-3 px-4 text-gray-900 dark:text-white">{formatRange(entry)}</td>
+                          <td className="py-3 px-4 text-gray-900 dark:text-white">{formatDuration(entry.duration)}</td>
+                          <td className="py-3 px-4 text-gray-900 dark:text-white capitalize">{entry.bodyPart}</td>
+                          <td className="py-3 px-4">
+                            {isExpired(entry) ? (
+                              <Badge className="bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200">expired</Badge>
+                            ) : entry.status === "booked" ? (
+                              <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">booked</Badge>
+                            ) : (
+                              <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">waiting</Badge>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteEntryMutation.mutate(entry.id)}
+                              disabled={deleteEntryMutation.isPending}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+
+      <WaitlistModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useStudioTimeZone } from "@/hooks/useStudioTimeZone";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Sidebar } from "@/components/layout/sidebar";
+import { WalkInModal } from "@/components/walk-ins/walk-in-modal";
+import { StartWalkInDialog } from "@/components/walk-ins/start-walk-in-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Play, Plus, Trash2 } from "lucide-react";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+import type { WalkInQueue, WalkInQueueEntry } from "@shared/schema";
+
+// Estimates move as sessions run over or finish early
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+export default function WalkIns() {
+  const timeZone = useStudioTimeZone();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [startingWalkIn, setStartingWalkIn] = useState<WalkInQueueEntry | undefined>();
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: queue, isLoading: queueLoading } = useQuery<WalkInQueue>({
+    queryKey: ["/api/walk-ins"],
+    refetchInterval: REFRESH_INTERVAL_MS,
+    retry: false,
+  });
+
+  const deleteWalkInMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/walk-ins/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/walk-ins"] });
+      toast({
+        title: "Success",
+        description: "Removed from the queue",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to remove walk-in",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatTime = (date: Date | string) => {
+    return new Date(date).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone,
+    });
+  };
+
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins > 0 ? `${mins}m` : ''}`;
+    }
+    return `${mins}m`;
+  };
+
+  const artistName = (artistId: string | null) =>
+    queue?.artists.find((artist) => artist.artistId === artistId)?.artistName;
+
+  if (isLoading || !isAuthenticated) {
+    return null;
+  }
+
+  const entries = queue?.entries ?? [];
+
+  return (
+    <div className="flex h-screen bg-gray-50 dark:bg-gray-900">
+      <Sidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Walk-ins</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Same-day clients waiting for a free artist</p>
+            </div>
+            <Button onClick={() => setIsModalOpen(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Walk-in
+            </Button>
+          </div>
+        </header>
+
+        {/* Content */}
+        <main className="flex-1 overflow-y-auto p-6 space-y-6">
+          {queue && queue.artists.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {queue.artists.map((artist) => (
+                <Card key={artist.artistId}>
+                  <CardContent className="p-4">
+                    <p className="font-medium text-gray-900 dark:text-white">{artist.artistName}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {artist.freeMinutes > 0
+                        ? `${formatDuration(artist.freeMinutes)} free today`
+                        : "Fully booked today"}
+                    </p>
+                    {artist.nextFreeAt && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Next free at {formatTime(artist.nextFreeAt)}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {entries.length} waiting
+              </h3>
+            </CardHeader>
+            <CardContent>
+              {queueLoading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                  <p className="mt-2 text-gray-500 dark:text-gray-400">Loading queue...</p>
+                </div>
+              ) : entries.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-500 dark:text-gray-400">Nobody is waiting</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-700">
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Client</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Piece</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Duration</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Artist</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Estimated Wait</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500 dark:text-gray-400">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entries.map((entry) => (
+                        <tr key={entry.id} className="border-b border-gray-200 dark:border-gray-700">
+                          <td className="py-3 px-4">
+                            <div className="font-medium text-gray-900 dark:text-white">
+                              {entry.client.firstName} {entry.client.lastName}
+                            </div>
+                            <div className="text-sm text-gray-500 dark:text-gray-400">
+                              Arrived {formatTime(entry.createdAt ?? new Date())}
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="text-gray-900 dark:text-white">
+                              {appointmentTypeLabels[entry.type]} · <span className="capitalize">{entry.bodyPart}</span>
+                            </div>
+                            {entry.description && (
+                              <div className="text-sm text-gray-500 dark:text-gray-400 line-clamp-1">
+                                {entry.description}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-gray-900 dark:text-white">{formatDuration(entry.duration)}</td>
+                          <td className="py-3 px-4 text-gray-900 dark:text-white">
+                            {entry.artist?.name ?? (
+                              <span className="text-gray-500 dark:text-gray-400">
+                                Any{entry.estimatedArtistId && ` (likely ${artistName(entry.estimatedArtistId)})`}
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            {entry.estimatedStart === null ? (
+                              <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                                no room today
+                              </Badge>
+                            ) : entry.estimatedWaitMinutes === 0 ? (
+                              <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                                now
+                              </Badge>
+                            ) : (
+                              <div className="text-gray-900 dark:text-white">
+                                ~{formatDuration(entry.estimatedWaitMinutes!)}
+                                <span className="text-sm text-gray-500 dark:text-gray-400">
+                                  {" "}at {formatTime(entry.estimatedStart)}
+                                </span>
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center space-x-1">
+                              <Button variant="ghost" size="sm" onClick={() => setStartingWalkIn(entry)}>
+                                <Play className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteWalkInMutation.mutate(entry.id)}
+                                disabled={deleteWalkInMutation.isPending}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+
+      <WalkInModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+      <StartWalkInDialog walkIn={startingWalkIn} onClose={() => setStartingWalkIn(undefined)} />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { storage } from "./storage";
+import {
+  getAgeAtAppointment,
+  getUnderAgeMessage,
+  guardianConsentStatement,
+  isUnderAge,
+} from "@shared/age";
+import type {
+  Appointment,
+  AppointmentGuardianStatus,
+  GuardianConsentInput,
+  InsertGuardianConsent,
+  StudioSettings,
+} from "@shared/schema";
+
+type AgeSettings = Pick<StudioSettings, "timeZone" | "minimumAge" | "minorPolicy">;
+type AppointmentForAge = Pick<Appointment, "id" | "clientId" | "scheduledDate">;
+
+// Why the client cannot be booked for that date, for studios that turn minors away
+export async function getClientUnderAgeMessage(
+  clientId: string,
+  scheduledDate: Date,
+  settings: AgeSettings,
+): Promise<string | undefined> {
+  const client = await storage.getClient(clientId);
+  return getUnderAgeMessage(client?.dateOfBirth, scheduledDate, settings);
+}
+
+export async function isClientUnderAge(clientId: string, scheduledDate: Date, settings: AgeSettings): Promise<boolean> {
+  const client = await storage.getClient(clientId);
+  return isUnderAge(getAgeAtAppointment(client?.dateOfBirth, scheduledDate, settings.timeZone), settings);
+}
+
+export async function getGuardianStatus(
+  appointment: AppointmentForAge,
+  settings: AgeSettings,
+): Promise<AppointmentGuardianStatus> {
+  const [client, consent] = await Promise.all([
+    storage.getClient(appointment.clientId),
+    storage.getGuardianConsent(appointment.id),
+  ]);
+  const age = getAgeAtAppointment(client?.dateOfBirth, appointment.scheduledDate, settings.timeZone);
+  return {
+    age,
+    minimumAge: settings.minimumAge,
+    minorPolicy: settings.minorPolicy,
+    required: isUnderAge(age, settings),
+    consent: consent ?? null,
+  };
+}
+
+// Why the session cannot start for an under-age client; a date of birth added after booking is caught here too
+export async function getGuardianConsentMessage(
+  appointment: AppointmentForAge,
+  settings: AgeSettings,
+): Promise<string | undefined> {
+  const { age, required, consent } = await getGuardianStatus(appointment, settings);
+  if (!required || consent) return undefined;
+  if (settings.minorPolicy === "block") {
+    return `The client is ${age}; the studio does not work on clients under ${settings.minimumAge}`;
+  }
+  return `The client is ${age}; a parent or guardian has to show ID and sign consent before the session can start`;
+}
+
+export function buildGuardianConsent(
+  appointment: Pick<Appointment, "id" | "clientId">,
+  clientName: string,
+  input: GuardianConsentInput,
+  settings: AgeSettings,
+  collectedBy: string,
+): InsertGuardianConsent {
+  return {
+    appointmentId: appointment.id,
+    clientId: appointment.clientId,
+    guardianName: input.guardianName,
+    relationship: input.relationship,
+    guardianPhone: input.guardianPhone ?? null,
+    idType: input.idType,
+    idNumber: input.idNumber,
+    idExpiresAt: input.idExpiresAt,
+    statement: guardianConsentStatement(input, clientName, settings.minimumAge),
+    signatureImage: input.signatureImage,
+    collectedBy,
+  };
+}
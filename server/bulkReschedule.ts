@@ -0,0 +1,200 @@
+import { storage } from "./storage";
+import { bookSlot, checkAppointmentSlot, getBusyPeriods, getOccupiedRange, resolveBuffers, withBufferDefaults } from "./scheduling";
+import { getNotificationTransport } from "./notifications";
+import { refreshAppointmentReminders } from "./reminders";
+import { reschedulableStatuses } from "@shared/appointmentStatus";
+import { getUnderAgeMessage } from "@shared/age";
+import { computeOpenSlots, type TimeRange } from "@shared/workingHours";
+import type {
+  AppointmentWithRelations,
+  Artist,
+  BulkRescheduleChange,
+  BulkRescheduleResult,
+  InsertAppointment,
+  ReminderChannel,
+  RescheduleProposal,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far past the unavailable period new slots are looked for
+const PROPOSAL_SEARCH_DAYS = 14;
+const PROPOSAL_STEP_MINUTES = 30;
+
+const CLIENT_CHANNELS: ReminderChannel[] = ["email", "sms"];
+
+function getSharedSpecialties(artist: Artist, candidate: Artist): string[] {
+  const wanted = (artist.specialties ?? []).map((specialty) => specialty.toLowerCase());
+  return (candidate.specialties ?? []).filter((specialty) => wanted.includes(specialty.toLowerCase()));
+}
+
+// An artist without specialties can be covered by anyone, otherwise at least one has to match
+function canCoverFor(artist: Artist, candidate: Artist): boolean {
+  return !artist.specialties?.length || getSharedSpecialties(artist, candidate).length > 0;
+}
+
+export async function getAffectedAppointments(artistId: string, from: Date, to: Date): Promise<AppointmentWithRelations[]> {
+  const appointments = await storage.getConflictingAppointments(artistId, from, to);
+  return appointments.filter((appointment) => reschedulableStatuses.includes(appointment.status ?? "scheduled"));
+}
+
+// For each booking of the artist in the period: who could take it at the same time,
+// and the artist's own next free slot once they are back
+export async function planBulkReschedule(artist: Artist, from: Date, to: Date): Promise<RescheduleProposal[]> {
+  const [affected, allArtists, { timeZone }] = await Promise.all([
+    getAffectedAppointments(artist.id, from, to),
+    storage.getArtists(),
+    storage.getStudioSettings(),
+  ]);
+  const candidates = allArtists.filter(
+    (candidate) => candidate.id !== artist.id && candidate.isActive && canCoverFor(artist, candidate),
+  );
+
+  const searchFrom = new Date(Math.max(to.getTime(), Date.now()));
+  const searchTo = new Date(searchFrom.getTime() + PROPOSAL_SEARCH_DAYS * DAY_MS);
+  // Slots already proposed to earlier bookings in the list
+  const claimed: TimeRange[] = [];
+
+  const proposals: RescheduleProposal[] = [];
+  for (const appointment of affected) {
+    const reassignOptions: RescheduleProposal["reassignOptions"] = [];
+    for (const candidate of candidates) {
+      const moved = await withBufferDefaults({ type: appointment.type, artistId: candidate.id });
+      const slotCheck = await checkAppointmentSlot({ ...appointment, ...moved }, appointment.id);
+      if (!slotCheck.ok) continue;
+      reassignOptions.push({
+        artistId: candidate.id,
+        artistName: candidate.name,
+        sharedSpecialties: getSharedSpecialties(artist, candidate),
+      });
+    }
+    reassignOptions.sort((a, b) => b.sharedSpecialties.length - a.sharedSpecialties.length);
+
+    let proposedSlot: TimeRange | null = null;
+    // Without configured hours there is nothing to propose
+    if (artist.workingHours) {
+      const buffers = resolveBuffers(appointment, artist);
+      const busy = [...(await getBusyPeriods(artist, appointment.type, searchFrom, searchTo)), ...claimed];
+      const [slot] = computeOpenSlots(
+        artist.workingHours,
+        busy,
+        searchFrom,
+        searchTo,
+        appointment.duration,
+        PROPOSAL_STEP_MINUTES,
+        timeZone,
+      );
+      if (slot) {
+        proposedSlot = slot;
+        claimed.push(getOccupiedRange(slot.start, appointment.duration, buffers));
+      }
+    }
+
+    proposals.push({ appointment, reassignOptions, proposedSlot });
+  }
+
+  return proposals;
+}
+
+function buildChangeMessage(
+  appointment: AppointmentWithRelations,
+  change: BulkRescheduleChange,
+  newArtist: Artist,
+  channel: ReminderChannel,
+  timeZone: string,
+) {
+  const when = new Date(change.action === "move" ? change.scheduledDate : appointment.scheduledDate).toLocaleString("en-US", {
+    timeZone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const summary = change.action === "move"
+    ? `${appointment.artist.name} is unavailable, so your appointment has been moved to ${when}.`
+    : `${appointment.artist.name} is unavailable, so ${newArtist.name} will look after your appointment on ${when}.`;
+
+  if (channel === "sms") {
+    return {
+      subject: "Appointment changed",
+      text: `InkFlow Studio: Hi ${appointment.client.firstName}, ${summary} Call us if this doesn't work for you.`,
+    };
+  }
+
+  return {
+    subject: "Your InkFlow appointment has changed",
+    text: [
+      `Hi ${appointment.client.firstName},`,
+      "",
+      summary,
+      `Placement: ${appointment.bodyPart}`,
+      "",
+      "We're sorry for the change. If the new arrangement doesn't work for you, get in touch with the studio and we'll find another option.",
+      "",
+      "See you soon,",
+      "InkFlow Studio",
+    ].join("\n"),
+  };
+}
+
+// A failed message must never undo the change that was already saved
+async function notifyClientOfChange(appointment: AppointmentWithRelations, change: BulkRescheduleChange, newArtist: Artist) {
+  const { timeZone } = await storage.getStudioSettings();
+  for (const channel of CLIENT_CHANNELS) {
+    const to = channel === "email" ? appointment.client.email : appointment.client.phone;
+    const transport = getNotificationTransport(channel);
+    if (!to || !transport) continue;
+    try {
+      await transport.send({ to, ...buildChangeMessage(appointment, change, newArtist, channel, timeZone) });
+    } catch (error) {
+      console.error(`Error notifying client of appointment change by ${channel}:`, error);
+    }
+  }
+}
+
+export async function applyBulkChange(artist: Artist, change: BulkRescheduleChange): Promise<BulkRescheduleResult> {
+  const failed = (message: string) => ({ appointmentId: change.appointmentId, ok: false, message });
+
+  const appointment = await storage.getAppointment(change.appointmentId);
+  if (!appointment || appointment.artistId !== artist.id) {
+    return failed("Appointment not found for this artist");
+  }
+  if (!reschedulableStatuses.includes(appointment.status ?? "scheduled")) {
+    return failed("Appointment can no longer be moved");
+  }
+
+  let newArtist = artist;
+  let updates: Partial<InsertAppointment>;
+  if (change.action === "reassign") {
+    const candidate = await storage.getArtist(change.artistId);
+    if (!candidate?.isActive || candidate.id === artist.id) {
+      return failed("Artist is not available for booking");
+    }
+    if (!canCoverFor(artist, candidate)) {
+      return failed(`${candidate.name} does not share any of ${artist.name}'s specialties`);
+    }
+    newArtist = candidate;
+    // The new artist brings their own buffers
+    updates = await withBufferDefaults({ type: appointment.type, artistId: candidate.id });
+  } else {
+    const underAge = getUnderAgeMessage(appointment.client.dateOfBirth, change.scheduledDate, await storage.getStudioSettings());
+    if (underAge) {
+      return failed(underAge);
+    }
+    updates = { scheduledDate: change.scheduledDate };
+  }
+
+  const booking = await bookSlot(
+    { ...appointment, ...updates },
+    () => storage.updateAppointment(appointment.id, updates),
+    appointment.id,
+  );
+  if (!booking.ok) {
+    return failed(booking.message);
+  }
+
+  await refreshAppointmentReminders(appointment.id);
+  await notifyClientOfChange(appointment, change, newArtist);
+  return { appointmentId: appointment.id, ok: true };
+}
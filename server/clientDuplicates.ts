@@ -0,0 +1,64 @@
+import { storage } from "./storage";
+import {
+  DUPLICATE_SCORE_THRESHOLD,
+  normalizeEmail,
+  normalizeName,
+  normalizePhone,
+  scoreDuplicate,
+} from "@shared/clientMatching";
+import { getDateOfBirthKey } from "@shared/age";
+import type { Client, DuplicateClientPair } from "@shared/schema";
+
+const MAX_PAIRS = 200;
+
+// Keys two clients must share at least one of to be compared at all, so the studio's whole
+// client list is never compared pair by pair
+function getBlockingKeys(client: Client): string[] {
+  const first = normalizeName(client.firstName);
+  const last = normalizeName(client.lastName);
+  const keys = [
+    `name:${last.slice(0, 3)}${first.slice(0, 1)}`,
+    // First and last name entered the wrong way round
+    `name:${first.slice(0, 3)}${last.slice(0, 1)}`,
+  ];
+  const email = normalizeEmail(client.email);
+  if (email) keys.push(`email:${email}`);
+  const phone = normalizePhone(client.phone);
+  if (phone) keys.push(`phone:${phone}`);
+  if (client.dateOfBirth) keys.push(`dob:${getDateOfBirthKey(client.dateOfBirth)}`);
+  return keys;
+}
+
+// Likely duplicates across all clients, surest first
+export async function findDuplicateClients(): Promise<DuplicateClientPair[]> {
+  const clients = await storage.getClients();
+
+  const blocks = new Map<string, Client[]>();
+  for (const client of clients) {
+    for (const key of Array.from(new Set(getBlockingKeys(client)))) {
+      blocks.set(key, [...(blocks.get(key) ?? []), client]);
+    }
+  }
+
+  const compared = new Set<string>();
+  const pairs: DuplicateClientPair[] = [];
+  for (const block of Array.from(blocks.values())) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        // The older record comes first; it is usually the one to keep
+        const [a, b] = [block[i], block[j]].sort(
+          (x, y) => new Date(x.createdAt ?? 0).getTime() - new Date(y.createdAt ?? 0).getTime(),
+        );
+        const pairKey = `${a.id}:${b.id}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const { score, reasons } = scoreDuplicate(a, b);
+        if (score >= DUPLICATE_SCORE_THRESHOLD) {
+          pairs.push({ clients: [a, b], score, reasons });
+        }
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.score - a.score).slice(0, MAX_PAIRS);
+}
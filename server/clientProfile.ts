@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import type { Client, ClientProfile, ClientTimelineEvent } from "@shared/schema";
+
+// Everything the studio knows about a client, newest first
+export async function getClientProfile(client: Client): Promise<ClientProfile> {
+  const [appointments, projects, sales, signatures, notes, messages, merges] = await Promise.all([
+    storage.getAppointmentsByClient(client.id),
+    storage.getProjects(client.id),
+    storage.getSalesByClient(client.id),
+    storage.getClientSignatures(client.id),
+    storage.getClientNotes(client.id),
+    storage.getSentRemindersByClient(client.id),
+    storage.getClientMerges(client.id),
+  ]);
+
+  const timeline: ClientTimelineEvent[] = [
+    ...appointments.map((appointment): ClientTimelineEvent => ({
+      kind: "appointment",
+      date: appointment.scheduledDate,
+      appointment,
+    })),
+    ...projects.map((project): ClientTimelineEvent => ({
+      kind: "project",
+      date: project.createdAt ?? new Date(0),
+      project,
+    })),
+    // Deposits are paid ahead of the session and show up on their own until a sale takes them over
+    ...appointments
+      .filter((appointment) => appointment.depositPaidAt)
+      .map((appointment): ClientTimelineEvent => ({
+        kind: "deposit",
+        date: appointment.depositPaidAt!,
+        appointmentId: appointment.id,
+        amount: appointment.depositAmount ?? "0",
+        paymentMethod: appointment.depositPaymentMethod,
+      })),
+    ...sales.map((sale): ClientTimelineEvent => ({
+      kind: "sale",
+      date: sale.saleDate ?? sale.createdAt ?? new Date(0),
+      sale,
+    })),
+    ...signatures.map((signature): ClientTimelineEvent => ({
+      kind: "signature",
+      date: signature.signedAt ?? new Date(0),
+      signature,
+    })),
+    ...notes.map((note): ClientTimelineEvent => ({
+      kind: "note",
+      date: note.createdAt ?? new Date(0),
+      note,
+    })),
+    ...messages.map((reminder): ClientTimelineEvent => ({
+      kind: "message",
+      date: reminder.sentAt ?? reminder.sendAt,
+      reminder,
+    })),
+    ...merges.map((merge): ClientTimelineEvent => ({
+      kind: "merge",
+      date: merge.mergedAt ?? new Date(0),
+      merge,
+    })),
+  ];
+  timeline.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  const totalSales = sales.reduce((total, sale) => total + Number(sale.totalAmount), 0);
+  const outstandingBalance = sales.reduce((total, sale) => total + Number(sale.remainingBalance ?? 0), 0);
+
+  return {
+    client,
+    lifetimeValue: totalSales - outstandingBalance,
+    outstandingBalance,
+    completedSessions: appointments.filter((appointment) => appointment.status === "completed").length,
+    timeline,
+  };
+}
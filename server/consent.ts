@@ -0,0 +1,63 @@
+import { storage } from "./storage";
+import type {
+  Appointment,
+  AppointmentFormStatus,
+  AppointmentType,
+  ConsentForm,
+  FormSignatureInput,
+  InsertFormSignature,
+} from "@shared/schema";
+
+export function formAppliesTo(form: ConsentForm, type: AppointmentType): boolean {
+  return form.appointmentTypes.length === 0 || form.appointmentTypes.includes(type);
+}
+
+// Active forms a new appointment of this type will need signed
+export async function getRequiredForms(type: AppointmentType): Promise<ConsentForm[]> {
+  const forms = await storage.getConsentForms();
+  return forms.filter((form) => form.isActive && formAppliesTo(form, type));
+}
+
+// Required forms with their signature, followed by anything else that was signed for the appointment
+export async function getAppointmentFormStatus(appointment: Pick<Appointment, "id" | "type">): Promise<AppointmentFormStatus[]> {
+  const [forms, signatures] = await Promise.all([
+    storage.getConsentForms(),
+    storage.getAppointmentSignatures(appointment.id),
+  ]);
+
+  const statuses: AppointmentFormStatus[] = [];
+  for (const form of forms) {
+    const required = form.isActive && formAppliesTo(form, appointment.type);
+    const signature = signatures.find((entry) => entry.formId === form.id) ?? null;
+    if (required || signature) {
+      statuses.push({ form, required, signature });
+    }
+  }
+  return statuses.sort((a, b) => Number(b.required) - Number(a.required));
+}
+
+export function buildSignature(
+  form: ConsentForm,
+  appointment: Pick<Appointment, "id" | "clientId">,
+  input: FormSignatureInput,
+  collectedBy?: string,
+): InsertFormSignature {
+  return {
+    formId: form.id,
+    clientId: appointment.clientId,
+    appointmentId: appointment.id,
+    formVersion: form.version,
+    formTitle: form.title,
+    formBody: form.body,
+    signedName: input.signedName,
+    signatureImage: input.signatureImage,
+    collectedBy,
+  };
+}
+
+// Why the session cannot start yet, if anything is left to sign
+export async function getUnsignedFormsMessage(appointment: Pick<Appointment, "id" | "type">): Promise<string | undefined> {
+  const outstanding = await storage.getOutstandingForms(appointment);
+  if (outstanding.length === 0) return undefined;
+  return `The client still needs to sign: ${outstanding.map((form) => form.title).join(", ")}`;
+}
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
@@ -12,4 +13,22 @@ if (!process.env.DATABASE_URL) {
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+const database = drizzle({ client: pool, schema });
+type Database = typeof database;
+
+const activeTransaction = new AsyncLocalStorage<Database>();
+
+// Queries made while runInTransaction is running join its transaction, and db.transaction
+// calls inside it become savepoints, so storage methods need no transaction argument
+export const db: Database = new Proxy(database, {
+  get(target, property) {
+    const scope = activeTransaction.getStore() ?? target;
+    const value = Reflect.get(scope, property, scope);
+    return typeof value === "function" ? value.bind(scope) : value;
+  },
+});
+
+export async function runInTransaction<T>(run: () => Promise<T>): Promise<T> {
+  // A transaction exposes the same query builders as the database it came from
+  return await db.transaction((tx) => activeTransaction.run(tx as unknown as Database, run));
+}
\ No newline at end of file
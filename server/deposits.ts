@@ -0,0 +1,98 @@
+import { storage } from "./storage";
+import { refreshAppointmentReminders } from "./reminders";
+import { editableDepositStatuses, getHoldExpiry, isLateCancellation } from "@shared/deposits";
+import type {
+  Appointment,
+  AppointmentDepositState,
+  AppointmentStatus,
+  InsertSale,
+  StudioSettings,
+} from "@shared/schema";
+
+// Deposit state for a new booking: any deposit holds the slot until it is paid
+export function initialDepositState(
+  depositAmount: string | null | undefined,
+  scheduledDate: Date,
+  settings: StudioSettings,
+): AppointmentDepositState {
+  if (Number(depositAmount ?? 0) > 0) {
+    return {
+      depositStatus: "pending",
+      holdExpiresAt: getHoldExpiry(scheduledDate, settings.depositHoldHours),
+    };
+  }
+  return { depositStatus: "not_required", holdExpiresAt: null };
+}
+
+// Deposit state after an edit to the required amount, or undefined once it can no longer change
+export function updatedDepositState(
+  existing: Appointment,
+  depositAmount: string | null,
+  settings: StudioSettings,
+): AppointmentDepositState | undefined {
+  if (!editableDepositStatuses.includes(existing.depositStatus)) {
+    return undefined;
+  }
+  // An existing hold keeps its original deadline
+  if (existing.depositStatus === "pending" && Number(depositAmount ?? 0) > 0) {
+    return { depositStatus: "pending", holdExpiresAt: existing.holdExpiresAt };
+  }
+  return initialDepositState(depositAmount, existing.scheduledDate, settings);
+}
+
+// Settle the deposit once an appointment is cancelled or marked as a no-show
+export async function applyDepositPolicy(appointment: Appointment, status: AppointmentStatus): Promise<void> {
+  if (status !== "cancelled" && status !== "no_show") return;
+
+  if (appointment.depositStatus === "pending") {
+    await storage.changeDepositStatus(appointment.id, "pending", "expired");
+    return;
+  }
+  if (appointment.depositStatus !== "paid") return;
+
+  const settings = await storage.getStudioSettings();
+  if (status === "no_show") {
+    if (settings.forfeitDepositOnNoShow) {
+      await storage.forfeitDeposit(appointment.id, "Deposit forfeited: no-show");
+    }
+    return;
+  }
+
+  if (settings.forfeitDepositOnLateCancel && isLateCancellation(appointment.scheduledDate, settings.lateCancellationHours)) {
+    await storage.forfeitDeposit(appointment.id, "Deposit forfeited: late cancellation");
+  } else {
+    await storage.changeDepositStatus(appointment.id, "paid", "refund_due");
+  }
+}
+
+// A paid deposit counts towards the final bill for the same appointment
+export async function carryDepositIntoSale(sale: InsertSale): Promise<{ sale: InsertSale; appointment?: Appointment }> {
+  if (!sale.appointmentId) return { sale };
+
+  const appointment = await storage.getAppointment(sale.appointmentId);
+  if (!appointment || appointment.depositStatus !== "paid") return { sale };
+
+  const total = Number(sale.totalAmount);
+  const deposit = Math.max(Number(sale.deposit ?? 0), Number(appointment.depositAmount ?? 0));
+  const remaining = Math.max(total - deposit, 0);
+  return {
+    appointment,
+    sale: {
+      ...sale,
+      deposit: deposit.toFixed(2),
+      remainingBalance: remaining.toFixed(2),
+      paymentStatus: remaining <= 0 ? "completed" : deposit > 0 ? "partial" : "pending",
+    },
+  };
+}
+
+// Background job: release slots whose deposit was not paid in time
+export async function expireUnpaidHolds(): Promise<void> {
+  const expired = await storage.getExpiredDepositHolds(new Date());
+  for (const appointment of expired) {
+    const cancelled = await storage.expireDepositHold(appointment.id, appointment.status ?? "scheduled");
+    if (cancelled) {
+      await refreshAppointmentReminders(cancelled.id);
+    }
+  }
+}
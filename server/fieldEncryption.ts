@@ -0,0 +1,88 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { sensitiveClientFields, type Client, type InsertClient, type SensitiveClientField } from "@shared/schema";
+
+// AES-256-GCM; stored values look like enc:v1:<iv>:<auth tag>:<ciphertext>, each part base64
+export const ENCRYPTED_PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const BASE64 = "[A-Za-z0-9+/]*={0,2}";
+const ENCRYPTED_PATTERN = new RegExp(`^${ENCRYPTED_PREFIX}(${BASE64}):(${BASE64}):(${BASE64})$`);
+
+if (!process.env.CLIENT_DATA_KEY) {
+  throw new Error(
+    "CLIENT_DATA_KEY must be set. Generate one with `openssl rand -base64 32`.",
+  );
+}
+
+const key = Buffer.from(process.env.CLIENT_DATA_KEY, "base64");
+if (key.length !== 32) {
+  throw new Error("CLIENT_DATA_KEY must be 32 bytes, base64 encoded");
+}
+
+// The whole shape is checked, not just the prefix, so plain text that happens to start with it is not mistaken for ciphertext
+export function isEncrypted(value: string): boolean {
+  const match = ENCRYPTED_PATTERN.exec(value);
+  return !!match &&
+    Buffer.from(match[1], "base64").length === IV_BYTES &&
+    Buffer.from(match[2], "base64").length === TAG_BYTES;
+}
+
+// Always encrypts, whatever the value looks like; it may be anything a user typed
+export function encryptField(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(":");
+}
+
+// Values written before encryption was switched on are still plain text and pass through
+export function decryptField(value: string | null): string | null {
+  if (!value || !isEncrypted(value)) return value;
+  const [iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(":").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+// Encrypts whichever sensitive fields are present, leaving absent ones out of a partial update
+export function encryptClientFields<T extends Partial<InsertClient>>(values: T): T {
+  const encrypted = { ...values };
+  for (const field of sensitiveClientFields) {
+    if (field in encrypted) {
+      encrypted[field] = encryptField(encrypted[field]) as T[typeof field];
+    }
+  }
+  return encrypted;
+}
+
+// For values saved before encryption existed; fields that are already encrypted are left alone
+export function encryptPlaintextClientFields(client: Client): Pick<Client, SensitiveClientField> {
+  const encrypted = {} as Pick<Client, SensitiveClientField>;
+  for (const field of sensitiveClientFields) {
+    const value = client[field];
+    encrypted[field] = value && !isEncrypted(value) ? encryptField(value) : value;
+  }
+  return encrypted;
+}
+
+export function decryptClientFields<T extends Client>(client: T): T {
+  const decrypted = { ...client };
+  for (const field of sensitiveClientFields) {
+    decrypted[field] = decryptField(decrypted[field]) as T[typeof field];
+  }
+  return decrypted;
+}
+
+export function redactClient<T extends Client>(client: T): T {
+  const redacted = { ...client };
+  for (const field of sensitiveClientFields) {
+    redacted[field] = null as T[typeof field];
+  }
+  return redacted;
+}
+
+export function hasSensitiveFields(client: Client): boolean {
+  return sensitiveClientFields.some((field) => !!client[field]);
+}
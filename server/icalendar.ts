@@ -0,0 +1,108 @@
+import { appointmentStatusLabels } from "@shared/appointmentStatus";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+import type { AppointmentWithRelations } from "@shared/schema";
+import { getAppointmentEnd } from "./scheduling";
+
+// RFC 5545 text escaping
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentLength = 0;
+  for (const char of line) {
+    const charLength = Buffer.byteLength(char, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = "";
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours > 0) {
+    return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  }
+  return `${mins}m`;
+}
+
+function buildEvent(appointment: AppointmentWithRelations, showArtist: boolean): string[] {
+  const status = appointment.status ?? "scheduled";
+  const start = new Date(appointment.scheduledDate);
+  const end = getAppointmentEnd(start, appointment.duration);
+  const clientName = `${appointment.client.firstName} ${appointment.client.lastName}`;
+  const summary = showArtist
+    ? `${clientName} – ${appointment.bodyPart} (${appointment.artist.name})`
+    : `${clientName} – ${appointment.bodyPart}`;
+
+  const description = [
+    `Client: ${clientName}`,
+    `Type: ${appointmentTypeLabels[appointment.type]}`,
+    showArtist ? `Artist: ${appointment.artist.name}` : null,
+    `Body part: ${appointment.bodyPart}`,
+    `Duration: ${formatDuration(appointment.duration)}`,
+    `Status: ${appointmentStatusLabels[status]}`,
+    appointment.description ? `\n${appointment.description}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const eventStatus = status === "cancelled" ? "CANCELLED" : status === "scheduled" ? "TENTATIVE" : "CONFIRMED";
+  const modified = new Date(appointment.updatedAt ?? appointment.createdAt ?? start);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${appointment.id}@inkflow`,
+    `DTSTAMP:${formatDateTime(modified)}`,
+    `LAST-MODIFIED:${formatDateTime(modified)}`,
+    // Calendar apps only pick up changes to an event when its sequence goes up
+    `SEQUENCE:${Math.floor(modified.getTime() / 1000)}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(appointment.station ? [`LOCATION:${escapeText(appointment.station.name)}`] : []),
+    `STATUS:${eventStatus}`,
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+  ];
+}
+
+export function buildCalendar(name: string, appointments: AppointmentWithRelations[], showArtist = false): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//InkFlow Studio//Appointments//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Ask subscribing clients to poll roughly hourly
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...appointments.flatMap((appointment) => buildEvent(appointment, showArtist)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,9 +1,20 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scheduleJob } from "./jobs";
+import { deliverDueReminders } from "./reminders";
+import { expireUnpaidHolds } from "./deposits";
+import { storage } from "./storage";
+import { sensitiveClientFields } from "@shared/schema";
+
+// Medical details never reach the logs, even from responses allowed to include them
+function redactSensitiveFields(key: string, value: unknown) {
+  return (sensitiveClientFields as readonly string[]).includes(key) && value ? "[redacted]" : value;
+}
 
 const app = express();
-app.use(express.json());
+// Drawn signatures arrive as PNG data URLs
+app.use(express.json({ limit: "1mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -22,7 +33,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSensitiveFields)}`;
       }
 
       if (logLine.length > 80) {
@@ -67,5 +78,15 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    scheduleJob({ name: "appointment-reminders", intervalMs: 60 * 1000, run: deliverDueReminders });
+    scheduleJob({ name: "deposit-holds", intervalMs: 60 * 1000, run: expireUnpaidHolds });
+    storage
+      .encryptPlaintextClientFields()
+      .then((count) => count > 0 && log(`encrypted sensitive fields for ${count} clients`))
+      .catch((error) => console.error("Error encrypting client fields:", error));
+    storage
+      .backfillSignatureSnapshots()
+      .then((count) => count > 0 && log(`filled in form text for ${count} earlier signatures`))
+      .catch((error) => console.error("Error backfilling signatures:", error));
   });
 })();
@@ -0,0 +1,35 @@
+import { log } from "./vite";
+
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const timers = new Map<string, ReturnType<typeof setInterval>>();
+
+// Runs a job on a fixed interval in this process. A run that is still going when the
+// next tick arrives is not overlapped; the tick is skipped instead.
+export function scheduleJob({ name, intervalMs, run }: Job): void {
+  if (timers.has(name)) {
+    throw new Error(`Job "${name}" is already scheduled`);
+  }
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await run();
+    } catch (error) {
+      console.error(`Error running job ${name}:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  timers.set(name, setInterval(tick, intervalMs));
+  log(`scheduled ${name} every ${Math.round(intervalMs / 1000)}s`, "jobs");
+  void tick();
+}
+
@@ -0,0 +1,63 @@
+import { storage } from "./storage";
+import { appointmentTypeLabels } from "@shared/appointmentTypes";
+import type { AppointmentWithRelations, KioskAppointment } from "@shared/schema";
+
+// Phone numbers are compared on their last digits so country codes and formatting do not matter
+const PHONE_MATCH_DIGITS = 10;
+const MIN_PHONE_DIGITS = 7;
+
+// A kiosk search is either a full name or a phone number; anything else matches nobody
+export function parseKioskQuery(query: string): { fullName: string } | { phoneDigits: string } | undefined {
+  if (!/[a-z]/i.test(query)) {
+    const digits = query.replace(/\D/g, "");
+    return digits.length >= MIN_PHONE_DIGITS ? { phoneDigits: digits.slice(-PHONE_MATCH_DIGITS) } : undefined;
+  }
+  const fullName = query.trim().replace(/\s+/g, " ");
+  // A single name is too easy to guess someone else by
+  return fullName.includes(" ") ? { fullName } : undefined;
+}
+
+// e.g. "j•••@gmail.com"
+export function maskEmail(email: string | null): string | null {
+  if (!email) return null;
+  const [local, domain] = email.split("@");
+  return domain ? `${local.charAt(0)}•••@${domain}` : "•••";
+}
+
+// e.g. "•••• 4567"
+export function maskPhone(phone: string | null): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= 4 ? `•••• ${digits.slice(-4)}` : "••••";
+}
+
+export async function toKioskAppointment(appointment: AppointmentWithRelations): Promise<KioskAppointment> {
+  const forms = await storage.getOutstandingForms(appointment);
+  return {
+    id: appointment.id,
+    scheduledDate: appointment.scheduledDate,
+    type: appointment.type,
+    artistName: appointment.artist.name,
+    clientFirstName: appointment.client.firstName,
+    maskedEmail: maskEmail(appointment.client.email),
+    maskedPhone: maskPhone(appointment.client.phone),
+    outstandingForms: forms.map(({ id, title, body }) => ({ id, title, body })),
+  };
+}
+
+// Lets the artist know in the app that their client has arrived
+export async function notifyArtistOfCheckIn(appointment: AppointmentWithRelations, timeZone: string): Promise<void> {
+  if (!appointment.artist.userId) return;
+
+  const time = new Date(appointment.scheduledDate).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+  await storage.createNotification({
+    userId: appointment.artist.userId,
+    title: `${appointment.client.firstName} ${appointment.client.lastName} has checked in`,
+    body: `${appointmentTypeLabels[appointment.type]} at ${time}`,
+    appointmentId: appointment.id,
+  });
+}
@@ -0,0 +1,137 @@
+import fs from "fs";
+import nodemailer from "nodemailer";
+import type { ReminderChannel } from "@shared/schema";
+
+export interface NotificationMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// A way of getting a message to a client over one channel
+export interface NotificationTransport {
+  name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+// SMS providers only need to deliver a plain text body to a phone number
+export interface SmsSender {
+  name: string;
+  sendSms(to: string, body: string): Promise<void>;
+}
+
+class SmtpTransport implements NotificationTransport {
+  name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor(private from: string) {
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+class TwilioSmsSender implements SmsSender {
+  name = "twilio";
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private fromNumber: string,
+  ) {}
+
+  async sendSms(to: string, body: string): Promise<void> {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: to, From: this.fromNumber, Body: body }),
+      },
+    );
+    if (!response.ok) {
+      throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+class SmsTransport implements NotificationTransport {
+  name: string;
+
+  constructor(private sender: SmsSender) {
+    this.name = sender.name;
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.sender.sendSms(message.to, message.text);
+  }
+}
+
+// Development sink: appends messages to NOTIFICATION_LOG_FILE, or prints them
+class LogTransport implements NotificationTransport {
+  constructor(private channel: ReminderChannel, private file?: string) {}
+
+  get name() {
+    return this.file ? "file" : "console";
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    const entry = { channel: this.channel, sentAt: new Date().toISOString(), ...message };
+    if (this.file) {
+      await fs.promises.appendFile(this.file, JSON.stringify(entry) + "\n");
+    } else {
+      console.log(`[notification:${this.channel}] to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+  }
+}
+
+function createSmsSender(): SmsSender | undefined {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env;
+  if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_FROM_NUMBER) {
+    return new TwilioSmsSender(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER);
+  }
+  return undefined;
+}
+
+function createTransport(channel: ReminderChannel): NotificationTransport | undefined {
+  if (channel === "email" && process.env.SMTP_HOST) {
+    return new SmtpTransport(process.env.SMTP_FROM || "InkFlow Studio <no-reply@inkflow.local>");
+  }
+  if (channel === "sms") {
+    const sender = createSmsSender();
+    if (sender) return new SmsTransport(sender);
+  }
+  // Outside production, unconfigured channels still "deliver" so reminders can be checked locally
+  if (process.env.NODE_ENV !== "production") {
+    return new LogTransport(channel, process.env.NOTIFICATION_LOG_FILE);
+  }
+  return undefined;
+}
+
+const transports = new Map<ReminderChannel, NotificationTransport | undefined>();
+
+// Transports are built once from the environment; undefined means the channel is switched off
+export function getNotificationTransport(channel: ReminderChannel): NotificationTransport | undefined {
+  if (!transports.has(channel)) {
+    transports.set(channel, createTransport(channel));
+  }
+  return transports.get(channel);
+}
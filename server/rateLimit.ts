@@ -0,0 +1,47 @@
+import type { RequestHandler } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+}
+
+interface Bucket {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window limiter keyed by client IP. State is per process, which is
+// enough for the single-instance deployment the public endpoints run on.
+export function rateLimit({ windowMs, max, message = "Too many requests, please try again later" }: RateLimitOptions): RequestHandler {
+  const buckets = new Map<string, Bucket>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip ?? "unknown";
+
+    // Drop expired buckets so the map does not grow without bound
+    if (buckets.size > 10000) {
+      buckets.forEach((bucket, bucketKey) => {
+        if (bucket.resetAt <= now) buckets.delete(bucketKey);
+      });
+    }
+
+    let bucket = buckets.get(key);
+    if (!bucket || bucket.resetAt <= now) {
+      bucket = { count: 0, resetAt: now + windowMs };
+      buckets.set(key, bucket);
+    }
+    bucket.count++;
+
+    res.setHeader("RateLimit-Limit", max);
+    res.setHeader("RateLimit-Remaining", Math.max(max - bucket.count, 0));
+    res.setHeader("RateLimit-Reset", Math.ceil((bucket.resetAt - now) / 1000));
+
+    if (bucket.count > max) {
+      res.setHeader("Retry-After", Math.ceil((bucket.resetAt - now) / 1000));
+      return res.status(429).json({ message });
+    }
+    next();
+  };
+}
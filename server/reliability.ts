@@ -0,0 +1,35 @@
+import { storage } from "./storage";
+import { isUnreliableClient } from "@shared/reliability";
+import type { AppointmentApprovalState, StudioSettings } from "@shared/schema";
+
+export type ReliabilityRuleOutcome = AppointmentApprovalState & { depositAmount: string };
+
+// Apply the studio's rule for clients with too many no-shows or late cancellations to a new booking;
+// a booking made by an admin counts as approved
+export async function applyReliabilityRule(
+  clientId: string | undefined,
+  depositAmount: string,
+  settings: StudioSettings,
+  bookedBy: string,
+): Promise<ReliabilityRuleOutcome> {
+  const outcome = { depositAmount, approvalRequired: false };
+  if (!clientId || settings.reliabilityThreshold <= 0) {
+    return outcome;
+  }
+
+  const [reliability] = await storage.getClientReliability(settings.lateCancellationHours, clientId);
+  if (!isUnreliableClient(reliability, settings.reliabilityThreshold)) {
+    return outcome;
+  }
+
+  if (settings.reliabilityAction === 'larger_deposit') {
+    const required = settings.reliabilityDepositAmount;
+    return { ...outcome, depositAmount: Number(depositAmount) >= Number(required) ? depositAmount : required };
+  }
+
+  const booker = await storage.getUser(bookedBy);
+  if (booker?.role === 'admin') {
+    return { ...outcome, approvalRequired: true, approvedBy: booker.id, approvedAt: new Date() };
+  }
+  return { ...outcome, approvalRequired: true };
+}
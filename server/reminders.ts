@@ -0,0 +1,173 @@
+import { storage } from "./storage";
+import { getNotificationTransport } from "./notifications";
+import type {
+  AppointmentReminder,
+  AppointmentWithRelations,
+  InsertAppointmentReminder,
+  ReminderChannel,
+} from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Reminders go out this many hours before the appointment
+const REMINDER_HOURS_BEFORE = [72, 24];
+
+const REMINDER_CHANNELS: ReminderChannel[] = ["email", "sms"];
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+function getRecipient(appointment: AppointmentWithRelations, channel: ReminderChannel): string | null {
+  return channel === "email" ? appointment.client.email : appointment.client.phone;
+}
+
+function buildReminderMessage(appointment: AppointmentWithRelations, reminder: AppointmentReminder, timeZone: string) {
+  const date = new Date(appointment.scheduledDate);
+  const when = date.toLocaleString("en-US", {
+    timeZone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const relative = reminder.hoursBefore >= 48 ? `in ${Math.round(reminder.hoursBefore / 24)} days` : "tomorrow";
+
+  if (reminder.channel === "sms") {
+    return {
+      subject: "Appointment reminder",
+      text: `InkFlow Studio: Hi ${appointment.client.firstName}, reminder of your appointment with ${appointment.artist.name} ${relative}, ${when}. Call us if you need to reschedule.`,
+    };
+  }
+
+  return {
+    subject: `Reminder: your InkFlow appointment ${relative}`,
+    text: [
+      `Hi ${appointment.client.firstName},`,
+      "",
+      `This is a reminder of your appointment with ${appointment.artist.name} on ${when}.`,
+      `Placement: ${appointment.bodyPart}`,
+      "",
+      "Please eat beforehand, stay hydrated and avoid alcohol the day before.",
+      "If you need to reschedule, get in touch with the studio as soon as possible.",
+      "",
+      "See you soon,",
+      "InkFlow Studio",
+    ].join("\n"),
+  };
+}
+
+// Bring an appointment's pending reminders in line with its current time and status.
+// Reminders already sent for the same appointment time are not sent again.
+export async function syncAppointmentReminders(appointmentId: string): Promise<void> {
+  const appointment = await storage.getAppointment(appointmentId);
+  if (!appointment) return;
+
+  const now = new Date();
+  const scheduledDate = new Date(appointment.scheduledDate);
+  if (appointment.status !== "confirmed" || scheduledDate <= now) {
+    await storage.cancelPendingReminders(appointment.id);
+    return;
+  }
+
+  const existing = await storage.getAppointmentReminders(appointment.id);
+  const keepIds: string[] = [];
+  const toCreate: InsertAppointmentReminder[] = [];
+
+  for (const hoursBefore of REMINDER_HOURS_BEFORE) {
+    const sendAt = new Date(scheduledDate.getTime() - hoursBefore * HOUR_MS);
+    for (const channel of REMINDER_CHANNELS) {
+      const match = existing.find((reminder) =>
+        reminder.channel === channel &&
+        reminder.hoursBefore === hoursBefore &&
+        reminder.status !== "cancelled" &&
+        new Date(reminder.appointmentDate).getTime() === scheduledDate.getTime()
+      );
+      if (match) {
+        if (match.status === "pending") keepIds.push(match.id);
+        continue;
+      }
+
+      // Too late for this reminder, or nothing to send it through
+      if (sendAt <= now) continue;
+      if (!getRecipient(appointment, channel) || !getNotificationTransport(channel)) continue;
+
+      toCreate.push({
+        appointmentId: appointment.id,
+        channel,
+        hoursBefore,
+        appointmentDate: scheduledDate,
+        sendAt,
+        nextAttemptAt: sendAt,
+      });
+    }
+  }
+
+  await storage.cancelPendingReminders(appointment.id, keepIds);
+  await storage.createAppointmentReminders(toCreate);
+}
+
+// For request handlers: reminder bookkeeping must never fail the change that triggered it
+export async function refreshAppointmentReminders(appointmentId: string): Promise<void> {
+  try {
+    await syncAppointmentReminders(appointmentId);
+  } catch (error) {
+    console.error("Error scheduling appointment reminders:", error);
+  }
+}
+
+async function deliverReminder(reminder: AppointmentReminder, now: Date, timeZone: string): Promise<void> {
+  const appointment = await storage.getAppointment(reminder.appointmentId);
+  if (!appointment) return;
+
+  // The appointment moved or changed status after this reminder was queued
+  const scheduledDate = new Date(appointment.scheduledDate);
+  if (
+    appointment.status !== "confirmed" ||
+    scheduledDate <= now ||
+    scheduledDate.getTime() !== new Date(reminder.appointmentDate).getTime()
+  ) {
+    await syncAppointmentReminders(appointment.id);
+    return;
+  }
+
+  const recipient = getRecipient(appointment, reminder.channel);
+  const transport = getNotificationTransport(reminder.channel);
+  if (!recipient || !transport) {
+    await storage.recordReminderAttempt(reminder.id, {
+      transport: transport?.name ?? "none",
+      recipient: recipient ?? "",
+      error: !recipient ? `Client has no ${reminder.channel === "email" ? "email address" : "phone number"}` : `No ${reminder.channel} transport configured`,
+    });
+    return;
+  }
+
+  try {
+    await transport.send({ to: recipient, ...buildReminderMessage(appointment, reminder, timeZone) });
+    await storage.recordReminderAttempt(reminder.id, { transport: transport.name, recipient });
+  } catch (error) {
+    const retryAt = new Date(now.getTime() + RETRY_DELAY_MS * (reminder.attempts + 1));
+    const canRetry = reminder.attempts + 1 < MAX_ATTEMPTS && retryAt < scheduledDate;
+    await storage.recordReminderAttempt(
+      reminder.id,
+      { transport: transport.name, recipient, error: error instanceof Error ? error.message : String(error) },
+      canRetry ? retryAt : undefined,
+    );
+  }
+}
+
+// Background job: send every reminder whose time has come
+export async function deliverDueReminders(): Promise<void> {
+  const now = new Date();
+  const due = await storage.getDueReminders(now, DELIVERY_BATCH_SIZE);
+  if (due.length === 0) return;
+
+  const { timeZone } = await storage.getStudioSettings();
+  for (const reminder of due) {
+    try {
+      await deliverReminder(reminder, now, timeZone);
+    } catch (error) {
+      console.error(`Error delivering reminder ${reminder.id}:`, error);
+    }
+  }
+}
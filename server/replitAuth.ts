@@ -155,3 +155,19 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     return;
   }
 };
+
+// Must run after isAuthenticated; roles are read fresh so changes apply without a new login
+export function requireRole(...roles: string[]): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const user = await storage.getUser((req.user as any).claims.sub);
+      if (!user || !roles.includes(user.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking user role:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
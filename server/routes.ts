@@ -1,17 +1,97 @@
 import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated, requireRole } from "./replitAuth";
+import { affectsSchedule, bookSlot, checkAppointmentSlot, findAvailableSlots, withBufferDefaults } from "./scheduling";
+import { findWaitlistCandidates } from "./waitlist";
+import { getWalkInQueue } from "./walkIns";
+import { applyBulkChange, planBulkReschedule } from "./bulkReschedule";
+import { getClientProfile } from "./clientProfile";
+import { findDuplicateClients } from "./clientDuplicates";
+import { buildSignature, getAppointmentFormStatus, getRequiredForms, getUnsignedFormsMessage } from "./consent";
+import {
+  buildGuardianConsent,
+  getClientUnderAgeMessage,
+  getGuardianConsentMessage,
+  getGuardianStatus,
+  isClientUnderAge,
+} from "./ageVerification";
+import { notifyArtistOfCheckIn, parseKioskQuery, toKioskAppointment } from "./kiosk";
+import { rateLimit } from "./rateLimit";
+import { buildCalendar } from "./icalendar";
+import { refreshAppointmentReminders } from "./reminders";
+import { applyDepositPolicy, carryDepositIntoSale, initialDepositState, updatedDepositState } from "./deposits";
+import { applyReliabilityRule } from "./reliability";
+import { decryptClientFields, hasSensitiveFields, redactClient } from "./fieldEncryption";
+import {
+  estimateTypePrice,
+  getMissingTypeField,
+  getTypeRules,
+  touchUpOriginalTypes,
+} from "@shared/appointmentTypes";
+import {
+  appointmentStatusLabels,
+  canTransition,
+  checkInStatuses,
+  getAllowedTransitions,
+  initialAppointmentStatuses,
+} from "@shared/appointmentStatus";
+import { isAwaitingApproval, statusesRequiringApproval } from "@shared/reliability";
+import { getUnderAgeMessage } from "@shared/age";
+import {
+  getZonedDayRange,
+  getZonedPeriodRange,
+  reportPeriods,
+  resolveCalendarDate,
+  type ReportPeriod,
+} from "@shared/timezone";
 import {
   insertArtistSchema,
+  insertArtistTimeOffSchema,
+  insertStationSchema,
   insertClientSchema,
+  insertClientNoteSchema,
+  mergeClientsSchema,
+  insertProjectSchema,
   insertAppointmentSchema,
+  appointmentStatusChangeSchema,
+  recordDepositSchema,
+  updateStudioSettingsSchema,
+  insertWaitlistEntrySchema,
+  bookWaitlistEntrySchema,
+  insertWalkInSchema,
+  startWalkInSchema,
+  insertConsentFormSchema,
+  updateConsentFormSchema,
+  kioskLookupSchema,
+  kioskCheckInSchema,
+  formSignatureInputSchema,
+  guardianConsentInputSchema,
+  publicBookingRequestSchema,
+  approveBookingRequestSchema,
+  declineBookingRequestSchema,
   insertInventorySchema,
   insertSaleSchema,
+  availabilityQuerySchema,
+  unavailabilityQuerySchema,
+  bulkRescheduleSchema,
+  medicalInfoRoles,
+  sensitiveClientFields,
+  type Appointment,
+  type AppointmentStatus,
+  type AppointmentWrite,
+  type InsertAppointment,
+  type WaitlistEntry,
+  type BookingRequest,
+  type PublicArtist,
+  type PublicStudio,
+  type Client,
+  type InsertClient,
 } from "@shared/schema";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import crypto from "crypto";
 
 // Setup file upload storage
 const uploadDir = path.join(process.cwd(), 'uploads');
@@ -43,6 +123,88 @@ const upload = multer({
   }
 });
 
+// Limits for the unauthenticated booking endpoints
+const publicReadLimit = rateLimit({ windowMs: 60 * 1000, max: 60 });
+const publicUploadLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  message: "Too many uploads, please try again later",
+});
+const publicSubmitLimit = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  message: "Too many booking requests, please try again later",
+});
+
+// Kiosk searches are unauthenticated, so keep guessing at names and numbers slow
+const kioskLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: 20,
+  message: "Too many attempts, please ask at the front desk",
+});
+
+// Notifications shown in the app's bell menu
+const NOTIFICATION_LIMIT = 30;
+
+// How far back subscribed calendars still see past appointments
+const CALENDAR_FEED_HISTORY_DAYS = 90;
+
+// Feed URLs are the only credential a calendar app sends, so tokens must be unguessable
+function generateFeedToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+// Forms submitted faster than a person could fill them in are treated as spam
+const MIN_FORM_FILL_MS = 5 * 1000;
+
+async function canViewMedicalInfo(userId: string): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  return !!user && medicalInfoRoles.includes(user.role);
+}
+
+// Medical details are decrypted only for roles allowed to see them, and each such view is logged
+async function presentClient(userId: string, client: Client, source: 'client' | 'profile'): Promise<Client> {
+  if (!(await canViewMedicalInfo(userId))) {
+    return redactClient(client);
+  }
+  if (hasSensitiveFields(client)) {
+    await storage.logMedicalInfoAccess({ clientId: client.id, userId, source });
+  }
+  return decryptClientFields(client);
+}
+
+async function projectBelongsToClient(projectId: string, clientId: string): Promise<boolean> {
+  const project = await storage.getProject(projectId);
+  return !!project && project.clientId === clientId;
+}
+
+// Type-specific required fields; a touch-up must follow up on one of the client's completed sessions
+async function getAppointmentTypeError(
+  appointment: Pick<InsertAppointment, "type" | "clientId" | "description" | "originalAppointmentId">,
+): Promise<string | undefined> {
+  const missing = getMissingTypeField(appointment);
+  if (missing) return missing.message;
+  if (!appointment.originalAppointmentId) return undefined;
+
+  if (appointment.type !== 'touch_up') {
+    return "Only touch-ups can reference an original appointment";
+  }
+  const original = await storage.getAppointment(appointment.originalAppointmentId);
+  if (!original || original.clientId !== appointment.clientId) {
+    return "Original appointment not found for this client";
+  }
+  if (!touchUpOriginalTypes.includes(original.type) || original.status !== 'completed') {
+    return "A touch-up must follow a completed tattoo session";
+  }
+  return undefined;
+}
+
+function illegalTransitionMessage(from: AppointmentStatus, to: AppointmentStatus): string {
+  return `Cannot change status from ${appointmentStatusLabels[from]} to ${appointmentStatusLabels[to]}`;
+}
+
+const APPROVAL_PENDING_MESSAGE = "A manager has to approve this booking before it can be confirmed";
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -77,7 +239,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Dashboard stats
   app.get('/api/dashboard/stats', isAuthenticated, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
+      const { timeZone } = await storage.getStudioSettings();
+      const stats = await storage.getDashboardStats(timeZone);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
@@ -141,6 +304,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Artist time off routes
+  app.get('/api/artists/:id/time-off', isAuthenticated, async (req, res) => {
+    try {
+      const timeOff = await storage.getArtistTimeOff(req.params.id);
+      res.json(timeOff);
+    } catch (error) {
+      console.error("Error fetching artist time off:", error);
+      res.status(500).json({ message: "Failed to fetch artist time off" });
+    }
+  });
+
+  app.post('/api/artists/:id/time-off', isAuthenticated, async (req, res) => {
+    try {
+      const validatedData = insertArtistTimeOffSchema.parse({ ...req.body, artistId: req.params.id });
+      const timeOff = await storage.createArtistTimeOff(validatedData);
+      res.status(201).json(timeOff);
+    } catch (error) {
+      console.error("Error creating artist time off:", error);
+      res.status(400).json({ message: "Failed to create artist time off" });
+    }
+  });
+
+  app.delete('/api/artists/:id/time-off/:timeOffId', isAuthenticated, async (req, res) => {
+    try {
+      await storage.deleteArtistTimeOff(req.params.id, req.params.timeOffId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting artist time off:", error);
+      res.status(500).json({ message: "Failed to delete artist time off" });
+    }
+  });
+
+  app.get('/api/artists/:id/bulk-reschedule', isAuthenticated, async (req, res) => {
+    try {
+      const parsed = unavailabilityQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid date range" });
+      }
+      const artist = await storage.getArtist(req.params.id);
+      if (!artist) {
+        return res.status(404).json({ message: "Artist not found" });
+      }
+      const proposals = await planBulkReschedule(artist, parsed.data.from, parsed.data.to);
+      res.json(proposals);
+    } catch (error) {
+      console.error("Error planning bulk reschedule:", error);
+      res.status(500).json({ message: "Failed to load affected appointments" });
+    }
+  });
+
+  app.post('/api/artists/:id/bulk-reschedule', isAuthenticated, async (req, res) => {
+    try {
+      const { changes } = bulkRescheduleSchema.parse(req.body);
+      const artist = await storage.getArtist(req.params.id);
+      if (!artist) {
+        return res.status(404).json({ message: "Artist not found" });
+      }
+      // One at a time so each change sees the bookings made by the ones before it
+      const results = [];
+      for (const change of changes) {
+        results.push(await applyBulkChange(artist, change));
+      }
+      res.json(results);
+    } catch (error) {
+      console.error("Error applying bulk reschedule:", error);
+      res.status(400).json({ message: "Failed to reschedule appointments" });
+    }
+  });
+
+  // Station routes
+  app.get('/api/stations', isAuthenticated, async (req, res) => {
+    try {
+      const stations = await storage.getStations();
+      res.json(stations);
+    } catch (error) {
+      console.error("Error fetching stations:", error);
+      res.status(500).json({ message: "Failed to fetch stations" });
+    }
+  });
+
+  app.post('/api/stations', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const validatedData = insertStationSchema.parse(req.body);
+      const station = await storage.createStation(validatedData);
+      res.status(201).json(station);
+    } catch (error) {
+      console.error("Error creating station:", error);
+      res.status(400).json({ message: "Failed to create station" });
+    }
+  });
+
+  app.patch('/api/stations/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const updates = insertStationSchema.partial().parse(req.body);
+      const station = await storage.updateStation(req.params.id, updates);
+      if (!station) {
+        return res.status(404).json({ message: "Station not found" });
+      }
+      res.json(station);
+    } catch (error) {
+      console.error("Error updating station:", error);
+      res.status(400).json({ message: "Failed to update station" });
+    }
+  });
+
+  app.delete('/api/stations/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      await storage.deleteStation(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting station:", error);
+      res.status(500).json({ message: "Failed to delete station" });
+    }
+  });
+
   // Clients routes
   app.get('/api/clients', isAuthenticated, async (req, res) => {
     try {
@@ -155,35 +433,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/clients/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/clients/reliability', isAuthenticated, async (req, res) => {
+    try {
+      const settings = await storage.getStudioSettings();
+      const reliability = await storage.getClientReliability(settings.lateCancellationHours);
+      res.json(reliability);
+    } catch (error) {
+      console.error("Error fetching client reliability:", error);
+      res.status(500).json({ message: "Failed to fetch client reliability" });
+    }
+  });
+
+  app.get('/api/clients/duplicates', isAuthenticated, async (req, res) => {
+    try {
+      const pairs = await findDuplicateClients();
+      res.json(pairs);
+    } catch (error) {
+      console.error("Error finding duplicate clients:", error);
+      res.status(500).json({ message: "Failed to find duplicate clients" });
+    }
+  });
+
+  app.post('/api/clients/merge', isAuthenticated, requireRole('admin'), async (req: any, res) => {
+    try {
+      const { survivorId, duplicateId } = mergeClientsSchema.parse(req.body);
+      const merge = await storage.mergeClients(survivorId, duplicateId, req.user.claims.sub);
+      if (!merge) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.status(201).json(merge);
+    } catch (error) {
+      console.error("Error merging clients:", error);
+      res.status(400).json({ message: "Failed to merge clients" });
+    }
+  });
+
+  app.get('/api/clients/:id', isAuthenticated, async (req: any, res) => {
     try {
       const client = await storage.getClient(req.params.id);
       if (!client) {
         return res.status(404).json({ message: "Client not found" });
       }
-      res.json(client);
+      res.json(await presentClient(req.user.claims.sub, client, 'client'));
     } catch (error) {
       console.error("Error fetching client:", error);
       res.status(500).json({ message: "Failed to fetch client" });
     }
   });
 
+  app.get('/api/clients/:id/profile', isAuthenticated, async (req: any, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      const profile = await getClientProfile(await presentClient(req.user.claims.sub, client, 'profile'));
+      res.json(profile);
+    } catch (error) {
+      console.error("Error fetching client profile:", error);
+      res.status(500).json({ message: "Failed to fetch client profile" });
+    }
+  });
+
+  app.get('/api/clients/:id/medical-access', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const entries = await storage.getMedicalInfoAccess(req.params.id);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching medical info access log:", error);
+      res.status(500).json({ message: "Failed to fetch medical info access log" });
+    }
+  });
+
+  app.post('/api/clients/:id/notes', isAuthenticated, async (req: any, res) => {
+    try {
+      const validatedData = insertClientNoteSchema.parse({ ...req.body, clientId: req.params.id });
+      const note = await storage.createClientNote(validatedData, req.user.claims.sub);
+      res.status(201).json(note);
+    } catch (error) {
+      console.error("Error creating client note:", error);
+      res.status(400).json({ message: "Failed to add note" });
+    }
+  });
+
+  app.delete('/api/clients/:id/notes/:noteId', isAuthenticated, async (req, res) => {
+    try {
+      await storage.deleteClientNote(req.params.id, req.params.noteId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting client note:", error);
+      res.status(500).json({ message: "Failed to delete note" });
+    }
+  });
+
   app.post('/api/clients', isAuthenticated, async (req, res) => {
     try {
       const validatedData = insertClientSchema.parse(req.body);
       const client = await storage.createClient(validatedData);
-      res.status(201).json(client);
+      res.status(201).json(redactClient(client));
     } catch (error) {
       console.error("Error creating client:", error);
       res.status(400).json({ message: "Failed to create client" });
     }
   });
 
-  app.patch('/api/clients/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/clients/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const updates = insertClientSchema.partial().parse(req.body);
+      const updates: Partial<InsertClient> = insertClientSchema.partial().parse(req.body);
+      // Staff who cannot see the medical details would otherwise overwrite them with the blanks they were shown
+      if (!(await canViewMedicalInfo(req.user.claims.sub))) {
+        for (const field of sensitiveClientFields) {
+          delete updates[field];
+        }
+      }
       const client = await storage.updateClient(req.params.id, updates);
-      res.json(client);
+      res.json(redactClient(client));
     } catch (error) {
       console.error("Error updating client:", error);
       res.status(400).json({ message: "Failed to update client" });
@@ -200,169 +564,1268 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Appointments routes
-  app.get('/api/appointments', isAuthenticated, async (req, res) => {
+  // Projects routes
+  app.get('/api/projects', isAuthenticated, async (req, res) => {
     try {
-      const date = req.query.date as string;
-      const artistId = req.query.artistId as string;
-      
-      let appointments;
-      if (date) {
-        appointments = await storage.getAppointmentsByDate(new Date(date));
-      } else if (artistId) {
-        appointments = await storage.getAppointmentsByArtist(artistId);
-      } else {
-        appointments = await storage.getAppointments();
-      }
-      
-      res.json(appointments);
+      const clientId = req.query.clientId as string | undefined;
+      const projects = await storage.getProjects(clientId);
+      res.json(projects);
     } catch (error) {
-      console.error("Error fetching appointments:", error);
-      res.status(500).json({ message: "Failed to fetch appointments" });
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ message: "Failed to fetch projects" });
     }
   });
 
-  app.get('/api/appointments/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/projects/:id', isAuthenticated, async (req, res) => {
     try {
-      const appointment = await storage.getAppointment(req.params.id);
-      if (!appointment) {
-        return res.status(404).json({ message: "Appointment not found" });
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
       }
-      res.json(appointment);
+      res.json(project);
     } catch (error) {
-      console.error("Error fetching appointment:", error);
-      res.status(500).json({ message: "Failed to fetch appointment" });
+      console.error("Error fetching project:", error);
+      res.status(500).json({ message: "Failed to fetch project" });
     }
   });
 
-  app.post('/api/appointments', isAuthenticated, async (req, res) => {
+  app.post('/api/projects', isAuthenticated, async (req, res) => {
     try {
-      const validatedData = insertAppointmentSchema.parse(req.body);
-      const appointment = await storage.createAppointment(validatedData);
-      res.status(201).json(appointment);
+      const validatedData = insertProjectSchema.parse(req.body);
+      const project = await storage.createProject(validatedData);
+      res.status(201).json(project);
     } catch (error) {
-      console.error("Error creating appointment:", error);
-      res.status(400).json({ message: "Failed to create appointment" });
+      console.error("Error creating project:", error);
+      res.status(400).json({ message: "Failed to create project" });
     }
   });
 
-  app.patch('/api/appointments/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/projects/:id', isAuthenticated, async (req, res) => {
     try {
-      const updates = insertAppointmentSchema.partial().parse(req.body);
-      const appointment = await storage.updateAppointment(req.params.id, updates);
-      res.json(appointment);
+      const updates = insertProjectSchema.partial().parse(req.body);
+      const project = await storage.updateProject(req.params.id, updates);
+      res.json(project);
     } catch (error) {
-      console.error("Error updating appointment:", error);
-      res.status(400).json({ message: "Failed to update appointment" });
+      console.error("Error updating project:", error);
+      res.status(400).json({ message: "Failed to update project" });
     }
   });
 
-  app.delete('/api/appointments/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/projects/:id', isAuthenticated, async (req, res) => {
     try {
-      await storage.deleteAppointment(req.params.id);
+      await storage.deleteProject(req.params.id);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting appointment:", error);
-      res.status(500).json({ message: "Failed to delete appointment" });
+      console.error("Error deleting project:", error);
+      res.status(500).json({ message: "Failed to delete project" });
     }
   });
 
-  // Inventory routes
-  app.get('/api/inventory', isAuthenticated, async (req, res) => {
+  // Availability routes
+  app.get('/api/availability', isAuthenticated, async (req, res) => {
     try {
-      const lowStock = req.query.lowStock === 'true';
-      const inventory = lowStock 
-        ? await storage.getLowStockItems()
-        : await storage.getInventory();
-      res.json(inventory);
+      const parsed = availabilityQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid availability query" });
+      }
+      const slots = await findAvailableSlots(parsed.data);
+      res.json(slots);
     } catch (error) {
-      console.error("Error fetching inventory:", error);
-      res.status(500).json({ message: "Failed to fetch inventory" });
+      console.error("Error fetching availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
     }
   });
 
-  app.get('/api/inventory/:id', isAuthenticated, async (req, res) => {
+  // Public booking routes (no authentication)
+  app.get('/api/public/studio', publicReadLimit, async (req, res) => {
     try {
-      const item = await storage.getInventoryItem(req.params.id);
-      if (!item) {
-        return res.status(404).json({ message: "Inventory item not found" });
+      const { timeZone, minimumAge, minorPolicy } = await storage.getStudioSettings();
+      const studio: PublicStudio = { timeZone, minimumAge, minorPolicy };
+      res.json(studio);
+    } catch (error) {
+      console.error("Error fetching public studio info:", error);
+      res.status(500).json({ message: "Failed to fetch studio info" });
+    }
+  });
+
+  app.get('/api/public/artists', publicReadLimit, async (req, res) => {
+    try {
+      const artists = await storage.getArtists();
+      const bookable: PublicArtist[] = artists
+        .filter((artist) => artist.isActive && artist.workingHours)
+        .map(({ id, name, specialties }) => ({ id, name, specialties }));
+      res.json(bookable);
+    } catch (error) {
+      console.error("Error fetching public artists:", error);
+      res.status(500).json({ message: "Failed to fetch artists" });
+    }
+  });
+
+  app.get('/api/public/availability', publicReadLimit, async (req, res) => {
+    try {
+      const parsed = availabilityQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid availability query" });
       }
-      res.json(item);
+      if (parsed.data.artistId) {
+        const artist = await storage.getArtist(parsed.data.artistId);
+        if (!artist?.isActive) {
+          return res.status(404).json({ message: "Artist not found" });
+        }
+      }
+      const slots = await findAvailableSlots({ ...parsed.data, limit: Math.min(parsed.data.limit, 100) });
+      res.json(slots);
     } catch (error) {
-      console.error("Error fetching inventory item:", error);
-      res.status(500).json({ message: "Failed to fetch inventory item" });
+      console.error("Error fetching public availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
     }
   });
 
-  app.post('/api/inventory', isAuthenticated, async (req, res) => {
+  app.post('/api/public/upload', publicUploadLimit, upload.array('files', 5), (req, res) => {
     try {
-      const validatedData = insertInventorySchema.parse(req.body);
-      const item = await storage.createInventoryItem(validatedData);
-      res.status(201).json(item);
+      const files = req.files as Express.Multer.File[];
+      const fileUrls = files.map(file => `/uploads/${file.filename}`);
+      res.json({ urls: fileUrls });
     } catch (error) {
-      console.error("Error creating inventory item:", error);
-      res.status(400).json({ message: "Failed to create inventory item" });
+      console.error("Public file upload error:", error);
+      res.status(500).json({ message: "File upload failed" });
     }
   });
 
-  app.patch('/api/inventory/:id', isAuthenticated, async (req, res) => {
+  app.post('/api/public/booking-requests', publicSubmitLimit, async (req, res) => {
     try {
-      const updates = insertInventorySchema.partial().parse(req.body);
-      const item = await storage.updateInventoryItem(req.params.id, updates);
-      res.json(item);
+      const { website, formStartedAt, ...request } = publicBookingRequestSchema.parse(req.body);
+
+      // Bots get the same response as people so they have nothing to tune against
+      if (website || Date.now() - formStartedAt < MIN_FORM_FILL_MS) {
+        return res.status(201).json({ received: true });
+      }
+
+      const artist = await storage.getArtist(request.artistId);
+      if (!artist?.isActive) {
+        return res.status(400).json({ message: "This artist is not taking bookings" });
+      }
+      const settings = await storage.getStudioSettings();
+      if (getUnderAgeMessage(request.dateOfBirth, request.requestedDate, settings)) {
+        return res.status(400).json({
+          message: `Sorry, we only book clients who are ${settings.minimumAge} or over on the day of their appointment`,
+        });
+      }
+      const slotCheck = await checkAppointmentSlot({
+        artistId: request.artistId,
+        scheduledDate: request.requestedDate,
+        duration: request.duration,
+        status: 'scheduled',
+      });
+      if (!slotCheck.ok || request.requestedDate <= new Date()) {
+        return res.status(409).json({ message: "That time is no longer available, please pick another slot" });
+      }
+
+      await storage.createBookingRequest({ ...request, ipAddress: req.ip });
+      res.status(201).json({ received: true });
     } catch (error) {
-      console.error("Error updating inventory item:", error);
-      res.status(400).json({ message: "Failed to update inventory item" });
+      console.error("Error creating booking request:", error);
+      res.status(400).json({ message: "Failed to submit booking request" });
     }
   });
 
-  app.delete('/api/inventory/:id', isAuthenticated, async (req, res) => {
+  // Booking request review routes
+  app.get('/api/booking-requests', isAuthenticated, async (req, res) => {
     try {
-      await storage.deleteInventoryItem(req.params.id);
-      res.status(204).send();
+      const status = req.query.status as BookingRequest["status"] | undefined;
+      const requests = await storage.getBookingRequests(status);
+      res.json(requests);
     } catch (error) {
-      console.error("Error deleting inventory item:", error);
-      res.status(500).json({ message: "Failed to delete inventory item" });
+      console.error("Error fetching booking requests:", error);
+      res.status(500).json({ message: "Failed to fetch booking requests" });
     }
   });
 
-  // Sales routes
-  app.get('/api/sales', isAuthenticated, async (req, res) => {
+  app.post('/api/booking-requests/:id/approve', isAuthenticated, async (req: any, res) => {
     try {
-      const startDate = req.query.startDate as string;
-      const endDate = req.query.endDate as string;
-      
-      let sales;
-      if (startDate && endDate) {
-        sales = await storage.getSalesByDateRange(new Date(startDate), new Date(endDate));
-      } else {
-        sales = await storage.getSales();
+      const { clientId } = approveBookingRequestSchema.parse(req.body);
+      const request = await storage.getBookingRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Booking request not found" });
       }
-      
-      res.json(sales);
+      if (request.status !== 'pending') {
+        return res.status(409).json({ message: "Booking request has already been reviewed" });
+      }
+      if (clientId && !(await storage.getClient(clientId))) {
+        return res.status(400).json({ message: "Client not found" });
+      }
+
+      // Link to an existing client where possible; client emails are unique
+      const existingClientId = clientId ?? request.matchingClient?.id;
+
+      const settings = await storage.getStudioSettings();
+      const existingClient = existingClientId ? await storage.getClient(existingClientId) : undefined;
+      const underAge = getUnderAgeMessage(
+        existingClient?.dateOfBirth ?? request.dateOfBirth,
+        request.requestedDate,
+        settings,
+      );
+      if (underAge) {
+        return res.status(409).json({ message: underAge });
+      }
+      const { depositAmount, ...approval } = await applyReliabilityRule(
+        existingClientId,
+        settings.defaultDepositAmount,
+        settings,
+        req.user.claims.sub,
+      );
+      const appointmentData = await withBufferDefaults({
+        artistId: request.artistId,
+        scheduledDate: request.requestedDate,
+        duration: request.duration,
+        bodyPart: request.bodyPart,
+        description: request.description,
+        referenceImages: request.referenceImages,
+        status: 'scheduled' as const,
+        depositAmount,
+        ...initialDepositState(depositAmount, request.requestedDate, settings),
+        ...approval,
+      });
+      const client = existingClientId
+        ? { id: existingClientId }
+        : {
+            firstName: request.firstName,
+            lastName: request.lastName,
+            email: request.email,
+            phone: request.phone,
+            dateOfBirth: request.dateOfBirth,
+          };
+      const booking = await bookSlot(appointmentData, () =>
+        storage.approveBookingRequest(request.id, client, appointmentData, req.user.claims.sub),
+      );
+      if (!booking.ok) {
+        const { ok, ...details } = booking;
+        return res.status(409).json(details);
+      }
+      const appointment = booking.result;
+      if (!appointment) {
+        return res.status(409).json({ message: "Booking request has already been reviewed" });
+      }
+      res.status(201).json(appointment);
     } catch (error) {
-      console.error("Error fetching sales:", error);
-      res.status(500).json({ message: "Failed to fetch sales" });
+      console.error("Error approving booking request:", error);
+      res.status(400).json({ message: "Failed to approve booking request" });
     }
   });
 
-  app.get('/api/sales/:id', isAuthenticated, async (req, res) => {
+  app.post('/api/booking-requests/:id/decline', isAuthenticated, async (req: any, res) => {
     try {
-      const sale = await storage.getSale(req.params.id);
-      if (!sale) {
-        return res.status(404).json({ message: "Sale not found" });
+      const { reason } = declineBookingRequestSchema.parse(req.body);
+      const request = await storage.declineBookingRequest(req.params.id, req.user.claims.sub, reason);
+      if (!request) {
+        return res.status(409).json({ message: "Booking request has already been reviewed" });
       }
-      res.json(sale);
+      res.json(request);
     } catch (error) {
-      console.error("Error fetching sale:", error);
-      res.status(500).json({ message: "Failed to fetch sale" });
+      console.error("Error declining booking request:", error);
+      res.status(400).json({ message: "Failed to decline booking request" });
     }
   });
 
-  app.post('/api/sales', isAuthenticated, async (req, res) => {
+  // Appointments routes
+  app.get('/api/appointments', isAuthenticated, async (req, res) => {
     try {
-      const validatedData = insertSaleSchema.parse(req.body);
-      const sale = await storage.createSale(validatedData);
+      const date = req.query.date as string;
+      const artistId = req.query.artistId as string;
+      const start = req.query.start as string;
+      const end = req.query.end as string;
+      
+      let appointments;
+      if (start && end) {
+        appointments = await storage.getAppointmentsInRange(new Date(start), new Date(end));
+      } else if (date) {
+        const { timeZone } = await storage.getStudioSettings();
+        appointments = await storage.getAppointmentsByDate(resolveCalendarDate(date, timeZone), timeZone);
+      } else if (artistId) {
+        appointments = await storage.getAppointmentsByArtist(artistId);
+      } else {
+        appointments = await storage.getAppointments();
+      }
+      
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error fetching appointments:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
+
+  app.get('/api/appointments/unsigned-forms', isAuthenticated, async (req, res) => {
+    try {
+      const counts = await storage.getUnsignedFormCounts();
+      res.json(counts);
+    } catch (error) {
+      console.error("Error fetching unsigned form counts:", error);
+      res.status(500).json({ message: "Failed to fetch unsigned forms" });
+    }
+  });
+
+  app.get('/api/appointments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error fetching appointment:", error);
+      res.status(500).json({ message: "Failed to fetch appointment" });
+    }
+  });
+
+  app.post('/api/appointments', isAuthenticated, async (req: any, res) => {
+    try {
+      const validatedData = await withBufferDefaults(insertAppointmentSchema.parse(req.body));
+      if (!initialAppointmentStatuses.includes(validatedData.status ?? 'scheduled')) {
+        return res.status(400).json({ message: "New appointments must be scheduled or confirmed" });
+      }
+      if (validatedData.projectId && !(await projectBelongsToClient(validatedData.projectId, validatedData.clientId))) {
+        return res.status(400).json({ message: "Project does not belong to this client" });
+      }
+      const typeError = await getAppointmentTypeError(validatedData);
+      if (typeError) {
+        return res.status(400).json({ message: typeError });
+      }
+      const settings = await storage.getStudioSettings();
+      const underAge = await getClientUnderAgeMessage(validatedData.clientId, validatedData.scheduledDate, settings);
+      if (underAge) {
+        return res.status(409).json({ message: underAge });
+      }
+      const rules = getTypeRules(validatedData.type);
+      const { depositAmount, ...approval } = await applyReliabilityRule(
+        validatedData.clientId,
+        validatedData.depositAmount ?? (rules.takesDeposit ? settings.defaultDepositAmount : '0'),
+        settings,
+        req.user.claims.sub,
+      );
+      const estimatedPrice = validatedData.estimatedPrice ?? estimateTypePrice(
+        validatedData.type,
+        validatedData.duration,
+        (await storage.getArtist(validatedData.artistId))?.hourlyRate,
+      );
+      const booking = await bookSlot(validatedData, () =>
+        storage.createAppointment(
+          {
+            ...validatedData,
+            // A booking waiting for approval cannot start out confirmed
+            status: isAwaitingApproval(approval) ? 'scheduled' : validatedData.status,
+            estimatedPrice,
+            depositAmount,
+            ...initialDepositState(depositAmount, validatedData.scheduledDate, settings),
+            ...approval,
+          },
+          req.user.claims.sub,
+        ),
+      );
+      if (!booking.ok) {
+        const { ok, ...details } = booking;
+        return res.status(409).json(details);
+      }
+      const appointment = booking.result;
+      await refreshAppointmentReminders(appointment.id);
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error("Error creating appointment:", error);
+      res.status(400).json({ message: "Failed to create appointment" });
+    }
+  });
+
+  app.patch('/api/appointments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { status, ...updates } = insertAppointmentSchema.partial().parse(req.body);
+      const existing = await storage.getAppointment(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const currentStatus = existing.status ?? 'scheduled';
+      const statusChanged = !!status && status !== currentStatus;
+      if (statusChanged && !canTransition(currentStatus, status)) {
+        return res.status(400).json({ message: illegalTransitionMessage(currentStatus, status) });
+      }
+      if (statusChanged && isAwaitingApproval(existing) && statusesRequiringApproval.includes(status)) {
+        return res.status(409).json({ message: APPROVAL_PENDING_MESSAGE });
+      }
+      const settings = await storage.getStudioSettings();
+      if (statusChanged && status === 'in_progress') {
+        const unsigned = await getUnsignedFormsMessage({ ...existing, ...updates })
+          ?? await getGuardianConsentMessage({ ...existing, ...updates }, settings);
+        if (unsigned) {
+          return res.status(409).json({ message: unsigned });
+        }
+      }
+      if (updates.clientId || updates.scheduledDate) {
+        const underAge = await getClientUnderAgeMessage(
+          updates.clientId ?? existing.clientId,
+          updates.scheduledDate ?? existing.scheduledDate,
+          settings,
+        );
+        if (underAge) {
+          return res.status(409).json({ message: underAge });
+        }
+      }
+      const projectId = updates.projectId === undefined ? existing.projectId : updates.projectId;
+      if (projectId && !(await projectBelongsToClient(projectId, updates.clientId ?? existing.clientId))) {
+        return res.status(400).json({ message: "Project does not belong to this client" });
+      }
+      if (['type', 'clientId', 'description', 'originalAppointmentId'].some((field) => field in updates)) {
+        const typeError = await getAppointmentTypeError({ ...existing, ...updates });
+        if (typeError) {
+          return res.status(400).json({ message: typeError });
+        }
+      }
+      // The same rule as booking, so a flagged client's larger deposit cannot be lowered afterwards
+      if (updates.depositAmount !== undefined) {
+        const { depositAmount } = await applyReliabilityRule(
+          updates.clientId ?? existing.clientId,
+          updates.depositAmount ?? '0',
+          settings,
+          req.user.claims.sub,
+        );
+        updates.depositAmount = depositAmount;
+      }
+      let depositState = {};
+      if (updates.depositAmount !== undefined && Number(updates.depositAmount ?? 0) !== Number(existing.depositAmount ?? 0)) {
+        const updated = updatedDepositState(existing, updates.depositAmount, settings);
+        if (!updated) {
+          return res.status(409).json({ message: "The deposit has already been paid and can no longer be changed" });
+        }
+        depositState = updated;
+      }
+      // A different artist brings their own buffers unless they were given explicitly
+      if (updates.artistId && updates.artistId !== existing.artistId) {
+        Object.assign(updates, await withBufferDefaults({ ...updates, artistId: updates.artistId }));
+      }
+      // The edits and the status change are saved together or not at all
+      const save = () => statusChanged
+        ? storage.updateAppointmentWithStatus(existing.id, { ...updates, ...depositState }, currentStatus, status, req.user.claims.sub)
+        : storage.updateAppointment(existing.id, { ...updates, ...depositState });
+      let appointment: Appointment | undefined;
+      if (affectsSchedule(updates)) {
+        const booking = await bookSlot({ ...existing, ...updates }, save, existing.id);
+        if (!booking.ok) {
+          const { ok, ...details } = booking;
+          return res.status(409).json(details);
+        }
+        appointment = booking.result;
+      } else {
+        appointment = await save();
+      }
+      if (!appointment) {
+        return res.status(409).json({ message: "Appointment status was changed by someone else" });
+      }
+      if (statusChanged) {
+        await applyDepositPolicy(appointment, status);
+      }
+      await refreshAppointmentReminders(appointment.id);
+      if (statusChanged && status === 'checked_in') {
+        // Reloaded so the message names the artist and client after this edit
+        const checkedIn = await storage.getAppointment(appointment.id);
+        if (checkedIn) {
+          await notifyArtistOfCheckIn(checkedIn, settings.timeZone);
+        }
+      }
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error updating appointment:", error);
+      res.status(400).json({ message: "Failed to update appointment" });
+    }
+  });
+
+  app.post('/api/appointments/:id/status', isAuthenticated, async (req: any, res) => {
+    try {
+      const { status, reason } = appointmentStatusChangeSchema.parse(req.body);
+      const existing = await storage.getAppointment(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const currentStatus = existing.status ?? 'scheduled';
+      if (!canTransition(currentStatus, status)) {
+        return res.status(400).json({
+          message: illegalTransitionMessage(currentStatus, status),
+          allowed: getAllowedTransitions(currentStatus),
+        });
+      }
+      if (isAwaitingApproval(existing) && statusesRequiringApproval.includes(status)) {
+        return res.status(409).json({ message: APPROVAL_PENDING_MESSAGE });
+      }
+      if (status === 'in_progress') {
+        const unsigned = await getUnsignedFormsMessage(existing)
+          ?? await getGuardianConsentMessage(existing, await storage.getStudioSettings());
+        if (unsigned) {
+          return res.status(409).json({ message: unsigned });
+        }
+      }
+      const appointment = await storage.changeAppointmentStatus(existing.id, currentStatus, status, req.user.claims.sub, reason);
+      if (!appointment) {
+        return res.status(409).json({ message: "Appointment status was changed by someone else" });
+      }
+      await applyDepositPolicy(appointment, status);
+      await refreshAppointmentReminders(appointment.id);
+      if (status === 'checked_in') {
+        const { timeZone } = await storage.getStudioSettings();
+        await notifyArtistOfCheckIn(existing, timeZone);
+      }
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error changing appointment status:", error);
+      res.status(400).json({ message: "Failed to change appointment status" });
+    }
+  });
+
+  app.post('/api/appointments/:id/approve', isAuthenticated, requireRole('admin'), async (req: any, res) => {
+    try {
+      const appointment = await storage.approveAppointment(req.params.id, req.user.claims.sub);
+      if (!appointment) {
+        return res.status(409).json({ message: "Appointment is not waiting for approval" });
+      }
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error approving appointment:", error);
+      res.status(500).json({ message: "Failed to approve appointment" });
+    }
+  });
+
+  app.get('/api/appointments/:id/status-history', isAuthenticated, async (req, res) => {
+    try {
+      const history = await storage.getAppointmentStatusHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching status history:", error);
+      res.status(500).json({ message: "Failed to fetch status history" });
+    }
+  });
+
+  app.post('/api/appointments/:id/deposit', isAuthenticated, async (req, res) => {
+    try {
+      const { paymentMethod } = recordDepositSchema.parse(req.body);
+      const appointment = await storage.recordDepositPayment(req.params.id, paymentMethod);
+      if (!appointment) {
+        return res.status(409).json({ message: "This appointment has no deposit waiting to be paid" });
+      }
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error recording deposit:", error);
+      res.status(400).json({ message: "Failed to record deposit" });
+    }
+  });
+
+  app.post('/api/appointments/:id/deposit/refund', isAuthenticated, async (req, res) => {
+    try {
+      const appointment = await storage.changeDepositStatus(req.params.id, 'refund_due', 'refunded');
+      if (!appointment) {
+        return res.status(409).json({ message: "This appointment has no deposit waiting to be refunded" });
+      }
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error refunding deposit:", error);
+      res.status(500).json({ message: "Failed to record deposit refund" });
+    }
+  });
+
+  app.get('/api/appointments/:id/forms', isAuthenticated, async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const forms = await getAppointmentFormStatus(appointment);
+      res.json(forms);
+    } catch (error) {
+      console.error("Error fetching appointment forms:", error);
+      res.status(500).json({ message: "Failed to fetch appointment forms" });
+    }
+  });
+
+  app.post('/api/appointments/:id/signatures', isAuthenticated, async (req: any, res) => {
+    try {
+      const input = formSignatureInputSchema.parse(req.body);
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const form = await storage.getConsentForm(input.formId);
+      if (!form?.isActive) {
+        return res.status(404).json({ message: "Consent form not found" });
+      }
+      const signature = await storage.createFormSignature(
+        buildSignature(form, appointment, input, req.user.claims.sub),
+      );
+      if (!signature) {
+        return res.status(409).json({ message: "This form has already been signed for the appointment" });
+      }
+      res.status(201).json(signature);
+    } catch (error) {
+      console.error("Error signing consent form:", error);
+      res.status(400).json({ message: "Failed to save signature" });
+    }
+  });
+
+  app.get('/api/appointments/:id/guardian-consent', isAuthenticated, async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const status = await getGuardianStatus(appointment, await storage.getStudioSettings());
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching guardian consent:", error);
+      res.status(500).json({ message: "Failed to fetch guardian consent" });
+    }
+  });
+
+  app.post('/api/appointments/:id/guardian-consent', isAuthenticated, async (req: any, res) => {
+    try {
+      const input = guardianConsentInputSchema.parse(req.body);
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const settings = await storage.getStudioSettings();
+      if (settings.minorPolicy !== 'guardian_consent') {
+        return res.status(409).json({ message: "The studio does not book under-age clients with guardian consent" });
+      }
+      const { required } = await getGuardianStatus(appointment, settings);
+      if (!required) {
+        return res.status(409).json({ message: "This client does not need guardian consent" });
+      }
+      const clientName = `${appointment.client.firstName} ${appointment.client.lastName}`;
+      const consent = await storage.createGuardianConsent(
+        buildGuardianConsent(appointment, clientName, input, settings, req.user.claims.sub),
+      );
+      if (!consent) {
+        return res.status(409).json({ message: "A guardian has already consented for this appointment" });
+      }
+      res.status(201).json(consent);
+    } catch (error) {
+      console.error("Error saving guardian consent:", error);
+      res.status(400).json({ message: "Failed to save guardian consent" });
+    }
+  });
+
+  app.get('/api/appointments/:id/reminders', isAuthenticated, async (req, res) => {
+    try {
+      const reminders = await storage.getAppointmentReminders(req.params.id);
+      res.json(reminders);
+    } catch (error) {
+      console.error("Error fetching appointment reminders:", error);
+      res.status(500).json({ message: "Failed to fetch appointment reminders" });
+    }
+  });
+
+  app.delete('/api/appointments/:id', isAuthenticated, async (req, res) => {
+    try {
+      await storage.deleteAppointment(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting appointment:", error);
+      res.status(500).json({ message: "Failed to delete appointment" });
+    }
+  });
+
+  app.get('/api/appointments/:id/waitlist-candidates', isAuthenticated, async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const candidates = await findWaitlistCandidates(appointment);
+      res.json(candidates);
+    } catch (error) {
+      console.error("Error fetching waitlist candidates:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist candidates" });
+    }
+  });
+
+  // Waitlist routes
+  app.get('/api/waitlist', isAuthenticated, async (req, res) => {
+    try {
+      const status = req.query.status as WaitlistEntry["status"] | undefined;
+      const entries = await storage.getWaitlistEntries(status);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  app.post('/api/waitlist', isAuthenticated, async (req, res) => {
+    try {
+      const validatedData = insertWaitlistEntrySchema.parse(req.body);
+      if (validatedData.projectId && !(await projectBelongsToClient(validatedData.projectId, validatedData.clientId))) {
+        return res.status(400).json({ message: "Project does not belong to this client" });
+      }
+      const entry = await storage.createWaitlistEntry(validatedData);
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error creating waitlist entry:", error);
+      res.status(400).json({ message: "Failed to create waitlist entry" });
+    }
+  });
+
+  app.delete('/api/waitlist/:id', isAuthenticated, async (req, res) => {
+    try {
+      await storage.deleteWaitlistEntry(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting waitlist entry:", error);
+      res.status(500).json({ message: "Failed to delete waitlist entry" });
+    }
+  });
+
+  app.post('/api/waitlist/:id/book', isAuthenticated, async (req: any, res) => {
+    try {
+      const { scheduledDate } = bookWaitlistEntrySchema.parse(req.body);
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      if (entry.status !== 'waiting') {
+        return res.status(409).json({ message: "Waitlist entry has already been booked" });
+      }
+      const settings = await storage.getStudioSettings();
+      const underAge = await getClientUnderAgeMessage(entry.clientId, scheduledDate, settings);
+      if (underAge) {
+        return res.status(409).json({ message: underAge });
+      }
+      const { depositAmount, ...approval } = await applyReliabilityRule(
+        entry.clientId,
+        settings.defaultDepositAmount,
+        settings,
+        req.user.claims.sub,
+      );
+      const appointmentData: AppointmentWrite = await withBufferDefaults({
+        clientId: entry.clientId,
+        artistId: entry.artistId,
+        projectId: entry.projectId,
+        scheduledDate,
+        duration: entry.duration,
+        bodyPart: entry.bodyPart,
+        description: entry.notes,
+        status: 'scheduled',
+        depositAmount,
+        ...initialDepositState(depositAmount, scheduledDate, settings),
+        ...approval,
+      });
+      const booking = await bookSlot(appointmentData, () =>
+        storage.bookWaitlistEntry(entry.id, appointmentData, req.user.claims.sub),
+      );
+      if (!booking.ok) {
+        const { ok, ...details } = booking;
+        return res.status(409).json(details);
+      }
+      const appointment = booking.result;
+      if (!appointment) {
+        return res.status(409).json({ message: "Waitlist entry has already been booked" });
+      }
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error("Error booking waitlist entry:", error);
+      res.status(400).json({ message: "Failed to book waitlist entry" });
+    }
+  });
+
+  // Walk-in routes
+  app.get('/api/walk-ins', isAuthenticated, async (req, res) => {
+    try {
+      const queue = await getWalkInQueue();
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching walk-in queue:", error);
+      res.status(500).json({ message: "Failed to fetch walk-in queue" });
+    }
+  });
+
+  app.post('/api/walk-ins', isAuthenticated, async (req, res) => {
+    try {
+      const validatedData = insertWalkInSchema.parse(req.body);
+      const missing = getMissingTypeField({ ...validatedData, originalAppointmentId: null });
+      if (missing) {
+        return res.status(400).json({ message: missing.message });
+      }
+      const walkIn = await storage.createWalkIn(validatedData);
+      res.status(201).json(walkIn);
+    } catch (error) {
+      console.error("Error creating walk-in:", error);
+      res.status(400).json({ message: "Failed to add walk-in" });
+    }
+  });
+
+  app.delete('/api/walk-ins/:id', isAuthenticated, async (req, res) => {
+    try {
+      await storage.deleteWalkIn(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting walk-in:", error);
+      res.status(500).json({ message: "Failed to remove walk-in" });
+    }
+  });
+
+  // An artist picks the walk-in up: the session starts right away
+  app.post('/api/walk-ins/:id/start', isAuthenticated, async (req: any, res) => {
+    try {
+      const { artistId, stationId } = startWalkInSchema.parse(req.body);
+      const walkIn = await storage.getWalkIn(req.params.id);
+      if (!walkIn) {
+        return res.status(404).json({ message: "Walk-in not found" });
+      }
+      if (walkIn.status !== 'waiting') {
+        return res.status(409).json({ message: "Walk-in has already been picked up" });
+      }
+      const settings = await storage.getStudioSettings();
+      const scheduledDate = new Date();
+      scheduledDate.setSeconds(0, 0);
+      const underAge = await getClientUnderAgeMessage(walkIn.clientId, scheduledDate, settings);
+      if (underAge) {
+        return res.status(409).json({ message: underAge });
+      }
+      // The session cannot start before its forms are signed, so it waits as checked in
+      const formsRequired = (await getRequiredForms(walkIn.type)).length > 0
+        || await isClientUnderAge(walkIn.clientId, scheduledDate, settings);
+      const appointmentData: AppointmentWrite = await withBufferDefaults({
+        clientId: walkIn.clientId,
+        artistId,
+        stationId: stationId ?? null,
+        type: walkIn.type,
+        scheduledDate,
+        duration: walkIn.duration,
+        bodyPart: walkIn.bodyPart,
+        description: walkIn.description,
+        notes: walkIn.notes,
+        status: formsRequired ? 'checked_in' : 'in_progress',
+        estimatedPrice: estimateTypePrice(walkIn.type, walkIn.duration, (await storage.getArtist(artistId))?.hourlyRate),
+        depositAmount: '0',
+        ...initialDepositState('0', scheduledDate, settings),
+      });
+      const booking = await bookSlot(appointmentData, () =>
+        storage.startWalkIn(walkIn.id, appointmentData, req.user.claims.sub),
+      );
+      if (!booking.ok) {
+        const { ok, ...details } = booking;
+        return res.status(409).json(details);
+      }
+      const appointment = booking.result;
+      if (!appointment) {
+        return res.status(409).json({ message: "Walk-in has already been picked up" });
+      }
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error("Error starting walk-in:", error);
+      res.status(400).json({ message: "Failed to start walk-in" });
+    }
+  });
+
+  // Calendar feed routes
+  app.get('/api/calendar/:token.ics', publicReadLimit, async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      if (!feed) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      let name = "InkFlow Studio";
+      let appointments;
+      if (feed.artistId) {
+        const artist = await storage.getArtist(feed.artistId);
+        if (!artist) {
+          return res.status(404).json({ message: "Calendar feed not found" });
+        }
+        name = `${artist.name} – InkFlow`;
+        appointments = await storage.getAppointmentsByArtist(feed.artistId);
+      } else {
+        appointments = await storage.getAppointments();
+      }
+
+      const since = Date.now() - CALENDAR_FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+      const recent = appointments.filter((appointment) => new Date(appointment.scheduledDate).getTime() >= since);
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, max-age=300");
+      res.send(buildCalendar(name, recent, !feed.artistId));
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
+  app.get('/api/calendar-feed', isAuthenticated, async (req, res) => {
+    try {
+      const feed = await storage.getActiveCalendarFeed(null);
+      res.json(feed ?? null);
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  app.post('/api/calendar-feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const feed = await storage.rotateCalendarFeed(null, generateFeedToken(), req.user.claims.sub);
+      res.status(201).json(feed);
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete('/api/calendar-feed', isAuthenticated, async (req, res) => {
+    try {
+      await storage.revokeCalendarFeed(null);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+
+  app.get('/api/artists/:id/calendar-feed', isAuthenticated, async (req, res) => {
+    try {
+      const feed = await storage.getActiveCalendarFeed(req.params.id);
+      res.json(feed ?? null);
+    } catch (error) {
+      console.error("Error fetching artist calendar feed:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  app.post('/api/artists/:id/calendar-feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const artist = await storage.getArtist(req.params.id);
+      if (!artist) {
+        return res.status(404).json({ message: "Artist not found" });
+      }
+      const feed = await storage.rotateCalendarFeed(artist.id, generateFeedToken(), req.user.claims.sub);
+      res.status(201).json(feed);
+    } catch (error) {
+      console.error("Error creating artist calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete('/api/artists/:id/calendar-feed', isAuthenticated, async (req, res) => {
+    try {
+      await storage.revokeCalendarFeed(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking artist calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+
+  // Kiosk routes: authenticated by the kiosk link's token, never by a staff session
+  app.get('/api/kiosk/:token', publicReadLimit, async (req, res) => {
+    try {
+      if (!(await storage.getKioskToken(req.params.token))) {
+        return res.status(404).json({ message: "Kiosk not found" });
+      }
+      const { timeZone, minimumAge, minorPolicy } = await storage.getStudioSettings();
+      const studio: PublicStudio = { timeZone, minimumAge, minorPolicy };
+      res.json(studio);
+    } catch (error) {
+      console.error("Error fetching kiosk:", error);
+      res.status(500).json({ message: "Failed to load kiosk" });
+    }
+  });
+
+  // Today's appointments the client can check in to, showing nothing that identifies anyone else
+  app.post('/api/kiosk/:token/lookup', kioskLimit, async (req, res) => {
+    try {
+      if (!(await storage.getKioskToken(req.params.token))) {
+        return res.status(404).json({ message: "Kiosk not found" });
+      }
+      const { query } = kioskLookupSchema.parse(req.body);
+      const match = parseKioskQuery(query);
+      if (!match) {
+        return res.json([]);
+      }
+      const { timeZone } = await storage.getStudioSettings();
+      const today = getZonedDayRange(resolveCalendarDate(new Date(), timeZone), timeZone);
+      const appointments = await storage.findCheckInAppointments(today.start, today.end, match);
+      res.json(await Promise.all(appointments.map(toKioskAppointment)));
+    } catch (error) {
+      console.error("Error looking up kiosk appointments:", error);
+      res.status(400).json({ message: "Failed to look up appointments" });
+    }
+  });
+
+  app.post('/api/kiosk/:token/appointments/:id/check-in', kioskLimit, async (req, res) => {
+    try {
+      if (!(await storage.getKioskToken(req.params.token))) {
+        return res.status(404).json({ message: "Kiosk not found" });
+      }
+      const { signatures, ...contact } = kioskCheckInSchema.parse(req.body);
+      const appointment = await storage.getAppointment(req.params.id);
+      const { timeZone } = await storage.getStudioSettings();
+      const today = getZonedDayRange(resolveCalendarDate(new Date(), timeZone), timeZone);
+      const scheduledDate = appointment && new Date(appointment.scheduledDate);
+      if (
+        !appointment ||
+        !checkInStatuses.includes(appointment.status ?? 'scheduled') ||
+        scheduledDate! < today.start ||
+        scheduledDate! >= today.end
+      ) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const outstanding = await storage.getOutstandingForms(appointment);
+      const signedFormIds = new Set(signatures.map((signature) => signature.formId));
+      if (outstanding.some((form) => !signedFormIds.has(form.id))) {
+        return res.status(400).json({ message: "Please sign all forms before checking in" });
+      }
+      const checkedIn = await storage.checkInAppointment(
+        appointment.id,
+        appointment.status ?? 'scheduled',
+        outstanding.map((form) =>
+          buildSignature(form, appointment, signatures.find((signature) => signature.formId === form.id)!),
+        ),
+        contact,
+      );
+      if (!checkedIn) {
+        return res.status(409).json({ message: "This appointment has already been checked in" });
+      }
+      await refreshAppointmentReminders(checkedIn.id);
+      await notifyArtistOfCheckIn(appointment, timeZone);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error checking in at kiosk:", error);
+      res.status(400).json({ message: "Failed to check in" });
+    }
+  });
+
+  app.get('/api/kiosk', isAuthenticated, async (req, res) => {
+    try {
+      const kiosk = await storage.getActiveKioskToken();
+      res.json(kiosk ?? null);
+    } catch (error) {
+      console.error("Error fetching kiosk link:", error);
+      res.status(500).json({ message: "Failed to fetch kiosk link" });
+    }
+  });
+
+  app.post('/api/kiosk', isAuthenticated, requireRole('admin'), async (req: any, res) => {
+    try {
+      const kiosk = await storage.rotateKioskToken(generateFeedToken(), req.user.claims.sub);
+      res.status(201).json(kiosk);
+    } catch (error) {
+      console.error("Error creating kiosk link:", error);
+      res.status(500).json({ message: "Failed to create kiosk link" });
+    }
+  });
+
+  app.delete('/api/kiosk', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      await storage.revokeKioskToken();
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking kiosk link:", error);
+      res.status(500).json({ message: "Failed to revoke kiosk link" });
+    }
+  });
+
+  // Consent form routes
+  app.get('/api/consent-forms', isAuthenticated, async (req, res) => {
+    try {
+      const forms = await storage.getConsentForms();
+      res.json(forms);
+    } catch (error) {
+      console.error("Error fetching consent forms:", error);
+      res.status(500).json({ message: "Failed to fetch consent forms" });
+    }
+  });
+
+  app.post('/api/consent-forms', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const validatedData = insertConsentFormSchema.parse(req.body);
+      const form = await storage.createConsentForm(validatedData);
+      res.status(201).json(form);
+    } catch (error) {
+      console.error("Error creating consent form:", error);
+      res.status(400).json({ message: "Failed to create consent form" });
+    }
+  });
+
+  app.patch('/api/consent-forms/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const updates = updateConsentFormSchema.parse(req.body);
+      const form = await storage.updateConsentForm(req.params.id, updates);
+      if (!form) {
+        return res.status(404).json({ message: "Consent form not found" });
+      }
+      res.json(form);
+    } catch (error) {
+      console.error("Error updating consent form:", error);
+      res.status(400).json({ message: "Failed to update consent form" });
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const items = await storage.getNotifications(req.user.claims.sub, NOTIFICATION_LIMIT);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post('/api/notifications/read-all', isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user.claims.sub);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  app.post('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.markNotificationRead(req.params.id, req.user.claims.sub);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  });
+
+  // Studio settings routes
+  app.get('/api/settings', isAuthenticated, async (req, res) => {
+    try {
+      const settings = await storage.getStudioSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.patch('/api/settings', isAuthenticated, requireRole('admin'), async (req: any, res) => {
+    try {
+      const updates = updateStudioSettingsSchema.parse(req.body);
+      const settings = await storage.updateStudioSettings(updates, req.user.claims.sub);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      res.status(400).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Inventory routes
+  app.get('/api/inventory', isAuthenticated, async (req, res) => {
+    try {
+      const lowStock = req.query.lowStock === 'true';
+      const inventory = lowStock 
+        ? await storage.getLowStockItems()
+        : await storage.getInventory();
+      res.json(inventory);
+    } catch (error) {
+      console.error("Error fetching inventory:", error);
+      res.status(500).json({ message: "Failed to fetch inventory" });
+    }
+  });
+
+  app.get('/api/inventory/:id', isAuthenticated, async (req, res) => {
+    try {
+      const item = await storage.getInventoryItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+      res.json(item);
+    } catch (error) {
+      console.error("Error fetching inventory item:", error);
+      res.status(500).json({ message: "Failed to fetch inventory item" });
+    }
+  });
+
+  app.post('/api/inventory', isAuthenticated, async (req, res) => {
+    try {
+      const validatedData = insertInventorySchema.parse(req.body);
+      const item = await storage.createInventoryItem(validatedData);
+      res.status(201).json(item);
+    } catch (error) {
+      console.error("Error creating inventory item:", error);
+      res.status(400).json({ message: "Failed to create inventory item" });
+    }
+  });
+
+  app.patch('/api/inventory/:id', isAuthenticated, async (req, res) => {
+    try {
+      const updates = insertInventorySchema.partial().parse(req.body);
+      const item = await storage.updateInventoryItem(req.params.id, updates);
+      res.json(item);
+    } catch (error) {
+      console.error("Error updating inventory item:", error);
+      res.status(400).json({ message: "Failed to update inventory item" });
+    }
+  });
+
+  app.delete('/api/inventory/:id', isAuthenticated, async (req, res) => {
+    try {
+      await storage.deleteInventoryItem(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting inventory item:", error);
+      res.status(500).json({ message: "Failed to delete inventory item" });
+    }
+  });
+
+  // Sales routes
+  app.get('/api/sales', isAuthenticated, async (req, res) => {
+    try {
+      const period = req.query.period as ReportPeriod | undefined;
+      const startDate = req.query.startDate as string;
+      const endDate = req.query.endDate as string;
+      
+      let sales;
+      if (period && reportPeriods.includes(period)) {
+        const { timeZone } = await storage.getStudioSettings();
+        const range = getZonedPeriodRange(period, new Date(), timeZone);
+        sales = await storage.getSalesByDateRange(range.start, range.end);
+      } else if (startDate && endDate) {
+        // Both ends are whole days in the studio's time zone
+        const { timeZone } = await storage.getStudioSettings();
+        sales = await storage.getSalesByDateRange(
+          getZonedDayRange(resolveCalendarDate(startDate, timeZone), timeZone).start,
+          getZonedDayRange(resolveCalendarDate(endDate, timeZone), timeZone).end,
+        );
+      } else {
+        sales = await storage.getSales();
+      }
+      
+      res.json(sales);
+    } catch (error) {
+      console.error("Error fetching sales:", error);
+      res.status(500).json({ message: "Failed to fetch sales" });
+    }
+  });
+
+  app.get('/api/sales/:id', isAuthenticated, async (req, res) => {
+    try {
+      const sale = await storage.getSale(req.params.id);
+      if (!sale) {
+        return res.status(404).json({ message: "Sale not found" });
+      }
+      res.json(sale);
+    } catch (error) {
+      console.error("Error fetching sale:", error);
+      res.status(500).json({ message: "Failed to fetch sale" });
+    }
+  });
+
+  app.post('/api/sales', isAuthenticated, async (req, res) => {
+    try {
+      const validatedData = insertSaleSchema.parse(req.body);
+      const { sale: saleData, appointment } = await carryDepositIntoSale(validatedData);
+      const sale = appointment
+        ? await storage.createSaleFromDeposit(saleData, appointment.id)
+        : await storage.createSale(saleData);
+      if (!sale) {
+        return res.status(409).json({ message: "The appointment deposit was already applied, refunded or forfeited" });
+      }
       res.status(201).json(sale);
     } catch (error) {
       console.error("Error creating sale:", error);
@@ -0,0 +1,243 @@
+import { storage } from "./storage";
+import { runInTransaction } from "./db";
+import {
+  inactiveAppointmentStatuses,
+  type AppointmentBuffers,
+  type AppointmentType,
+  type AppointmentWithRelations,
+  type Artist,
+  type ArtistTimeOff,
+  type AvailabilityQuery,
+  type AvailableSlot,
+  type InsertAppointment,
+} from "@shared/schema";
+import { getTypeRules } from "@shared/appointmentTypes";
+import { computeOpenSlots, fitsWorkingHours, type TimeRange } from "@shared/workingHours";
+
+export type AppointmentSlot = Pick<
+  InsertAppointment,
+  "artistId" | "stationId" | "type" | "scheduledDate" | "duration" | "status" | "setupMinutes" | "cleanupMinutes"
+>;
+
+export type SlotUnavailableReason =
+  | "conflict"
+  | "outside_hours"
+  | "time_off"
+  | "artist_not_found"
+  | "station_conflict"
+  | "station_unavailable";
+
+export type SlotCheckResult =
+  | { ok: true }
+  | {
+      ok: false;
+      reason: SlotUnavailableReason;
+      message: string;
+      conflicts: AppointmentWithRelations[];
+      timeOff: ArtistTimeOff[];
+    };
+
+export type SlotBookingResult<T> = Extract<SlotCheckResult, { ok: false }> | { ok: true; result: T };
+
+// Fields that move an appointment in time or onto a different artist or station
+const schedulingFields = [
+  "artistId",
+  "stationId",
+  "scheduledDate",
+  "duration",
+  "type",
+  "setupMinutes",
+  "cleanupMinutes",
+  "status",
+] as const;
+
+export function affectsSchedule(updates: Partial<InsertAppointment>): boolean {
+  return schedulingFields.some((field) => updates[field] !== undefined);
+}
+
+export function isActiveStatus(status: InsertAppointment["status"]): boolean {
+  return !(inactiveAppointmentStatuses as readonly string[]).includes(status ?? "scheduled");
+}
+
+export function getAppointmentEnd(scheduledDate: Date, duration: number): Date {
+  return new Date(new Date(scheduledDate).getTime() + duration * 60 * 1000);
+}
+
+// The chair is blocked from the start of setup until cleanup is finished
+export function getOccupiedRange(scheduledDate: Date, duration: number, buffers: AppointmentBuffers): TimeRange {
+  const start = new Date(scheduledDate);
+  return {
+    start: new Date(start.getTime() - buffers.setupMinutes * 60 * 1000),
+    end: getAppointmentEnd(start, duration + buffers.cleanupMinutes),
+  };
+}
+
+type BufferSource = Pick<InsertAppointment, "type" | "setupMinutes" | "cleanupMinutes">;
+
+export function resolveBuffers(appointment: BufferSource, artist: Artist | undefined): AppointmentBuffers {
+  const defaults = getTypeRules(appointment.type).usesBuffers ? artist : undefined;
+  return {
+    setupMinutes: appointment.setupMinutes ?? defaults?.setupMinutes ?? 0,
+    cleanupMinutes: appointment.cleanupMinutes ?? defaults?.cleanupMinutes ?? 0,
+  };
+}
+
+// Buffers that are not given explicitly are copied from the artist when the appointment is booked
+export async function withBufferDefaults<T extends BufferSource & Pick<InsertAppointment, "artistId">>(
+  appointment: T,
+): Promise<T & AppointmentBuffers> {
+  const artist = await storage.getArtist(appointment.artistId);
+  return { ...appointment, ...resolveBuffers(appointment, artist) };
+}
+
+function unavailable(
+  reason: SlotUnavailableReason,
+  message: string,
+  details: { conflicts?: AppointmentWithRelations[]; timeOff?: ArtistTimeOff[] } = {},
+): SlotCheckResult {
+  return {
+    ok: false,
+    reason,
+    message,
+    conflicts: details.conflicts ?? [],
+    timeOff: details.timeOff ?? [],
+  };
+}
+
+// Verify the artist works and is free for the slot, and that any reserved station is free too,
+// ignoring the appointment being edited
+export async function checkAppointmentSlot(
+  slot: AppointmentSlot,
+  excludeAppointmentId?: string,
+): Promise<SlotCheckResult> {
+  if (!isActiveStatus(slot.status)) {
+    return { ok: true };
+  }
+
+  const start = new Date(slot.scheduledDate);
+  const end = getAppointmentEnd(start, slot.duration);
+
+  const artist = await storage.getArtist(slot.artistId);
+  if (!artist) {
+    return unavailable("artist_not_found", "Artist not found");
+  }
+
+  // Artists without configured hours have not opted into hour restrictions yet
+  if (artist.workingHours) {
+    const { timeZone } = await storage.getStudioSettings();
+    if (!fitsWorkingHours(artist.workingHours, start, end, timeZone)) {
+      return unavailable("outside_hours", "Appointment falls outside the artist's working hours");
+    }
+  }
+
+  const timeOff = await storage.getArtistTimeOffInRange(slot.artistId, start, end);
+  if (timeOff.length > 0) {
+    return unavailable("time_off", "Artist is on time off during this time", { timeOff });
+  }
+
+  // Working hours and time off apply to the session itself, other bookings also to its buffers
+  const occupied = getOccupiedRange(start, slot.duration, resolveBuffers(slot, artist));
+  const conflicts = await storage.getConflictingAppointments(
+    slot.artistId,
+    occupied.start,
+    occupied.end,
+    excludeAppointmentId,
+  );
+  if (conflicts.length > 0) {
+    return unavailable("conflict", "Artist is already booked during this time", { conflicts });
+  }
+
+  if (slot.stationId) {
+    const station = await storage.getStation(slot.stationId);
+    if (!station?.isActive) {
+      return unavailable("station_unavailable", "Station is not available for booking");
+    }
+
+    const stationConflicts = await storage.getStationConflicts(
+      slot.stationId,
+      occupied.start,
+      occupied.end,
+      excludeAppointmentId,
+    );
+    if (stationConflicts.length > 0) {
+      return unavailable("station_conflict", `${station.name} is already in use during this time`, {
+        conflicts: stationConflicts,
+      });
+    }
+  }
+
+  return { ok: true };
+}
+
+// Checks the slot and runs `book` in one transaction holding the artist's and station's scheduling locks,
+// so two bookings racing for the same time cannot both pass the check
+export async function bookSlot<T>(
+  slot: AppointmentSlot,
+  book: () => Promise<T>,
+  excludeAppointmentId?: string,
+): Promise<SlotBookingResult<T>> {
+  return await runInTransaction(async () => {
+    await storage.lockSchedules([
+      `artist:${slot.artistId}`,
+      ...(slot.stationId ? [`station:${slot.stationId}`] : []),
+    ]);
+    const slotCheck = await checkAppointmentSlot(slot, excludeAppointmentId);
+    if (!slotCheck.ok) {
+      return slotCheck;
+    }
+    return { ok: true as const, result: await book() };
+  });
+}
+
+// Periods a new booking for the artist cannot overlap, widened so its own buffers stay clear too
+export async function getBusyPeriods(artist: Artist, type: AppointmentType | undefined, from: Date, to: Date): Promise<TimeRange[]> {
+  const buffers = resolveBuffers({ type }, artist);
+  const before = buffers.cleanupMinutes * 60 * 1000;
+  const after = buffers.setupMinutes * 60 * 1000;
+  const [appointments, timeOff] = await Promise.all([
+    storage.getConflictingAppointments(artist.id, new Date(from.getTime() - after), new Date(to.getTime() + before)),
+    storage.getArtistTimeOffInRange(artist.id, from, to),
+  ]);
+
+  return [
+    ...appointments.map((appointment) => {
+      const occupied = getOccupiedRange(appointment.scheduledDate, appointment.duration, appointment);
+      return { start: new Date(occupied.start.getTime() - before), end: new Date(occupied.end.getTime() + after) };
+    }),
+    ...timeOff.map((entry) => ({ start: new Date(entry.startDate), end: new Date(entry.endDate) })),
+  ];
+}
+
+// Open slots across the candidate artists, earliest first
+export async function findAvailableSlots(query: AvailabilityQuery): Promise<AvailableSlot[]> {
+  let candidates: Artist[];
+  if (query.artistId) {
+    const artist = await storage.getArtist(query.artistId);
+    candidates = artist ? [artist] : [];
+  } else {
+    candidates = await storage.getActiveArtistsBySpecialty(query.specialty!);
+  }
+
+  // Never offer slots that have already started
+  const from = new Date(Math.max(query.from.getTime(), Date.now()));
+  if (from >= query.to) {
+    return [];
+  }
+
+  const { timeZone } = await storage.getStudioSettings();
+  const slots: AvailableSlot[] = [];
+  for (const artist of candidates) {
+    // Without configured hours there is nothing to offer
+    if (!artist.workingHours) continue;
+
+    const busy = await getBusyPeriods(artist, query.type, from, query.to);
+    const openSlots = computeOpenSlots(artist.workingHours, busy, from, query.to, query.duration, query.step, timeZone);
+    for (const slot of openSlots) {
+      slots.push({ artistId: artist.id, artistName: artist.name, start: slot.start, end: slot.end });
+    }
+  }
+
+  return slots
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, query.limit);
+}
@@ -1,27 +1,113 @@
 import {
   users,
   artists,
+  artistTimeOff,
+  stations,
   clients,
+  clientNotes,
+  clientMerges,
+  medicalInfoAccess,
+  projects,
   appointments,
+  appointmentStatusHistory,
+  waitlistEntries,
+  walkIns,
+  bookingRequests,
+  calendarFeedTokens,
+  kioskTokens,
+  consentForms,
+  formSignatures,
+  guardianConsents,
+  notifications,
+  appointmentReminders,
+  reminderDeliveryAttempts,
+  studioSettings,
   inventory,
   sales,
   type User,
   type UpsertUser,
   type Artist,
   type InsertArtist,
+  type ArtistTimeOff,
+  type InsertArtistTimeOff,
+  type Station,
+  type InsertStation,
   type Client,
   type InsertClient,
+  type ClientReliability,
+  type ClientNote,
+  type InsertClientNote,
+  type ClientNoteWithAuthor,
+  type ClientMerge,
+  type ClientSearchField,
+  type ClientSearchResult,
+  type ClientMergeWithUser,
+  type InsertMedicalInfoAccess,
+  type MedicalInfoAccessWithUser,
+  type Project,
+  type InsertProject,
+  type ProjectProgress,
+  type ProjectWithProgress,
+  type ProjectWithDetails,
   type Appointment,
-  type InsertAppointment,
+  type AppointmentWrite,
   type AppointmentWithRelations,
+  type AppointmentStatus,
+  type AppointmentType,
+  type AppointmentStatusChangeWithUser,
+  type DepositStatus,
+  type StudioSettings,
+  type UpdateStudioSettings,
+  type WaitlistEntry,
+  type InsertWaitlistEntry,
+  type WaitlistEntryWithRelations,
+  type WalkIn,
+  type InsertWalkIn,
+  type WalkInWithRelations,
+  type BookingRequest,
+  type InsertBookingRequest,
+  type BookingRequestWithRelations,
+  type CalendarFeedToken,
+  type KioskToken,
+  type ConsentForm,
+  type InsertConsentForm,
+  type UpdateConsentForm,
+  type InsertFormSignature,
+  type FormSignature,
+  type GuardianConsent,
+  type InsertGuardianConsent,
+  type Notification,
+  type InsertNotification,
+  type AppointmentReminder,
+  type InsertAppointmentReminder,
+  type AppointmentReminderWithAttempts,
   type InventoryItem,
   type InsertInventory,
   type Sale,
   type InsertSale,
   type SaleWithRelations,
+  inactiveAppointmentStatuses,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, asc, and, gte, lte, sql, ilike } from "drizzle-orm";
+import { checkInStatuses, reschedulableStatuses } from "@shared/appointmentStatus";
+import { combineClientDetails, normalizeSearchDigits } from "@shared/clientMatching";
+import { getZonedDayRange, getZonedPeriodRange, type CalendarDate } from "@shared/timezone";
+import { db, runInTransaction } from "./db";
+import {
+  ENCRYPTED_PREFIX,
+  decryptClientFields,
+  encryptClientFields,
+  encryptPlaintextClientFields,
+  redactClient,
+} from "./fieldEncryption";
+import { TransactionRollbackError, eq, ne, desc, asc, and, gt, gte, lt, lte, sql, ilike, inArray, notInArray, isNull, type SQL } from "drizzle-orm";
+
+// Client search: the lowest trigram word similarity that still counts as a match, and how many results come back
+const MIN_SEARCH_SIMILARITY = 0.3;
+const MAX_SEARCH_RESULTS = 50;
+
+// Appointments saved without a status are scheduled; comparing the raw column would skip them,
+// since NOT IN and = are never true for NULL
+const appointmentStatus = sql<AppointmentStatus>`coalesce(${appointments.status}, 'scheduled')`;
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -31,27 +117,170 @@ export interface IStorage {
   // Artist operations
   getArtists(): Promise<Artist[]>;
   getArtist(id: string): Promise<Artist | undefined>;
+  getActiveArtistsBySpecialty(specialty: string): Promise<Artist[]>;
   createArtist(artist: InsertArtist): Promise<Artist>;
   updateArtist(id: string, updates: Partial<InsertArtist>): Promise<Artist>;
   deleteArtist(id: string): Promise<void>;
 
-  // Client operations
+  // Artist time off operations
+  getArtistTimeOff(artistId: string): Promise<ArtistTimeOff[]>;
+  getArtistTimeOffInRange(artistId: string, start: Date, end: Date): Promise<ArtistTimeOff[]>;
+  createArtistTimeOff(timeOff: InsertArtistTimeOff): Promise<ArtistTimeOff>;
+  deleteArtistTimeOff(artistId: string, id: string): Promise<void>;
+
+  // Station operations
+  getStations(): Promise<Station[]>;
+  getStation(id: string): Promise<Station | undefined>;
+  createStation(station: InsertStation): Promise<Station>;
+  updateStation(id: string, updates: Partial<InsertStation>): Promise<Station>;
+  deleteStation(id: string): Promise<void>;
+
+  // Client operations. Sensitive fields are encrypted on write; getClient, createClient and updateClient
+  // return them still encrypted and every other read returns them redacted
   getClients(): Promise<Client[]>;
   getClient(id: string): Promise<Client | undefined>;
-  searchClients(query: string): Promise<Client[]>;
+  searchClients(query: string): Promise<ClientSearchResult[]>;
   createClient(client: InsertClient): Promise<Client>;
   updateClient(id: string, updates: Partial<InsertClient>): Promise<Client>;
   deleteClient(id: string): Promise<void>;
+  getClientReliability(lateCancellationHours: number, clientId?: string): Promise<ClientReliability[]>;
+  getClientNotes(clientId: string): Promise<ClientNoteWithAuthor[]>;
+  createClientNote(note: InsertClientNote, createdBy?: string): Promise<ClientNote>;
+  deleteClientNote(clientId: string, id: string): Promise<void>;
+  mergeClients(survivorId: string, duplicateId: string, mergedBy: string): Promise<ClientMerge | undefined>;
+  getClientMerges(clientId: string): Promise<ClientMergeWithUser[]>;
+  logMedicalInfoAccess(entry: InsertMedicalInfoAccess): Promise<void>;
+  getMedicalInfoAccess(clientId: string): Promise<MedicalInfoAccessWithUser[]>;
+  encryptPlaintextClientFields(): Promise<number>;
+
+  // Project operations
+  getProjects(clientId?: string): Promise<ProjectWithProgress[]>;
+  getProject(id: string): Promise<ProjectWithDetails | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: string, updates: Partial<InsertProject>): Promise<Project>;
+  deleteProject(id: string): Promise<void>;
 
   // Appointment operations
   getAppointments(): Promise<AppointmentWithRelations[]>;
   getAppointment(id: string): Promise<AppointmentWithRelations | undefined>;
-  getAppointmentsByDate(date: Date): Promise<AppointmentWithRelations[]>;
+  getAppointmentsByDate(date: CalendarDate, timeZone: string): Promise<AppointmentWithRelations[]>;
+  getAppointmentsInRange(start: Date, end: Date): Promise<AppointmentWithRelations[]>;
   getAppointmentsByArtist(artistId: string): Promise<AppointmentWithRelations[]>;
-  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
-  updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment>;
+  getAppointmentsByProject(projectId: string): Promise<AppointmentWithRelations[]>;
+  getAppointmentsByClient(clientId: string): Promise<AppointmentWithRelations[]>;
+  getConflictingAppointments(artistId: string, start: Date, end: Date, excludeId?: string): Promise<AppointmentWithRelations[]>;
+  lockSchedules(keys: string[]): Promise<void>;
+  getStationConflicts(stationId: string, start: Date, end: Date, excludeId?: string): Promise<AppointmentWithRelations[]>;
+  createAppointment(appointment: AppointmentWrite, createdBy?: string): Promise<Appointment>;
+  updateAppointment(id: string, updates: Partial<AppointmentWrite>): Promise<Appointment>;
+  approveAppointment(id: string, approvedBy: string): Promise<Appointment | undefined>;
+  changeAppointmentStatus(id: string, from: AppointmentStatus, to: AppointmentStatus, changedBy?: string, reason?: string): Promise<Appointment | undefined>;
+  updateAppointmentWithStatus(
+    id: string,
+    updates: Partial<AppointmentWrite>,
+    from: AppointmentStatus,
+    to: AppointmentStatus,
+    changedBy?: string,
+  ): Promise<Appointment | undefined>;
+  getAppointmentStatusHistory(appointmentId: string): Promise<AppointmentStatusChangeWithUser[]>;
   deleteAppointment(id: string): Promise<void>;
 
+  // Deposit operations
+  recordDepositPayment(id: string, paymentMethod: string): Promise<Appointment | undefined>;
+  changeDepositStatus(id: string, from: DepositStatus, to: DepositStatus): Promise<Appointment | undefined>;
+  forfeitDeposit(id: string, note: string): Promise<Sale | undefined>;
+  getExpiredDepositHolds(now: Date): Promise<Appointment[]>;
+  expireDepositHold(id: string, from: AppointmentStatus): Promise<Appointment | undefined>;
+  createSaleFromDeposit(sale: InsertSale, appointmentId: string): Promise<Sale | undefined>;
+
+  // Waitlist operations
+  getWaitlistEntries(status?: WaitlistEntry["status"]): Promise<WaitlistEntryWithRelations[]>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntryWithRelations | undefined>;
+  getWaitlistMatches(artistId: string, start: Date, end: Date): Promise<WaitlistEntryWithRelations[]>;
+  createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry>;
+  deleteWaitlistEntry(id: string): Promise<void>;
+  bookWaitlistEntry(id: string, appointment: AppointmentWrite, bookedBy?: string): Promise<Appointment | undefined>;
+
+  // Walk-in operations
+  getWaitingWalkIns(since: Date): Promise<WalkInWithRelations[]>;
+  getWalkIn(id: string): Promise<WalkInWithRelations | undefined>;
+  createWalkIn(walkIn: InsertWalkIn): Promise<WalkIn>;
+  deleteWalkIn(id: string): Promise<void>;
+  startWalkIn(id: string, appointment: AppointmentWrite, startedBy?: string): Promise<Appointment | undefined>;
+
+  // Booking request operations
+  getBookingRequests(status?: BookingRequest["status"]): Promise<BookingRequestWithRelations[]>;
+  getBookingRequest(id: string): Promise<BookingRequestWithRelations | undefined>;
+  createBookingRequest(request: InsertBookingRequest): Promise<BookingRequest>;
+  approveBookingRequest(
+    id: string,
+    client: { id: string } | InsertClient,
+    appointment: Omit<AppointmentWrite, "clientId">,
+    reviewedBy?: string,
+  ): Promise<Appointment | undefined>;
+  declineBookingRequest(id: string, reviewedBy?: string, reason?: string): Promise<BookingRequest | undefined>;
+
+  // Calendar feed operations
+  getActiveCalendarFeed(artistId: string | null): Promise<CalendarFeedToken | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeedToken | undefined>;
+  rotateCalendarFeed(artistId: string | null, token: string, createdBy?: string): Promise<CalendarFeedToken>;
+  revokeCalendarFeed(artistId: string | null): Promise<void>;
+
+  // Kiosk operations
+  getActiveKioskToken(): Promise<KioskToken | undefined>;
+  getKioskToken(token: string): Promise<KioskToken | undefined>;
+  rotateKioskToken(token: string, createdBy?: string): Promise<KioskToken>;
+  revokeKioskToken(): Promise<void>;
+  findCheckInAppointments(
+    start: Date,
+    end: Date,
+    match: { fullName: string } | { phoneDigits: string },
+  ): Promise<AppointmentWithRelations[]>;
+  checkInAppointment(
+    id: string,
+    from: AppointmentStatus,
+    signatures: InsertFormSignature[],
+    contact: Partial<Pick<InsertClient, "email" | "phone">>,
+  ): Promise<Appointment | undefined>;
+
+  // Consent form operations
+  getConsentForms(): Promise<ConsentForm[]>;
+  getConsentForm(id: string): Promise<ConsentForm | undefined>;
+  createConsentForm(form: InsertConsentForm): Promise<ConsentForm>;
+  updateConsentForm(id: string, updates: UpdateConsentForm): Promise<ConsentForm | undefined>;
+  getOutstandingForms(appointment: Pick<Appointment, "id" | "type">): Promise<ConsentForm[]>;
+  getUnsignedFormCounts(): Promise<Record<string, number>>;
+  getAppointmentSignatures(appointmentId: string): Promise<FormSignature[]>;
+  createFormSignature(signature: InsertFormSignature): Promise<FormSignature | undefined>;
+  getClientSignatures(clientId: string): Promise<FormSignature[]>;
+  backfillSignatureSnapshots(): Promise<number>;
+
+  // Guardian consent operations
+  getGuardianConsent(appointmentId: string): Promise<GuardianConsent | undefined>;
+  createGuardianConsent(consent: InsertGuardianConsent): Promise<GuardianConsent | undefined>;
+
+  // Notification operations
+  getNotifications(userId: string, limit: number): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: string, userId: string): Promise<void>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+
+  // Reminder operations
+  getAppointmentReminders(appointmentId: string): Promise<AppointmentReminderWithAttempts[]>;
+  createAppointmentReminders(reminders: InsertAppointmentReminder[]): Promise<AppointmentReminder[]>;
+  cancelPendingReminders(appointmentId: string, keepIds?: string[]): Promise<void>;
+  getDueReminders(now: Date, limit: number): Promise<AppointmentReminder[]>;
+  getSentRemindersByClient(clientId: string): Promise<AppointmentReminder[]>;
+  recordReminderAttempt(
+    id: string,
+    attempt: { transport: string; recipient: string; error?: string },
+    retryAt?: Date,
+  ): Promise<AppointmentReminder>;
+
+  // Studio settings operations
+  getStudioSettings(): Promise<StudioSettings>;
+  updateStudioSettings(updates: UpdateStudioSettings, updatedBy?: string): Promise<StudioSettings>;
+
   // Inventory operations
   getInventory(): Promise<InventoryItem[]>;
   getInventoryItem(id: string): Promise<InventoryItem | undefined>;
@@ -64,13 +293,15 @@ export interface IStorage {
   getSales(): Promise<SaleWithRelations[]>;
   getSale(id: string): Promise<SaleWithRelations | undefined>;
   getSalesByDateRange(startDate: Date, endDate: Date): Promise<SaleWithRelations[]>;
+  getSalesByClient(clientId: string): Promise<SaleWithRelations[]>;
   createSale(sale: InsertSale): Promise<Sale>;
   updateSale(id: string, updates: Partial<InsertSale>): Promise<Sale>;
   deleteSale(id: string): Promise<void>;
 
   // Dashboard stats
-  getDashboardStats(): Promise<{
+  getDashboardStats(timeZone: string): Promise<{
     todayAppointments: number;
+    todayAppointmentsByType: Partial<Record<AppointmentType, number>>;
     monthlyRevenue: number;
     activeArtists: number;
     lowStockItems: number;
@@ -109,6 +340,19 @@ export class DatabaseStorage implements IStorage {
     return artist;
   }
 
+  async getActiveArtistsBySpecialty(specialty: string): Promise<Artist[]> {
+    return await db
+      .select()
+      .from(artists)
+      .where(
+        and(
+          eq(artists.isActive, true),
+          sql`${specialty} ILIKE ANY(${artists.specialties})`
+        )
+      )
+      .orderBy(asc(artists.name));
+  }
+
   async createArtist(artist: InsertArtist): Promise<Artist> {
     const [newArtist] = await db.insert(artists).values(artist).returning();
     return newArtist;
@@ -127,9 +371,75 @@ export class DatabaseStorage implements IStorage {
     await db.delete(artists).where(eq(artists.id, id));
   }
 
+  // Artist time off operations
+  async getArtistTimeOff(artistId: string): Promise<ArtistTimeOff[]> {
+    return await db
+      .select()
+      .from(artistTimeOff)
+      .where(eq(artistTimeOff.artistId, artistId))
+      .orderBy(asc(artistTimeOff.startDate));
+  }
+
+  async getArtistTimeOffInRange(artistId: string, start: Date, end: Date): Promise<ArtistTimeOff[]> {
+    return await db
+      .select()
+      .from(artistTimeOff)
+      .where(
+        and(
+          eq(artistTimeOff.artistId, artistId),
+          lt(artistTimeOff.startDate, end),
+          gt(artistTimeOff.endDate, start)
+        )
+      )
+      .orderBy(asc(artistTimeOff.startDate));
+  }
+
+  async createArtistTimeOff(timeOff: InsertArtistTimeOff): Promise<ArtistTimeOff> {
+    const [newTimeOff] = await db.insert(artistTimeOff).values(timeOff).returning();
+    return newTimeOff;
+  }
+
+  async deleteArtistTimeOff(artistId: string, id: string): Promise<void> {
+    await db
+      .delete(artistTimeOff)
+      .where(and(eq(artistTimeOff.artistId, artistId), eq(artistTimeOff.id, id)));
+  }
+
+  // Station operations
+  async getStations(): Promise<Station[]> {
+    return await db.select().from(stations).orderBy(asc(stations.type), asc(stations.name));
+  }
+
+  async getStation(id: string): Promise<Station | undefined> {
+    const [station] = await db.select().from(stations).where(eq(stations.id, id));
+    return station;
+  }
+
+  async createStation(station: InsertStation): Promise<Station> {
+    const [newStation] = await db.insert(stations).values(station).returning();
+    return newStation;
+  }
+
+  async updateStation(id: string, updates: Partial<InsertStation>): Promise<Station> {
+    const [updatedStation] = await db
+      .update(stations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(stations.id, id))
+      .returning();
+    return updatedStation;
+  }
+
+  async deleteStation(id: string): Promise<void> {
+    await db.delete(stations).where(eq(stations.id, id));
+  }
+
   // Client operations
   async getClients(): Promise<Client[]> {
-    return await db.select().from(clients).orderBy(asc(clients.lastName), asc(clients.firstName));
+    return await db
+      .select()
+      .from(clients)
+      .orderBy(asc(clients.lastName), asc(clients.firstName))
+      .then(rows => rows.map(redactClient));
   }
 
   async getClient(id: string): Promise<Client | undefined> {
@@ -137,25 +447,44 @@ export class DatabaseStorage implements IStorage {
     return client;
   }
 
-  async searchClients(query: string): Promise<Client[]> {
-    return await db
-      .select()
+  // Trigram similarity (pg_trgm) against name, email and address, and a digits-only match on phone,
+  // so misspelled names and numbers typed with any formatting still find the client
+  async searchClients(query: string): Promise<ClientSearchResult[]> {
+    const fullName = sql`${clients.firstName} || ' ' || ${clients.lastName}`;
+    const digits = normalizeSearchDigits(query);
+    const scores = {
+      name: sql<number>`word_similarity(${query}, ${fullName})`.mapWith(Number),
+      email: sql<number>`word_similarity(${query}, coalesce(${clients.email}, ''))`.mapWith(Number),
+      address: sql<number>`word_similarity(${query}, coalesce(${clients.address}, ''))`.mapWith(Number),
+      phone: digits
+        ? sql<number>`case when regexp_replace(coalesce(${clients.phone}, ''), '\\D', '', 'g') like ${`%${digits}%`} then 1 else 0 end`.mapWith(Number)
+        : sql<number>`0`.mapWith(Number),
+    };
+    const best = sql`greatest(${scores.name}, ${scores.email}, ${scores.address}, ${scores.phone})`;
+
+    const rows = await db
+      .select({ client: clients, ...scores })
       .from(clients)
-      .where(
-        sql`LOWER(${clients.firstName}) LIKE LOWER(${`%${query}%`}) OR LOWER(${clients.lastName}) LIKE LOWER(${`%${query}%`}) OR LOWER(${clients.email}) LIKE LOWER(${`%${query}%`})`
-      )
-      .orderBy(asc(clients.lastName), asc(clients.firstName));
+      .where(sql`${best} >= ${MIN_SEARCH_SIMILARITY}`)
+      .orderBy(desc(best), asc(clients.lastName), asc(clients.firstName))
+      .limit(MAX_SEARCH_RESULTS);
+
+    return rows.map(({ client, ...fieldScores }) => {
+      const [matchedField, score] = (Object.entries(fieldScores) as [ClientSearchField, number][])
+        .reduce((top, entry) => (entry[1] > top[1] ? entry : top));
+      return { ...redactClient(client), matchedField, score };
+    });
   }
 
   async createClient(client: InsertClient): Promise<Client> {
-    const [newClient] = await db.insert(clients).values(client).returning();
+    const [newClient] = await db.insert(clients).values(encryptClientFields(client)).returning();
     return newClient;
   }
 
   async updateClient(id: string, updates: Partial<InsertClient>): Promise<Client> {
     const [updatedClient] = await db
       .update(clients)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...encryptClientFields(updates), updatedAt: new Date() })
       .where(eq(clients.id, id))
       .returning();
     return updatedClient;
@@ -165,6 +494,323 @@ export class DatabaseStorage implements IStorage {
     await db.delete(clients).where(eq(clients.id, id));
   }
 
+  // Cancellations inside the policy window count as late, except holds the system let expire
+  async getClientReliability(lateCancellationHours: number, clientId?: string): Promise<ClientReliability[]> {
+    const cancelledLate = sql`exists (
+      select 1 from ${appointmentStatusHistory}
+      where ${appointmentStatusHistory.appointmentId} = ${appointments.id}
+        and ${appointmentStatusHistory.toStatus} = 'cancelled'
+        and ${appointmentStatusHistory.changedBy} is not null
+        and ${appointmentStatusHistory.changedAt} > ${appointments.scheduledDate} - (${lateCancellationHours} * interval '1 hour')
+    )`;
+
+    return await db
+      .select({
+        clientId: appointments.clientId,
+        totalAppointments: sql<number>`count(*)::int`,
+        noShows: sql<number>`(count(*) filter (where ${appointments.status} = 'no_show'))::int`,
+        lateCancellations: sql<number>`(count(*) filter (where ${appointments.status} = 'cancelled' and ${cancelledLate}))::int`,
+        reschedules: sql<number>`coalesce(sum(${appointments.rescheduleCount}), 0)::int`,
+      })
+      .from(appointments)
+      .where(clientId ? eq(appointments.clientId, clientId) : undefined)
+      .groupBy(appointments.clientId);
+  }
+
+  async getClientNotes(clientId: string): Promise<ClientNoteWithAuthor[]> {
+    return await db
+      .select()
+      .from(clientNotes)
+      .leftJoin(users, eq(clientNotes.createdBy, users.id))
+      .where(eq(clientNotes.clientId, clientId))
+      .orderBy(desc(clientNotes.createdAt))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.client_notes,
+          author: row.users
+            ? {
+                id: row.users.id,
+                firstName: row.users.firstName,
+                lastName: row.users.lastName,
+                email: row.users.email,
+              }
+            : undefined,
+        }))
+      );
+  }
+
+  async createClientNote(note: InsertClientNote, createdBy?: string): Promise<ClientNote> {
+    const [newNote] = await db.insert(clientNotes).values({ ...note, createdBy }).returning();
+    return newNote;
+  }
+
+  async deleteClientNote(clientId: string, id: string): Promise<void> {
+    await db
+      .delete(clientNotes)
+      .where(and(eq(clientNotes.id, id), eq(clientNotes.clientId, clientId)));
+  }
+
+  // Everything that belonged to the duplicate moves to the survivor before the duplicate is removed.
+  // Undefined when either client no longer exists
+  async mergeClients(survivorId: string, duplicateId: string, mergedBy: string): Promise<ClientMerge | undefined> {
+    return await db.transaction(async (tx) => {
+      const [survivor] = await tx.select().from(clients).where(eq(clients.id, survivorId)).for('update');
+      const [duplicate] = await tx.select().from(clients).where(eq(clients.id, duplicateId)).for('update');
+      if (!survivor || !duplicate) return undefined;
+
+      const owned = {
+        appointments,
+        sales,
+        projects,
+        waitlistEntries,
+        walkIns,
+        bookingRequests,
+        formSignatures,
+        guardianConsents,
+        notes: clientNotes,
+        medicalInfoAccess,
+      };
+      const movedRecords: Record<string, number> = {};
+      for (const [name, table] of Object.entries(owned)) {
+        const moved = await tx
+          .update(table)
+          .set({ clientId: survivorId })
+          .where(eq(table.clientId, duplicateId))
+          .returning({ id: table.id });
+        movedRecords[name] = moved.length;
+      }
+      // Earlier merges into the duplicate stay on record, now under the survivor
+      const earlierMerges = await tx
+        .update(clientMerges)
+        .set({ survivorId })
+        .where(eq(clientMerges.survivorId, duplicateId))
+        .returning({ id: clientMerges.id });
+      movedRecords.merges = earlierMerges.length;
+
+      // Deleted first so the survivor can take over its email, which has to be unique
+      await tx.delete(clients).where(eq(clients.id, duplicateId));
+      await tx
+        .update(clients)
+        .set({
+          ...encryptClientFields(combineClientDetails(decryptClientFields(survivor), decryptClientFields(duplicate))),
+          updatedAt: new Date(),
+        })
+        .where(eq(clients.id, survivorId));
+
+      const [merge] = await tx
+        .insert(clientMerges)
+        .values({
+          survivorId,
+          mergedClientId: duplicateId,
+          mergedClient: {
+            firstName: duplicate.firstName,
+            lastName: duplicate.lastName,
+            email: duplicate.email,
+            phone: duplicate.phone,
+            dateOfBirth: duplicate.dateOfBirth?.toISOString() ?? null,
+            createdAt: duplicate.createdAt?.toISOString() ?? null,
+          },
+          movedRecords,
+          mergedBy,
+        })
+        .returning();
+      return merge;
+    });
+  }
+
+  async getClientMerges(clientId: string): Promise<ClientMergeWithUser[]> {
+    return await db
+      .select()
+      .from(clientMerges)
+      .leftJoin(users, eq(clientMerges.mergedBy, users.id))
+      .where(eq(clientMerges.survivorId, clientId))
+      .orderBy(desc(clientMerges.mergedAt))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.client_merges,
+          mergedByUser: row.users
+            ? {
+                id: row.users.id,
+                firstName: row.users.firstName,
+                lastName: row.users.lastName,
+                email: row.users.email,
+              }
+            : undefined,
+        }))
+      );
+  }
+
+  async logMedicalInfoAccess(entry: InsertMedicalInfoAccess): Promise<void> {
+    await db.insert(medicalInfoAccess).values(entry);
+  }
+
+  async getMedicalInfoAccess(clientId: string): Promise<MedicalInfoAccessWithUser[]> {
+    return await db
+      .select()
+      .from(medicalInfoAccess)
+      .innerJoin(users, eq(medicalInfoAccess.userId, users.id))
+      .where(eq(medicalInfoAccess.clientId, clientId))
+      .orderBy(desc(medicalInfoAccess.accessedAt))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.medical_info_access,
+          user: {
+            id: row.users.id,
+            firstName: row.users.firstName,
+            lastName: row.users.lastName,
+            email: row.users.email,
+          },
+        }))
+      );
+  }
+
+  // Encrypts values saved before field encryption existed; returns how many clients were updated
+  async encryptPlaintextClientFields(): Promise<number> {
+    const plaintext = sql`not like ${`${ENCRYPTED_PREFIX}%`}`;
+    const rows = await db
+      .select()
+      .from(clients)
+      .where(sql`${clients.medicalNotes} ${plaintext} or ${clients.emergencyContact} ${plaintext}`);
+    for (const client of rows) {
+      await db
+        .update(clients)
+        .set(encryptPlaintextClientFields(client))
+        .where(eq(clients.id, client.id));
+    }
+    return rows.length;
+  }
+
+  // Project operations
+  private async getProjectProgress(projectIds: string[]): Promise<Map<string, ProjectProgress>> {
+    const progress = new Map<string, ProjectProgress>();
+    if (projectIds.length === 0) return progress;
+
+    for (const id of projectIds) {
+      progress.set(id, {
+        completedSessions: 0,
+        bookedSessions: 0,
+        totalSales: 0,
+        totalPaid: 0,
+        outstandingBalance: 0,
+      });
+    }
+
+    const sessionCounts = await db
+      .select({
+        projectId: appointments.projectId,
+        completed: sql<number>`count(*) filter (where ${appointments.status} = 'completed')`,
+        booked: sql<number>`count(*) filter (where ${notInArray(appointmentStatus, [...inactiveAppointmentStatuses, 'completed'])})`,
+      })
+      .from(appointments)
+      .where(inArray(appointments.projectId, projectIds))
+      .groupBy(appointments.projectId);
+
+    for (const row of sessionCounts) {
+      const entry = progress.get(row.projectId!)!;
+      entry.completedSessions = Number(row.completed);
+      entry.bookedSessions = Number(row.booked);
+    }
+
+    // Sales roll up through the project's appointments
+    const salesTotals = await db
+      .select({
+        projectId: appointments.projectId,
+        total: sql<number>`COALESCE(sum(${sales.totalAmount}), 0)`,
+        outstanding: sql<number>`COALESCE(sum(${sales.remainingBalance}), 0)`,
+      })
+      .from(sales)
+      .innerJoin(appointments, eq(sales.appointmentId, appointments.id))
+      .where(inArray(appointments.projectId, projectIds))
+      .groupBy(appointments.projectId);
+
+    for (const row of salesTotals) {
+      const entry = progress.get(row.projectId!)!;
+      entry.totalSales = Number(row.total);
+      entry.outstandingBalance = Number(row.outstanding);
+      entry.totalPaid = entry.totalSales - entry.outstandingBalance;
+    }
+
+    return progress;
+  }
+
+  async getProjects(clientId?: string): Promise<ProjectWithProgress[]> {
+    const rows = await db
+      .select()
+      .from(projects)
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .leftJoin(artists, eq(projects.artistId, artists.id))
+      .where(clientId ? eq(projects.clientId, clientId) : undefined)
+      .orderBy(desc(projects.createdAt));
+
+    const progress = await this.getProjectProgress(rows.map(row => row.projects.id));
+
+    return rows.map(row => ({
+      ...row.projects,
+      client: redactClient(row.clients!),
+      artist: row.artists || undefined,
+      progress: progress.get(row.projects.id)!,
+    }));
+  }
+
+  async getProject(id: string): Promise<ProjectWithDetails | undefined> {
+    const [row] = await db
+      .select()
+      .from(projects)
+      .leftJoin(clients, eq(projects.clientId, clients.id))
+      .leftJoin(artists, eq(projects.artistId, artists.id))
+      .where(eq(projects.id, id));
+
+    if (!row) return undefined;
+
+    const progress = await this.getProjectProgress([id]);
+    const projectAppointments = await this.getAppointmentsByProject(id);
+    const projectSales = await db
+      .select()
+      .from(sales)
+      .innerJoin(appointments, eq(sales.appointmentId, appointments.id))
+      .leftJoin(clients, eq(sales.clientId, clients.id))
+      .leftJoin(artists, eq(sales.artistId, artists.id))
+      .where(eq(appointments.projectId, id))
+      .orderBy(desc(sales.saleDate))
+      .then(rows =>
+        rows.map(saleRow => ({
+          ...saleRow.sales,
+          client: redactClient(saleRow.clients!),
+          artist: saleRow.artists!,
+          appointment: saleRow.appointments,
+        }))
+      );
+
+    return {
+      ...row.projects,
+      client: redactClient(row.clients!),
+      artist: row.artists || undefined,
+      progress: progress.get(id)!,
+      appointments: projectAppointments,
+      sales: projectSales,
+    };
+  }
+
+  async createProject(project: InsertProject): Promise<Project> {
+    const [newProject] = await db.insert(projects).values(project).returning();
+    return newProject;
+  }
+
+  async updateProject(id: string, updates: Partial<InsertProject>): Promise<Project> {
+    const [updatedProject] = await db
+      .update(projects)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return updatedProject;
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    // Sessions outlive the project they were grouped under
+    await db.update(appointments).set({ projectId: null }).where(eq(appointments.projectId, id));
+    await db.delete(projects).where(eq(projects.id, id));
+  }
+
   // Appointment operations
   async getAppointments(): Promise<AppointmentWithRelations[]> {
     return await db
@@ -172,12 +818,14 @@ export class DatabaseStorage implements IStorage {
       .from(appointments)
       .leftJoin(clients, eq(appointments.clientId, clients.id))
       .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
       .orderBy(desc(appointments.scheduledDate))
       .then(rows => 
         rows.map(row => ({
           ...row.appointments,
-          client: row.clients!,
+          client: redactClient(row.clients!),
           artist: row.artists!,
+          station: row.stations,
         }))
       );
   }
@@ -188,40 +836,65 @@ export class DatabaseStorage implements IStorage {
       .from(appointments)
       .leftJoin(clients, eq(appointments.clientId, clients.id))
       .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
       .where(eq(appointments.id, id));
     
     if (!row) return undefined;
     
     return {
       ...row.appointments,
-      client: row.clients!,
+      client: redactClient(row.clients!),
       artist: row.artists!,
+      station: row.stations,
     };
   }
 
-  async getAppointmentsByDate(date: Date): Promise<AppointmentWithRelations[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+  async getAppointmentsByDate(date: CalendarDate, timeZone: string): Promise<AppointmentWithRelations[]> {
+    const day = getZonedDayRange(date, timeZone);
+
+    return await db
+      .select()
+      .from(appointments)
+      .leftJoin(clients, eq(appointments.clientId, clients.id))
+      .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
+      .where(
+        and(
+          gte(appointments.scheduledDate, day.start),
+          lt(appointments.scheduledDate, day.end)
+        )
+      )
+      .orderBy(asc(appointments.scheduledDate))
+      .then(rows => 
+        rows.map(row => ({
+          ...row.appointments,
+          client: redactClient(row.clients!),
+          artist: row.artists!,
+          station: row.stations,
+        }))
+      );
+  }
 
+  async getAppointmentsInRange(start: Date, end: Date): Promise<AppointmentWithRelations[]> {
     return await db
       .select()
       .from(appointments)
       .leftJoin(clients, eq(appointments.clientId, clients.id))
       .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
       .where(
         and(
-          gte(appointments.scheduledDate, startOfDay),
-          lte(appointments.scheduledDate, endOfDay)
+          gte(appointments.scheduledDate, start),
+          lt(appointments.scheduledDate, end)
         )
       )
       .orderBy(asc(appointments.scheduledDate))
       .then(rows => 
         rows.map(row => ({
           ...row.appointments,
-          client: row.clients!,
+          client: redactClient(row.clients!),
           artist: row.artists!,
+          station: row.stations,
         }))
       );
   }
@@ -232,35 +905,1068 @@ export class DatabaseStorage implements IStorage {
       .from(appointments)
       .leftJoin(clients, eq(appointments.clientId, clients.id))
       .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
       .where(eq(appointments.artistId, artistId))
       .orderBy(desc(appointments.scheduledDate))
       .then(rows => 
         rows.map(row => ({
           ...row.appointments,
-          client: row.clients!,
+          client: redactClient(row.clients!),
+          artist: row.artists!,
+          station: row.stations,
+        }))
+      );
+  }
+
+  async getAppointmentsByProject(projectId: string): Promise<AppointmentWithRelations[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .leftJoin(clients, eq(appointments.clientId, clients.id))
+      .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
+      .where(eq(appointments.projectId, projectId))
+      .orderBy(asc(appointments.scheduledDate))
+      .then(rows => 
+        rows.map(row => ({
+          ...row.appointments,
+          client: redactClient(row.clients!),
+          artist: row.artists!,
+          station: row.stations,
+        }))
+      );
+  }
+
+  async getAppointmentsByClient(clientId: string): Promise<AppointmentWithRelations[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .leftJoin(clients, eq(appointments.clientId, clients.id))
+      .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
+      .where(eq(appointments.clientId, clientId))
+      .orderBy(desc(appointments.scheduledDate))
+      .then(rows => 
+        rows.map(row => ({
+          ...row.appointments,
+          client: redactClient(row.clients!),
           artist: row.artists!,
+          station: row.stations,
         }))
       );
   }
 
-  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
-    const [newAppointment] = await db.insert(appointments).values(appointment).returning();
-    return newAppointment;
+  // Only meaningful inside runInTransaction; the locks are held until it commits or rolls back.
+  // Taken in a fixed order so two bookings needing the same locks cannot deadlock
+  async lockSchedules(keys: string[]): Promise<void> {
+    for (const key of Array.from(new Set(keys)).sort()) {
+      await db.execute(sql`select pg_advisory_xact_lock(hashtext(${key}))`);
+    }
+  }
+
+  async getConflictingAppointments(
+    artistId: string,
+    start: Date,
+    end: Date,
+    excludeId?: string,
+  ): Promise<AppointmentWithRelations[]> {
+    return await this.getOverlappingAppointments(eq(appointments.artistId, artistId), start, end, excludeId);
+  }
+
+  async getStationConflicts(
+    stationId: string,
+    start: Date,
+    end: Date,
+    excludeId?: string,
+  ): Promise<AppointmentWithRelations[]> {
+    return await this.getOverlappingAppointments(eq(appointments.stationId, stationId), start, end, excludeId);
   }
 
-  async updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment> {
+  // Active appointments for one artist or station whose time, buffers included, overlaps the given range
+  private async getOverlappingAppointments(
+    owner: SQL,
+    start: Date,
+    end: Date,
+    excludeId?: string,
+  ): Promise<AppointmentWithRelations[]> {
+    const conditions: SQL[] = [
+      owner,
+      notInArray(appointmentStatus, [...inactiveAppointmentStatuses]),
+      sql`${appointments.scheduledDate} - (${appointments.setupMinutes} * interval '1 minute') < ${end.toISOString()}::timestamp`,
+      sql`${appointments.scheduledDate} + ((${appointments.duration} + ${appointments.cleanupMinutes}) * interval '1 minute') > ${start.toISOString()}::timestamp`,
+    ];
+    if (excludeId) {
+      conditions.push(ne(appointments.id, excludeId));
+    }
+
+    return await db
+      .select()
+      .from(appointments)
+      .leftJoin(clients, eq(appointments.clientId, clients.id))
+      .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
+      .where(and(...conditions))
+      .orderBy(asc(appointments.scheduledDate))
+      .then(rows => 
+        rows.map(row => ({
+          ...row.appointments,
+          client: redactClient(row.clients!),
+          artist: row.artists!,
+          station: row.stations,
+        }))
+      );
+  }
+
+  async createAppointment(appointment: AppointmentWrite, createdBy?: string): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      const [newAppointment] = await tx.insert(appointments).values(appointment).returning();
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: newAppointment.id,
+        fromStatus: null,
+        toStatus: newAppointment.status ?? 'scheduled',
+        changedBy: createdBy,
+      });
+      return newAppointment;
+    });
+  }
+
+  async updateAppointment(id: string, updates: Partial<AppointmentWrite>): Promise<Appointment> {
+    // Moving the session to another time counts as a reschedule
+    const rescheduled = updates.scheduledDate
+      ? {
+          rescheduleCount: sql`${appointments.rescheduleCount} + case when ${appointments.scheduledDate} <> ${new Date(updates.scheduledDate).toISOString()}::timestamp then 1 else 0 end`,
+        }
+      : {};
     const [updatedAppointment] = await db
       .update(appointments)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, ...rescheduled, updatedAt: new Date() })
       .where(eq(appointments.id, id))
       .returning();
     return updatedAppointment;
   }
 
+  // Returns undefined when the appointment was not waiting for approval
+  async approveAppointment(id: string, approvedBy: string): Promise<Appointment | undefined> {
+    const [appointment] = await db
+      .update(appointments)
+      .set({ approvedBy, approvedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(appointments.id, id),
+        eq(appointments.approvalRequired, true),
+        isNull(appointments.approvedAt),
+      ))
+      .returning();
+    return appointment;
+  }
+
+  // Returns undefined when the status was changed by someone else in the meantime
+  // Edits and a status change saved together; nothing is saved when the appointment has left `from`
+  async updateAppointmentWithStatus(
+    id: string,
+    updates: Partial<AppointmentWrite>,
+    from: AppointmentStatus,
+    to: AppointmentStatus,
+    changedBy?: string,
+  ): Promise<Appointment | undefined> {
+    try {
+      return await runInTransaction(async () => {
+        await this.updateAppointment(id, updates);
+        const changed = await this.changeAppointmentStatus(id, from, to, changedBy);
+        if (!changed) {
+          throw new TransactionRollbackError();
+        }
+        return changed;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async changeAppointmentStatus(
+    id: string,
+    from: AppointmentStatus,
+    to: AppointmentStatus,
+    changedBy?: string,
+    reason?: string,
+  ): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedAppointment] = await tx
+        .update(appointments)
+        .set({ status: to, updatedAt: new Date() })
+        .where(and(
+          eq(appointments.id, id),
+          eq(appointmentStatus, from),
+        ))
+        .returning();
+      if (!updatedAppointment) {
+        return undefined;
+      }
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: id,
+        fromStatus: from,
+        toStatus: to,
+        changedBy,
+        reason: reason || null,
+      });
+      return updatedAppointment;
+    });
+  }
+
+  async getAppointmentStatusHistory(appointmentId: string): Promise<AppointmentStatusChangeWithUser[]> {
+    return await db
+      .select()
+      .from(appointmentStatusHistory)
+      .leftJoin(users, eq(appointmentStatusHistory.changedBy, users.id))
+      .where(eq(appointmentStatusHistory.appointmentId, appointmentId))
+      .orderBy(asc(appointmentStatusHistory.changedAt))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.appointment_status_history,
+          user: row.users
+            ? {
+                id: row.users.id,
+                firstName: row.users.firstName,
+                lastName: row.users.lastName,
+                email: row.users.email,
+              }
+            : undefined,
+        }))
+      );
+  }
+
   async deleteAppointment(id: string): Promise<void> {
     await db.delete(appointments).where(eq(appointments.id, id));
   }
 
+  // Deposit operations
+  async recordDepositPayment(id: string, paymentMethod: string): Promise<Appointment | undefined> {
+    const [appointment] = await db
+      .update(appointments)
+      .set({
+        depositStatus: 'paid',
+        depositPaidAt: new Date(),
+        depositPaymentMethod: paymentMethod,
+        holdExpiresAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(appointments.id, id),
+        eq(appointments.depositStatus, 'pending'),
+        notInArray(appointmentStatus, [...inactiveAppointmentStatuses]),
+      ))
+      .returning();
+    return appointment;
+  }
+
+  // Returns undefined when the deposit is no longer in the expected state
+  async changeDepositStatus(id: string, from: DepositStatus, to: DepositStatus): Promise<Appointment | undefined> {
+    const [appointment] = await db
+      .update(appointments)
+      .set({ depositStatus: to, holdExpiresAt: null, updatedAt: new Date() })
+      .where(and(eq(appointments.id, id), eq(appointments.depositStatus, from)))
+      .returning();
+    return appointment;
+  }
+
+  // Keeps a paid deposit and books it as a completed sale so it shows up in revenue
+  async forfeitDeposit(id: string, note: string): Promise<Sale | undefined> {
+    return await db.transaction(async (tx) => {
+      const [appointment] = await tx
+        .update(appointments)
+        .set({ depositStatus: 'forfeited', updatedAt: new Date() })
+        .where(and(eq(appointments.id, id), eq(appointments.depositStatus, 'paid')))
+        .returning();
+      if (!appointment) {
+        return undefined;
+      }
+      const amount = appointment.depositAmount ?? '0';
+      const [sale] = await tx
+        .insert(sales)
+        .values({
+          appointmentId: appointment.id,
+          clientId: appointment.clientId,
+          artistId: appointment.artistId,
+          totalAmount: amount,
+          deposit: amount,
+          remainingBalance: '0',
+          paymentStatus: 'completed',
+          paymentMethod: appointment.depositPaymentMethod,
+          notes: note,
+        })
+        .returning();
+      return sale;
+    });
+  }
+
+  // Only holds on sessions that have not started; once the client is in, staff settle the deposit at checkout
+  async getExpiredDepositHolds(now: Date): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.depositStatus, 'pending'),
+        lte(appointments.holdExpiresAt, now),
+        inArray(appointmentStatus, [...reschedulableStatuses]),
+      ))
+      .orderBy(asc(appointments.holdExpiresAt));
+  }
+
+  // Cancels an unpaid hold so the slot opens up again
+  async expireDepositHold(id: string, from: AppointmentStatus): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [appointment] = await tx
+        .update(appointments)
+        .set({ status: 'cancelled', depositStatus: 'expired', updatedAt: new Date() })
+        .where(and(
+          eq(appointments.id, id),
+          eq(appointments.depositStatus, 'pending'),
+          eq(appointmentStatus, from),
+          inArray(appointmentStatus, [...reschedulableStatuses]),
+        ))
+        .returning();
+      if (!appointment) {
+        return undefined;
+      }
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: id,
+        fromStatus: from,
+        toStatus: 'cancelled',
+        reason: 'Deposit not paid before the hold expired',
+      });
+      return appointment;
+    });
+  }
+
+  // Records the final sale and marks the appointment's paid deposit as used by it
+  async createSaleFromDeposit(sale: InsertSale, appointmentId: string): Promise<Sale | undefined> {
+    return await db.transaction(async (tx) => {
+      const [appointment] = await tx
+        .update(appointments)
+        .set({ depositStatus: 'applied', updatedAt: new Date() })
+        .where(and(eq(appointments.id, appointmentId), eq(appointments.depositStatus, 'paid')))
+        .returning();
+      if (!appointment) {
+        return undefined;
+      }
+      const [newSale] = await tx.insert(sales).values(sale).returning();
+      return newSale;
+    });
+  }
+
+  // Waitlist operations
+  async getWaitlistEntries(status?: WaitlistEntry["status"]): Promise<WaitlistEntryWithRelations[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .leftJoin(clients, eq(waitlistEntries.clientId, clients.id))
+      .leftJoin(artists, eq(waitlistEntries.artistId, artists.id))
+      .where(status ? eq(waitlistEntries.status, status) : undefined)
+      .orderBy(asc(waitlistEntries.createdAt))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.waitlist_entries,
+          client: redactClient(row.clients!),
+          artist: row.artists!,
+        }))
+      );
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntryWithRelations | undefined> {
+    const [result] = await db
+      .select()
+      .from(waitlistEntries)
+      .leftJoin(clients, eq(waitlistEntries.clientId, clients.id))
+      .leftJoin(artists, eq(waitlistEntries.artistId, artists.id))
+      .where(eq(waitlistEntries.id, id));
+
+    if (!result) return undefined;
+
+    return {
+      ...result.waitlist_entries,
+      client: redactClient(result.clients!),
+      artist: result.artists!,
+    };
+  }
+
+  // Waiting entries for the artist whose date range covers the window and whose session fits in it
+  async getWaitlistMatches(artistId: string, start: Date, end: Date): Promise<WaitlistEntryWithRelations[]> {
+    const windowMinutes = Math.floor((end.getTime() - start.getTime()) / 60000);
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .leftJoin(clients, eq(waitlistEntries.clientId, clients.id))
+      .leftJoin(artists, eq(waitlistEntries.artistId, artists.id))
+      .where(and(
+        eq(waitlistEntries.artistId, artistId),
+        eq(waitlistEntries.status, 'waiting'),
+        lte(waitlistEntries.earliestDate, start),
+        gte(waitlistEntries.latestDate, end),
+        lte(waitlistEntries.duration, windowMinutes),
+      ))
+      .orderBy(asc(waitlistEntries.createdAt))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.waitlist_entries,
+          client: redactClient(row.clients!),
+          artist: row.artists!,
+        }))
+      );
+  }
+
+  async createWaitlistEntry(entry: InsertWaitlistEntry): Promise<WaitlistEntry> {
+    const [newEntry] = await db.insert(waitlistEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async deleteWaitlistEntry(id: string): Promise<void> {
+    await db.delete(waitlistEntries).where(eq(waitlistEntries.id, id));
+  }
+
+  // Returns undefined when the entry has already been booked
+  async bookWaitlistEntry(id: string, appointment: AppointmentWrite, bookedBy?: string): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .update(waitlistEntries)
+        .set({ status: 'booked', updatedAt: new Date() })
+        .where(and(eq(waitlistEntries.id, id), eq(waitlistEntries.status, 'waiting')))
+        .returning();
+      if (!entry) {
+        return undefined;
+      }
+      const [newAppointment] = await tx.insert(appointments).values(appointment).returning();
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: newAppointment.id,
+        fromStatus: null,
+        toStatus: newAppointment.status ?? 'scheduled',
+        changedBy: bookedBy,
+        reason: 'Booked from waitlist',
+      });
+      await tx
+        .update(waitlistEntries)
+        .set({ appointmentId: newAppointment.id })
+        .where(eq(waitlistEntries.id, id));
+      return newAppointment;
+    });
+  }
+
+  // Walk-in operations
+  private walkInQuery() {
+    return db
+      .select()
+      .from(walkIns)
+      .leftJoin(clients, eq(walkIns.clientId, clients.id))
+      .leftJoin(artists, eq(walkIns.artistId, artists.id));
+  }
+
+  // Waiting walk-ins that arrived after `since`, first come first served
+  async getWaitingWalkIns(since: Date): Promise<WalkInWithRelations[]> {
+    return await this.walkInQuery()
+      .where(and(eq(walkIns.status, 'waiting'), gte(walkIns.createdAt, since)))
+      .orderBy(asc(walkIns.createdAt))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.walk_ins,
+          client: redactClient(row.clients!),
+          artist: row.artists,
+        }))
+      );
+  }
+
+  async getWalkIn(id: string): Promise<WalkInWithRelations | undefined> {
+    const [result] = await this.walkInQuery().where(eq(walkIns.id, id));
+
+    if (!result) return undefined;
+
+    return {
+      ...result.walk_ins,
+      client: redactClient(result.clients!),
+      artist: result.artists,
+    };
+  }
+
+  async createWalkIn(walkIn: InsertWalkIn): Promise<WalkIn> {
+    const [newWalkIn] = await db.insert(walkIns).values(walkIn).returning();
+    return newWalkIn;
+  }
+
+  async deleteWalkIn(id: string): Promise<void> {
+    await db.delete(walkIns).where(eq(walkIns.id, id));
+  }
+
+  // Returns undefined when someone else has already picked the walk-in up
+  async startWalkIn(id: string, appointment: AppointmentWrite, startedBy?: string): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [walkIn] = await tx
+        .update(walkIns)
+        .set({ status: 'started', updatedAt: new Date() })
+        .where(and(eq(walkIns.id, id), eq(walkIns.status, 'waiting')))
+        .returning();
+      if (!walkIn) {
+        return undefined;
+      }
+      const [newAppointment] = await tx.insert(appointments).values(appointment).returning();
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: newAppointment.id,
+        fromStatus: null,
+        toStatus: newAppointment.status ?? 'in_progress',
+        changedBy: startedBy,
+        reason: 'Walk-in',
+      });
+      await tx
+        .update(walkIns)
+        .set({ appointmentId: newAppointment.id })
+        .where(eq(walkIns.id, id));
+      return newAppointment;
+    });
+  }
+
+  // Booking request operations
+  private bookingRequestQuery() {
+    return db
+      .select()
+      .from(bookingRequests)
+      .leftJoin(artists, eq(bookingRequests.artistId, artists.id))
+      .leftJoin(clients, sql`lower(${clients.email}) = lower(${bookingRequests.email})`);
+  }
+
+  async getBookingRequests(status?: BookingRequest["status"]): Promise<BookingRequestWithRelations[]> {
+    return await this.bookingRequestQuery()
+      .where(status ? eq(bookingRequests.status, status) : undefined)
+      .orderBy(asc(bookingRequests.createdAt))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.booking_requests,
+          artist: row.artists!,
+          matchingClient: row.clients ? redactClient(row.clients) : undefined,
+        }))
+      );
+  }
+
+  async getBookingRequest(id: string): Promise<BookingRequestWithRelations | undefined> {
+    const [result] = await this.bookingRequestQuery().where(eq(bookingRequests.id, id));
+
+    if (!result) return undefined;
+
+    return {
+      ...result.booking_requests,
+      artist: result.artists!,
+      matchingClient: result.clients ? redactClient(result.clients) : undefined,
+    };
+  }
+
+  async createBookingRequest(request: InsertBookingRequest): Promise<BookingRequest> {
+    const [newRequest] = await db.insert(bookingRequests).values(request).returning();
+    return newRequest;
+  }
+
+  // Creates the client (unless an existing one is given) and the appointment in one go.
+  // Returns undefined when the request is no longer pending.
+  async approveBookingRequest(
+    id: string,
+    client: { id: string } | InsertClient,
+    appointment: Omit<AppointmentWrite, "clientId">,
+    reviewedBy?: string,
+  ): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [request] = await tx
+        .update(bookingRequests)
+        .set({ status: 'approved', reviewedBy, reviewedAt: new Date() })
+        .where(and(eq(bookingRequests.id, id), eq(bookingRequests.status, 'pending')))
+        .returning();
+      if (!request) {
+        return undefined;
+      }
+
+      let clientId: string;
+      if ("id" in client) {
+        clientId = client.id;
+      } else {
+        const [newClient] = await tx.insert(clients).values(encryptClientFields(client)).returning();
+        clientId = newClient.id;
+      }
+
+      const [newAppointment] = await tx
+        .insert(appointments)
+        .values({ ...appointment, clientId })
+        .returning();
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: newAppointment.id,
+        fromStatus: null,
+        toStatus: newAppointment.status ?? 'scheduled',
+        changedBy: reviewedBy,
+        reason: 'Approved from online booking request',
+      });
+      await tx
+        .update(bookingRequests)
+        .set({ clientId, appointmentId: newAppointment.id })
+        .where(eq(bookingRequests.id, id));
+      return newAppointment;
+    });
+  }
+
+  async declineBookingRequest(id: string, reviewedBy?: string, reason?: string): Promise<BookingRequest | undefined> {
+    const [request] = await db
+      .update(bookingRequests)
+      .set({ status: 'declined', reviewedBy, reviewedAt: new Date(), declineReason: reason || null })
+      .where(and(eq(bookingRequests.id, id), eq(bookingRequests.status, 'pending')))
+      .returning();
+    return request;
+  }
+
+  // Calendar feed operations
+  private calendarFeedOwner(artistId: string | null) {
+    return artistId ? eq(calendarFeedTokens.artistId, artistId) : isNull(calendarFeedTokens.artistId);
+  }
+
+  async getActiveCalendarFeed(artistId: string | null): Promise<CalendarFeedToken | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeedTokens)
+      .where(and(this.calendarFeedOwner(artistId), isNull(calendarFeedTokens.revokedAt)));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeedToken | undefined> {
+    const [feed] = await db
+      .select()
+      .from(calendarFeedTokens)
+      .where(and(eq(calendarFeedTokens.token, token), isNull(calendarFeedTokens.revokedAt)));
+    return feed;
+  }
+
+  // Issues a new token and revokes the previous one, so old subscription URLs stop working
+  async rotateCalendarFeed(artistId: string | null, token: string, createdBy?: string): Promise<CalendarFeedToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(calendarFeedTokens)
+        .set({ revokedAt: new Date() })
+        .where(and(this.calendarFeedOwner(artistId), isNull(calendarFeedTokens.revokedAt)));
+      const [feed] = await tx
+        .insert(calendarFeedTokens)
+        .values({ artistId, token, createdBy })
+        .returning();
+      return feed;
+    });
+  }
+
+  async revokeCalendarFeed(artistId: string | null): Promise<void> {
+    await db
+      .update(calendarFeedTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(this.calendarFeedOwner(artistId), isNull(calendarFeedTokens.revokedAt)));
+  }
+
+  // Kiosk operations
+  async getActiveKioskToken(): Promise<KioskToken | undefined> {
+    const [kiosk] = await db.select().from(kioskTokens).where(isNull(kioskTokens.revokedAt));
+    return kiosk;
+  }
+
+  async getKioskToken(token: string): Promise<KioskToken | undefined> {
+    const [kiosk] = await db
+      .select()
+      .from(kioskTokens)
+      .where(and(eq(kioskTokens.token, token), isNull(kioskTokens.revokedAt)));
+    return kiosk;
+  }
+
+  // Issues a new token and revokes the previous one, so a lost tablet's link stops working
+  async rotateKioskToken(token: string, createdBy?: string): Promise<KioskToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(kioskTokens)
+        .set({ revokedAt: new Date() })
+        .where(isNull(kioskTokens.revokedAt));
+      const [kiosk] = await tx.insert(kioskTokens).values({ token, createdBy }).returning();
+      return kiosk;
+    });
+  }
+
+  async revokeKioskToken(): Promise<void> {
+    await db
+      .update(kioskTokens)
+      .set({ revokedAt: new Date() })
+      .where(isNull(kioskTokens.revokedAt));
+  }
+
+  // Appointments in the window that a client matching exactly by full name or phone can check in to
+  async findCheckInAppointments(
+    start: Date,
+    end: Date,
+    match: { fullName: string } | { phoneDigits: string },
+  ): Promise<AppointmentWithRelations[]> {
+    const clientMatch = "fullName" in match
+      ? sql`lower(${clients.firstName} || ' ' || ${clients.lastName}) = lower(${match.fullName})`
+      : sql`right(regexp_replace(coalesce(${clients.phone}, ''), '\\D', '', 'g'), ${match.phoneDigits.length}) = ${match.phoneDigits}`;
+
+    return await db
+      .select()
+      .from(appointments)
+      .innerJoin(clients, eq(appointments.clientId, clients.id))
+      .leftJoin(artists, eq(appointments.artistId, artists.id))
+      .leftJoin(stations, eq(appointments.stationId, stations.id))
+      .where(and(
+        gte(appointments.scheduledDate, start),
+        lt(appointments.scheduledDate, end),
+        inArray(appointmentStatus, [...checkInStatuses]),
+        clientMatch,
+      ))
+      .orderBy(asc(appointments.scheduledDate))
+      .then(rows =>
+        rows.map(row => ({
+          ...row.appointments,
+          client: row.clients && redactClient(row.clients),
+          artist: row.artists!,
+          station: row.stations,
+        }))
+      );
+  }
+
+  // Signs the forms, updates the client's contact details and checks in, all or nothing.
+  // Returns undefined when the appointment has left `from` in the meantime.
+  async checkInAppointment(
+    id: string,
+    from: AppointmentStatus,
+    signatures: InsertFormSignature[],
+    contact: Partial<Pick<InsertClient, "email" | "phone">>,
+  ): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [checkedIn] = await tx
+        .update(appointments)
+        .set({ status: 'checked_in', updatedAt: new Date() })
+        .where(and(
+          eq(appointments.id, id),
+          eq(appointmentStatus, from),
+        ))
+        .returning();
+      if (!checkedIn) {
+        return undefined;
+      }
+      await tx.insert(appointmentStatusHistory).values({
+        appointmentId: id,
+        fromStatus: from,
+        toStatus: 'checked_in',
+        reason: 'Checked in at kiosk',
+      });
+      if (signatures.length > 0) {
+        await tx.insert(formSignatures).values(signatures);
+      }
+      if (Object.keys(contact).length > 0) {
+        try {
+          // A savepoint, so a clash on the unique email only undoes the contact update
+          await tx.transaction(async (savepoint) => {
+            await savepoint
+              .update(clients)
+              .set({ ...contact, updatedAt: new Date() })
+              .where(eq(clients.id, checkedIn.clientId));
+          });
+        } catch (error) {
+          if ((error as { code?: string }).code !== '23505') throw error;
+          // The email belongs to another client record; keep the phone and leave the rest for staff to sort out
+          if (contact.phone !== undefined) {
+            await tx
+              .update(clients)
+              .set({ phone: contact.phone, updatedAt: new Date() })
+              .where(eq(clients.id, checkedIn.clientId));
+          }
+          await tx.insert(clientNotes).values({
+            clientId: checkedIn.clientId,
+            body: `Entered ${contact.email} at the kiosk, but another client already has that email. Check for a duplicate record.`,
+          });
+        }
+      }
+      return checkedIn;
+    });
+  }
+
+  // Consent form operations
+  async getConsentForms(): Promise<ConsentForm[]> {
+    return await db.select().from(consentForms).orderBy(asc(consentForms.title));
+  }
+
+  async getConsentForm(id: string): Promise<ConsentForm | undefined> {
+    const [form] = await db.select().from(consentForms).where(eq(consentForms.id, id));
+    return form;
+  }
+
+  async createConsentForm(form: InsertConsentForm): Promise<ConsentForm> {
+    const [newForm] = await db.insert(consentForms).values(form).returning();
+    return newForm;
+  }
+
+  async updateConsentForm(id: string, updates: UpdateConsentForm): Promise<ConsentForm | undefined> {
+    // New wording is a new version; signatures keep the text they were given
+    const reworded = [
+      updates.title !== undefined && sql`${consentForms.title} <> ${updates.title}`,
+      updates.body !== undefined && sql`${consentForms.body} <> ${updates.body}`,
+    ].filter((condition): condition is SQL => !!condition);
+    const versioned = reworded.length > 0
+      ? { version: sql`${consentForms.version} + case when ${sql.join(reworded, sql` or `)} then 1 else 0 end` }
+      : {};
+    const [form] = await db
+      .update(consentForms)
+      .set({ ...updates, ...versioned, updatedAt: new Date() })
+      .where(eq(consentForms.id, id))
+      .returning();
+    return form;
+  }
+
+  // Active forms required for the appointment's type that have not been signed for it yet
+  async getOutstandingForms(appointment: Pick<Appointment, "id" | "type">): Promise<ConsentForm[]> {
+    return await db
+      .select()
+      .from(consentForms)
+      .where(and(
+        eq(consentForms.isActive, true),
+        sql`(cardinality(${consentForms.appointmentTypes}) = 0 or ${appointment.type} = any(${consentForms.appointmentTypes}))`,
+        sql`not exists (
+          select 1 from ${formSignatures}
+          where ${formSignatures.formId} = ${consentForms.id}
+            and ${formSignatures.appointmentId} = ${appointment.id}
+        )`,
+      ))
+      .orderBy(asc(consentForms.title));
+  }
+
+  // Outstanding form count per upcoming appointment, leaving out appointments with nothing to sign
+  async getUnsignedFormCounts(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({
+        appointmentId: appointments.id,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(appointments)
+      .innerJoin(consentForms, and(
+        eq(consentForms.isActive, true),
+        sql`(cardinality(${consentForms.appointmentTypes}) = 0 or ${appointments.type} = any(${consentForms.appointmentTypes}))`,
+      ))
+      .where(and(
+        inArray(appointmentStatus, ['scheduled', 'confirmed', 'checked_in']),
+        sql`not exists (
+          select 1 from ${formSignatures}
+          where ${formSignatures.formId} = ${consentForms.id}
+            and ${formSignatures.appointmentId} = ${appointments.id}
+        )`,
+      ))
+      .groupBy(appointments.id);
+    return Object.fromEntries(rows.map((row) => [row.appointmentId, row.count]));
+  }
+
+  async getAppointmentSignatures(appointmentId: string): Promise<FormSignature[]> {
+    return await db
+      .select()
+      .from(formSignatures)
+      .where(eq(formSignatures.appointmentId, appointmentId))
+      .orderBy(asc(formSignatures.signedAt));
+  }
+
+  // Signatures taken before forms were versioned get the form's text; it could not be edited back then
+  async backfillSignatureSnapshots(): Promise<number> {
+    const backfilled = await db
+      .update(formSignatures)
+      .set({
+        formTitle: sql`(select ${consentForms.title} from ${consentForms} where ${consentForms.id} = ${formSignatures.formId})`,
+        formBody: sql`(select ${consentForms.body} from ${consentForms} where ${consentForms.id} = ${formSignatures.formId})`,
+      })
+      .where(eq(formSignatures.formTitle, ''))
+      .returning({ id: formSignatures.id });
+    return backfilled.length;
+  }
+
+  // Returns undefined when the form was already signed for the appointment
+  async createFormSignature(signature: InsertFormSignature): Promise<FormSignature | undefined> {
+    const [newSignature] = await db
+      .insert(formSignatures)
+      .values(signature)
+      .onConflictDoNothing()
+      .returning();
+    return newSignature;
+  }
+
+  async getClientSignatures(clientId: string): Promise<FormSignature[]> {
+    return await db
+      .select()
+      .from(formSignatures)
+      .where(eq(formSignatures.clientId, clientId))
+      .orderBy(desc(formSignatures.signedAt));
+  }
+
+  // Guardian consent operations
+  async getGuardianConsent(appointmentId: string): Promise<GuardianConsent | undefined> {
+    const [consent] = await db
+      .select()
+      .from(guardianConsents)
+      .where(eq(guardianConsents.appointmentId, appointmentId));
+    return consent;
+  }
+
+  // Undefined when a guardian has already consented for the appointment
+  async createGuardianConsent(consent: InsertGuardianConsent): Promise<GuardianConsent | undefined> {
+    const [newConsent] = await db
+      .insert(guardianConsents)
+      .values(consent)
+      .onConflictDoNothing()
+      .returning();
+    return newConsent;
+  }
+
+  // Notification operations
+  async getNotifications(userId: string, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  // Reminder operations
+  async getAppointmentReminders(appointmentId: string): Promise<AppointmentReminderWithAttempts[]> {
+    const reminders = await db
+      .select()
+      .from(appointmentReminders)
+      .where(eq(appointmentReminders.appointmentId, appointmentId))
+      .orderBy(desc(appointmentReminders.createdAt), desc(appointmentReminders.hoursBefore));
+    if (reminders.length === 0) return [];
+
+    const attempts = await db
+      .select()
+      .from(reminderDeliveryAttempts)
+      .where(inArray(reminderDeliveryAttempts.reminderId, reminders.map((reminder) => reminder.id)))
+      .orderBy(asc(reminderDeliveryAttempts.attemptedAt));
+
+    return reminders.map((reminder) => ({
+      ...reminder,
+      deliveryAttempts: attempts.filter((attempt) => attempt.reminderId === reminder.id),
+    }));
+  }
+
+  async createAppointmentReminders(reminders: InsertAppointmentReminder[]): Promise<AppointmentReminder[]> {
+    if (reminders.length === 0) return [];
+    return await db.insert(appointmentReminders).values(reminders).returning();
+  }
+
+  async cancelPendingReminders(appointmentId: string, keepIds: string[] = []): Promise<void> {
+    const conditions = [
+      eq(appointmentReminders.appointmentId, appointmentId),
+      eq(appointmentReminders.status, 'pending'),
+    ];
+    if (keepIds.length > 0) {
+      conditions.push(notInArray(appointmentReminders.id, keepIds));
+    }
+    await db
+      .update(appointmentReminders)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(...conditions));
+  }
+
+  async getDueReminders(now: Date, limit: number): Promise<AppointmentReminder[]> {
+    return await db
+      .select()
+      .from(appointmentReminders)
+      .where(and(
+        eq(appointmentReminders.status, 'pending'),
+        lte(appointmentReminders.nextAttemptAt, now),
+      ))
+      .orderBy(asc(appointmentReminders.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async getSentRemindersByClient(clientId: string): Promise<AppointmentReminder[]> {
+    return await db
+      .select({ reminder: appointmentReminders })
+      .from(appointmentReminders)
+      .innerJoin(appointments, eq(appointmentReminders.appointmentId, appointments.id))
+      .where(and(
+        eq(appointments.clientId, clientId),
+        eq(appointmentReminders.status, 'sent'),
+      ))
+      .orderBy(desc(appointmentReminders.sentAt))
+      .then(rows => rows.map(row => row.reminder));
+  }
+
+  // Logs the attempt and moves the reminder on: sent on success, back to pending
+  // with a later retry time, or failed once no retry is given
+  async recordReminderAttempt(
+    id: string,
+    attempt: { transport: string; recipient: string; error?: string },
+    retryAt?: Date,
+  ): Promise<AppointmentReminder> {
+    return await db.transaction(async (tx) => {
+      const success = !attempt.error;
+      await tx.insert(reminderDeliveryAttempts).values({
+        reminderId: id,
+        transport: attempt.transport,
+        recipient: attempt.recipient,
+        success,
+        error: attempt.error ?? null,
+      });
+      const now = new Date();
+      const [reminder] = await tx
+        .update(appointmentReminders)
+        .set({
+          status: success ? 'sent' : retryAt ? 'pending' : 'failed',
+          attempts: sql`${appointmentReminders.attempts} + 1`,
+          lastError: attempt.error ?? null,
+          sentAt: success ? now : null,
+          nextAttemptAt: retryAt ?? now,
+          updatedAt: now,
+        })
+        .where(eq(appointmentReminders.id, id))
+        .returning();
+      return reminder;
+    });
+  }
+
+  // Studio settings operations
+  async getStudioSettings(): Promise<StudioSettings> {
+    const [settings] = await db.select().from(studioSettings).where(eq(studioSettings.id, 'default'));
+    if (settings) {
+      return settings;
+    }
+    // First read creates the row with the column defaults
+    const [created] = await db
+      .insert(studioSettings)
+      .values({ id: 'default' })
+      .onConflictDoUpdate({ target: studioSettings.id, set: { id: 'default' } })
+      .returning();
+    return created;
+  }
+
+  async updateStudioSettings(updates: UpdateStudioSettings, updatedBy?: string): Promise<StudioSettings> {
+    const [settings] = await db
+      .insert(studioSettings)
+      .values({ ...updates, id: 'default', updatedBy })
+      .onConflictDoUpdate({
+        target: studioSettings.id,
+        set: { ...updates, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
   // Inventory operations
   async getInventory(): Promise<InventoryItem[]> {
     return await db.select().from(inventory).orderBy(asc(inventory.name));
@@ -309,7 +2015,7 @@ export class DatabaseStorage implements IStorage {
       .then(rows => 
         rows.map(row => ({
           ...row.sales,
-          client: row.clients!,
+          client: redactClient(row.clients!),
           artist: row.artists!,
           appointment: row.appointments || undefined,
         }))
@@ -329,12 +2035,32 @@ export class DatabaseStorage implements IStorage {
     
     return {
       ...row.sales,
-      client: row.clients!,
+      client: redactClient(row.clients!),
       artist: row.artists!,
       appointment: row.appointments || undefined,
     };
   }
 
+  async getSalesByClient(clientId: string): Promise<SaleWithRelations[]> {
+    return await db
+      .select()
+      .from(sales)
+      .leftJoin(clients, eq(sales.clientId, clients.id))
+      .leftJoin(artists, eq(sales.artistId, artists.id))
+      .leftJoin(appointments, eq(sales.appointmentId, appointments.id))
+      .where(eq(sales.clientId, clientId))
+      .orderBy(desc(sales.saleDate))
+      .then(rows => 
+        rows.map(row => ({
+          ...row.sales,
+          client: redactClient(row.clients!),
+          artist: row.artists!,
+          appointment: row.appointments || undefined,
+        }))
+      );
+  }
+
+  // The end date is exclusive
   async getSalesByDateRange(startDate: Date, endDate: Date): Promise<SaleWithRelations[]> {
     return await db
       .select()
@@ -345,14 +2071,14 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           gte(sales.saleDate, startDate),
-          lte(sales.saleDate, endDate)
+          lt(sales.saleDate, endDate)
         )
       )
       .orderBy(desc(sales.saleDate))
       .then(rows => 
         rows.map(row => ({
           ...row.sales,
-          client: row.clients!,
+          client: redactClient(row.clients!),
           artist: row.artists!,
           appointment: row.appointments || undefined,
         }))
@@ -378,37 +2104,36 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Dashboard stats
-  async getDashboardStats(): Promise<{
+  // "Today" and "this month" are counted in the studio's time zone
+  async getDashboardStats(timeZone: string): Promise<{
     todayAppointments: number;
+    todayAppointmentsByType: Partial<Record<AppointmentType, number>>;
     monthlyRevenue: number;
     activeArtists: number;
     lowStockItems: number;
   }> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+    const now = new Date();
+    const today = getZonedPeriodRange("today", now, timeZone);
+    const month = getZonedPeriodRange("month", now, timeZone);
 
-    const [todayAppointmentsResult] = await db
-      .select({ count: sql<number>`count(*)` })
+    const todayAppointmentsResult = await db
+      .select({ type: appointments.type, count: sql<number>`count(*)` })
       .from(appointments)
       .where(
         and(
-          gte(appointments.scheduledDate, today),
-          lte(appointments.scheduledDate, tomorrow)
+          gte(appointments.scheduledDate, today.start),
+          lt(appointments.scheduledDate, today.end)
         )
-      );
+      )
+      .groupBy(appointments.type);
 
     const [monthlyRevenueResult] = await db
       .select({ sum: sql<number>`COALESCE(sum(${sales.totalAmount}), 0)` })
       .from(sales)
       .where(
         and(
-          gte(sales.saleDate, startOfMonth),
-          lte(sales.saleDate, endOfMonth)
+          gte(sales.saleDate, month.start),
+          lt(sales.saleDate, month.end)
         )
       );
 
@@ -423,7 +2148,10 @@ export class DatabaseStorage implements IStorage {
       .where(sql`${inventory.currentStock} <= ${inventory.minLevel}`);
 
     return {
-      todayAppointments: todayAppointmentsResult.count,
+      todayAppointments: todayAppointmentsResult.reduce((total, row) => total + Number(row.count), 0),
+      todayAppointmentsByType: Object.fromEntries(
+        todayAppointmentsResult.map((row) => [row.type, Number(row.count)])
+      ),
       monthlyRevenue: Number(monthlyRevenueResult.sum),
       activeArtists: activeArtistsResult.count,
       lowStockItems: lowStockItemsResult.count,
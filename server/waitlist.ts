@@ -0,0 +1,47 @@
+import { storage } from "./storage";
+import { checkAppointmentSlot, getAppointmentEnd } from "./scheduling";
+import type { Appointment, WaitlistCandidate } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ranked waitlist entries that could take over a cancelled appointment's slot
+export async function findWaitlistCandidates(appointment: Appointment): Promise<WaitlistCandidate[]> {
+  if (appointment.status !== "cancelled") {
+    return [];
+  }
+
+  const start = new Date(appointment.scheduledDate);
+  const end = getAppointmentEnd(start, appointment.duration);
+  const now = new Date();
+  if (start <= now) {
+    return [];
+  }
+
+  const matches = await storage.getWaitlistMatches(appointment.artistId, start, end);
+  const candidates: WaitlistCandidate[] = [];
+  for (const entry of matches) {
+    // The client who cancelled is not offered their own slot back
+    if (entry.clientId === appointment.clientId) continue;
+
+    // Someone may already have been booked into part of the window
+    const slotCheck = await checkAppointmentSlot({
+      artistId: entry.artistId,
+      scheduledDate: start,
+      duration: entry.duration,
+      status: "scheduled",
+    });
+    if (!slotCheck.ok) continue;
+
+    candidates.push({
+      ...entry,
+      unusedMinutes: appointment.duration - entry.duration,
+      waitingDays: Math.floor((now.getTime() - new Date(entry.createdAt ?? now).getTime()) / DAY_MS),
+    });
+  }
+
+  // Closest fit first, then whoever has been waiting longest
+  return candidates.sort(
+    (a, b) => a.unusedMinutes - b.unusedMinutes ||
+      new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime(),
+  );
+}
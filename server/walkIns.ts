@@ -0,0 +1,96 @@
+import { storage } from "./storage";
+import { getBusyPeriods, getOccupiedRange, resolveBuffers } from "./scheduling";
+import { computeOpenSlots, type TimeRange } from "@shared/workingHours";
+import { getZonedDayRange, getZonedParts } from "@shared/timezone";
+import type {
+  AppointmentType,
+  Artist,
+  ArtistFreeTime,
+  WalkInQueue,
+  WalkInQueueEntry,
+  WalkInWithRelations,
+} from "@shared/schema";
+
+// Granularity of free time and wait estimates
+const STEP_MINUTES = 5;
+
+// Today's waiting walk-ins in arrival order, each expected to be picked up at the earliest
+// opening left today with their preferred artist, or with whoever frees up first, after
+// everyone ahead of them in the queue has been seen
+export async function getWalkInQueue(now: Date = new Date()): Promise<WalkInQueue> {
+  const { timeZone } = await storage.getStudioSettings();
+  const today = getZonedDayRange(getZonedParts(now, timeZone), timeZone);
+  const [waiting, allArtists] = await Promise.all([
+    storage.getWaitingWalkIns(today.start),
+    storage.getArtists(),
+  ]);
+  // Artists without configured hours have no free time to offer
+  const artists = allArtists.filter((artist) => artist.isActive && artist.workingHours);
+
+  const busyPeriods = new Map<string, TimeRange[]>();
+  const getBusy = async (artist: Artist, type: AppointmentType | undefined) => {
+    const key = `${artist.id}:${type ?? ""}`;
+    if (!busyPeriods.has(key)) {
+      busyPeriods.set(key, await getBusyPeriods(artist, type, now, today.end));
+    }
+    return busyPeriods.get(key)!;
+  };
+  // Time already promised to walk-ins further up the queue
+  const claimed = new Map<string, TimeRange[]>(artists.map((artist) => [artist.id, []]));
+
+  const findOpening = async (artist: Artist, type: AppointmentType, duration: number) => {
+    const busy = [...(await getBusy(artist, type)), ...claimed.get(artist.id)!];
+    return computeOpenSlots(artist.workingHours, busy, now, today.end, duration, STEP_MINUTES, timeZone)[0];
+  };
+
+  const freeTime: ArtistFreeTime[] = [];
+  for (const artist of artists) {
+    const busy = await getBusy(artist, undefined);
+    const free = computeOpenSlots(artist.workingHours, busy, now, today.end, STEP_MINUTES, STEP_MINUTES, timeZone);
+    freeTime.push({
+      artistId: artist.id,
+      artistName: artist.name,
+      freeMinutes: free.length * STEP_MINUTES,
+      nextFreeAt: free[0]?.start ?? null,
+    });
+  }
+
+  const entries: WalkInQueueEntry[] = [];
+  for (const walkIn of waiting) {
+    entries.push(await estimatePickup(walkIn, artists, findOpening, claimed, now));
+  }
+
+  return { entries, artists: freeTime };
+}
+
+async function estimatePickup(
+  walkIn: WalkInWithRelations,
+  artists: Artist[],
+  findOpening: (artist: Artist, type: AppointmentType, duration: number) => Promise<TimeRange | undefined>,
+  claimed: Map<string, TimeRange[]>,
+  now: Date,
+): Promise<WalkInQueueEntry> {
+  const candidates = walkIn.artistId ? artists.filter((artist) => artist.id === walkIn.artistId) : artists;
+
+  let best: { artist: Artist; opening: TimeRange } | undefined;
+  for (const artist of candidates) {
+    const opening = await findOpening(artist, walkIn.type, walkIn.duration);
+    if (opening && (!best || opening.start < best.opening.start)) {
+      best = { artist, opening };
+    }
+  }
+
+  if (!best) {
+    return { ...walkIn, estimatedArtistId: null, estimatedStart: null, estimatedWaitMinutes: null };
+  }
+
+  claimed.get(best.artist.id)!.push(
+    getOccupiedRange(best.opening.start, walkIn.duration, resolveBuffers(walkIn, best.artist)),
+  );
+  return {
+    ...walkIn,
+    estimatedArtistId: best.artist.id,
+    estimatedStart: best.opening.start,
+    estimatedWaitMinutes: Math.max(0, Math.round((best.opening.start.getTime() - now.getTime()) / 60000)),
+  };
+}
@@ -0,0 +1,84 @@
+import { getZonedParts, parseDateKey, toDateKey, type CalendarDate } from "./timezone";
+import type { GuardianIdType, MinorPolicy, StudioSettings } from "./schema";
+
+type AgePolicy = Pick<StudioSettings, "timeZone" | "minimumAge" | "minorPolicy">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A date of birth is a plain calendar date stored at UTC midnight, so it is read in UTC rather than
+// the studio's zone. Rounding to the nearest day also reads older entries saved at browser-local midnight
+export function getDateOfBirthParts(dateOfBirth: Date | string): CalendarDate {
+  const date = new Date(Math.round(new Date(dateOfBirth).getTime() / DAY_MS) * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+// e.g. "2008-10-20", as a date input shows it
+export function getDateOfBirthKey(dateOfBirth: Date | string): string {
+  return toDateKey(getDateOfBirthParts(dateOfBirth));
+}
+
+// From a date input's value; undefined when it is empty or malformed
+export function parseDateOfBirth(key: string): Date | undefined {
+  const date = parseDateKey(key);
+  return date && new Date(Date.UTC(date.year, date.month - 1, date.day));
+}
+
+export function formatDateOfBirth(dateOfBirth: Date | string): string {
+  const { year, month, day } = getDateOfBirthParts(dateOfBirth);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", { timeZone: "UTC" });
+}
+
+// Whole years completed by the studio's calendar day of `on`; a 29 February birthday counts from 1 March
+export function getAgeOn(dateOfBirth: Date | string, on: Date | string, timeZone: string): number {
+  const birth = getDateOfBirthParts(dateOfBirth);
+  const day = getZonedParts(on, timeZone);
+  const hadBirthday = day.month > birth.month || (day.month === birth.month && day.day >= birth.day);
+  return day.year - birth.year - (hadBirthday ? 0 : 1);
+}
+
+// Null when the date of birth is not on file
+export function getAgeAtAppointment(
+  dateOfBirth: Date | string | null | undefined,
+  scheduledDate: Date | string,
+  timeZone: string,
+): number | null {
+  return dateOfBirth ? getAgeOn(dateOfBirth, scheduledDate, timeZone) : null;
+}
+
+export function isUnderAge(age: number | null, policy: Pick<AgePolicy, "minimumAge">): boolean {
+  return age !== null && age < policy.minimumAge;
+}
+
+// Why the client cannot be booked for that day, if the studio turns minors away
+export function getUnderAgeMessage(
+  dateOfBirth: Date | string | null | undefined,
+  scheduledDate: Date | string,
+  policy: AgePolicy,
+): string | undefined {
+  const age = getAgeAtAppointment(dateOfBirth, scheduledDate, policy.timeZone);
+  if (policy.minorPolicy !== "block" || !isUnderAge(age, policy)) return undefined;
+  return `The client will be ${age} on the appointment date; the studio only books clients aged ${policy.minimumAge} or over`;
+}
+
+export function guardianConsentStatement(
+  guardian: { guardianName: string; relationship: string },
+  clientName: string,
+  minimumAge: number,
+): string {
+  const { guardianName, relationship } = guardian;
+  return `I, ${guardianName}, am the ${relationship} of ${clientName}, who is under ${minimumAge}. ` +
+    `I consent to ${clientName} receiving the service booked for this appointment, I have read the studio's ` +
+    `consent forms on their behalf, and I confirm the identification I have shown is my own and valid.`;
+}
+
+export const minorPolicyLabels: Record<MinorPolicy, string> = {
+  block: "Turn them away",
+  guardian_consent: "Book with a guardian's signed consent",
+};
+
+export const guardianIdTypeLabels: Record<GuardianIdType, string> = {
+  drivers_license: "Driver's license",
+  passport: "Passport",
+  state_id: "State ID card",
+  other: "Other photo ID",
+};
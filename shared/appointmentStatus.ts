@@ -0,0 +1,43 @@
+import type { AppointmentStatus } from "./schema";
+
+export const appointmentStatusLabels: Record<AppointmentStatus, string> = {
+  scheduled: "Scheduled",
+  confirmed: "Confirmed",
+  checked_in: "Checked In",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  no_show: "No Show",
+};
+
+// Allowed next statuses; completed, cancelled and no_show are final
+export const appointmentStatusTransitions: Record<AppointmentStatus, readonly AppointmentStatus[]> = {
+  scheduled: ["confirmed", "checked_in", "cancelled", "no_show"],
+  confirmed: ["checked_in", "in_progress", "cancelled", "no_show"],
+  checked_in: ["in_progress", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+// Statuses a client can check in from when they arrive
+export const checkInStatuses: readonly AppointmentStatus[] = ["scheduled", "confirmed"];
+
+// Only bookings that have not started can be moved around
+export const reschedulableStatuses: readonly AppointmentStatus[] = ["scheduled", "confirmed"];
+
+// Statuses a booking may be created with
+export const initialAppointmentStatuses: readonly AppointmentStatus[] = ["scheduled", "confirmed"];
+
+export function getAllowedTransitions(from: AppointmentStatus | null): readonly AppointmentStatus[] {
+  return appointmentStatusTransitions[from ?? "scheduled"];
+}
+
+export function canTransition(from: AppointmentStatus | null, to: AppointmentStatus): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+export function isFinalStatus(status: AppointmentStatus | null): boolean {
+  return getAllowedTransitions(status).length === 0;
+}
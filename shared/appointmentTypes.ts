@@ -0,0 +1,93 @@
+import type { AppointmentType, InsertAppointment } from "./schema";
+
+export const appointmentTypeLabels: Record<AppointmentType, string> = {
+  consultation: "Consultation",
+  tattoo: "Tattoo Session",
+  touch_up: "Touch-up",
+  piercing: "Piercing",
+};
+
+// free: never billed; hourly: estimated from the artist's hourly rate; quoted: priced by hand
+export type AppointmentPricing = "free" | "hourly" | "quoted";
+
+export type TypeRequiredField = "description" | "originalAppointmentId";
+
+export interface AppointmentTypeRules {
+  defaultDuration: number;
+  pricing: AppointmentPricing;
+  // Whether the studio's default deposit applies when none is given
+  takesDeposit: boolean;
+  // Sessions without needles need no setup or cleanup time
+  usesBuffers: boolean;
+  requiredFields: readonly TypeRequiredField[];
+}
+
+export const appointmentTypeRules: Record<AppointmentType, AppointmentTypeRules> = {
+  consultation: {
+    defaultDuration: 30,
+    pricing: "free",
+    takesDeposit: false,
+    usesBuffers: false,
+    requiredFields: [],
+  },
+  tattoo: {
+    defaultDuration: 120,
+    pricing: "hourly",
+    takesDeposit: true,
+    usesBuffers: true,
+    requiredFields: ["description"],
+  },
+  touch_up: {
+    defaultDuration: 60,
+    pricing: "free",
+    takesDeposit: false,
+    usesBuffers: true,
+    requiredFields: ["originalAppointmentId"],
+  },
+  piercing: {
+    defaultDuration: 30,
+    pricing: "quoted",
+    takesDeposit: false,
+    usesBuffers: true,
+    requiredFields: [],
+  },
+};
+
+const requiredFieldMessages: Record<TypeRequiredField, string> = {
+  description: "needs a description of the design",
+  originalAppointmentId: "must reference the original appointment",
+};
+
+// Appointment types a touch-up can follow up on
+export const touchUpOriginalTypes: readonly AppointmentType[] = ["tattoo"];
+
+export function getTypeRules(type: AppointmentType | null | undefined): AppointmentTypeRules {
+  return appointmentTypeRules[type ?? "tattoo"];
+}
+
+export function isBillableType(type: AppointmentType | null | undefined): boolean {
+  return getTypeRules(type).pricing !== "free";
+}
+
+// The first required field the appointment is missing, if any
+export function getMissingTypeField(
+  appointment: Pick<InsertAppointment, "type" | "description" | "originalAppointmentId">,
+): { field: TypeRequiredField; message: string } | undefined {
+  const type = appointment.type ?? "tattoo";
+  const field = appointmentTypeRules[type].requiredFields.find((name) => !appointment[name]?.trim());
+  return field && { field, message: `A ${appointmentTypeLabels[type].toLowerCase()} ${requiredFieldMessages[field]}` };
+}
+
+// Price estimate for a new booking, or undefined when it has to be quoted by hand
+export function estimateTypePrice(
+  type: AppointmentType | null | undefined,
+  duration: number,
+  hourlyRate: string | null | undefined,
+): string | undefined {
+  const rules = getTypeRules(type);
+  if (rules.pricing === "free") return "0.00";
+  if (rules.pricing === "hourly" && hourlyRate) {
+    return ((Number(hourlyRate) * duration) / 60).toFixed(2);
+  }
+  return undefined;
+}
@@ -0,0 +1,175 @@
+import { getDateOfBirthKey } from "./age";
+import type { Client, DuplicateMatchReason, InsertClient } from "./schema";
+
+// Points each kind of match adds to a pair's score
+const MATCH_WEIGHTS: Record<DuplicateMatchReason, number> = {
+  email: 50,
+  phone: 40,
+  name: 30,
+  date_of_birth: 20,
+};
+
+// Family members often share a phone or email, so clearly different names count against a pair
+const DIFFERENT_NAME_PENALTY = 20;
+const NAME_MATCH_SIMILARITY = 0.85;
+const DIFFERENT_NAME_SIMILARITY = 0.5;
+
+export const DUPLICATE_SCORE_THRESHOLD = 40;
+
+export const duplicateMatchReasonLabels: Record<DuplicateMatchReason, string> = {
+  email: "Same email",
+  phone: "Same phone",
+  name: "Similar name",
+  date_of_birth: "Same date of birth",
+};
+
+// Digits only; longer numbers keep their last ten so "+1 (555) 010-2030" matches "555 010 2030"
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  if (digits.length < 7) return null;
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+// The digits of a search that looks like a phone number, or null when it is anything else
+export function normalizeSearchDigits(query: string): string | null {
+  if (!/^[\d\s()+.-]+$/.test(query.trim())) return null;
+  const digits = query.replace(/\D/g, "");
+  if (digits.length < 3) return null;
+  // A typed country code should not stop a match on a number saved without one
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+// Lower case without a "+tag" on the mailbox
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const trimmed = email?.trim().toLowerCase();
+  if (!trimmed?.includes("@")) return null;
+  const [mailbox, domain] = trimmed.split("@");
+  return `${mailbox.split("+")[0]}@${domain}`;
+}
+
+// Letters only, without accents
+export function normalizeName(name: string): string {
+  return name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical strings down to 0 for nothing in common
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+type ClientName = Pick<Client, "firstName" | "lastName">;
+
+// Best of the names as written and with first and last name swapped
+export function nameSimilarity(a: ClientName, b: ClientName): number {
+  const [aFirst, aLast, bFirst, bLast] = [a.firstName, a.lastName, b.firstName, b.lastName].map(normalizeName);
+  const asWritten = (similarity(aFirst, bFirst) + similarity(aLast, bLast)) / 2;
+  const swapped = (similarity(aFirst, bLast) + similarity(aLast, bFirst)) / 2;
+  return Math.max(asWritten, swapped);
+}
+
+export function scoreDuplicate(a: Client, b: Client): { score: number; reasons: DuplicateMatchReason[] } {
+  const reasons: DuplicateMatchReason[] = [];
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) reasons.push("email");
+  const phone = normalizePhone(a.phone);
+  if (phone && phone === normalizePhone(b.phone)) reasons.push("phone");
+  if (a.dateOfBirth && b.dateOfBirth && getDateOfBirthKey(a.dateOfBirth) === getDateOfBirthKey(b.dateOfBirth)) {
+    reasons.push("date_of_birth");
+  }
+
+  const names = nameSimilarity(a, b);
+  let score = reasons.reduce((total, reason) => total + MATCH_WEIGHTS[reason], 0);
+  if (names >= NAME_MATCH_SIMILARITY) {
+    reasons.push("name");
+    score += Math.round(MATCH_WEIGHTS.name * names);
+  } else if (names < DIFFERENT_NAME_SIMILARITY) {
+    score -= DIFFERENT_NAME_PENALTY;
+  }
+  return { score: Math.max(score, 0), reasons };
+}
+
+function combineText(kept: string | null, merged: string | null): string | null {
+  if (!kept?.trim()) return merged || null;
+  if (!merged?.trim() || merged.trim() === kept.trim()) return kept;
+  return `${kept}\n\n${merged}`;
+}
+
+// The survivor keeps its own details, fills gaps from the duplicate and keeps the medical notes of both
+export function combineClientDetails(survivor: Client, duplicate: Client): Partial<InsertClient> {
+  return {
+    email: survivor.email || duplicate.email || null,
+    phone: survivor.phone || duplicate.phone || null,
+    dateOfBirth: survivor.dateOfBirth ?? duplicate.dateOfBirth,
+    address: survivor.address || duplicate.address || null,
+    emergencyContact: survivor.emergencyContact || duplicate.emergencyContact || null,
+    medicalNotes: combineText(survivor.medicalNotes, duplicate.medicalNotes),
+  };
+}
+
+export type HighlightRange = [start: number, end: number];
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const merged: HighlightRange[] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+// The run of characters holding the searched digits, skipping spaces, dashes and brackets
+function getPhoneRanges(text: string, digits: string): HighlightRange[] {
+  const positions = Array.from(text).flatMap((char, index) => (/\d/.test(char) ? [index] : []));
+  const start = positions.map((index) => text[index]).join("").indexOf(digits);
+  if (start === -1) return [];
+  return [[positions[start], positions[start + digits.length - 1] + 1]];
+}
+
+// Where a search matched in a field: exact occurrences of each search word, or failing that
+// whole words that are close to it, so a misspelled search still points at what it found
+export function getHighlightRanges(text: string, query: string): HighlightRange[] {
+  const digits = normalizeSearchDigits(query);
+  if (digits) {
+    const ranges = getPhoneRanges(text, digits);
+    if (ranges.length > 0) return ranges;
+  }
+
+  const lowerText = text.toLowerCase();
+  const words = Array.from(text.matchAll(/[^\s@.,;:()+-]+/g));
+  const ranges: HighlightRange[] = [];
+  for (const token of query.toLowerCase().split(/\s+/).filter((part) => part.length >= 2)) {
+    let found = false;
+    for (let index = lowerText.indexOf(token); index !== -1; index = lowerText.indexOf(token, index + token.length)) {
+      ranges.push([index, index + token.length]);
+      found = true;
+    }
+    if (found) continue;
+    for (const word of words) {
+      if (similarity(normalizeName(word[0]), normalizeName(token)) >= 0.6) {
+        ranges.push([word.index!, word.index! + word[0].length]);
+      }
+    }
+  }
+  return mergeRanges(ranges);
+}
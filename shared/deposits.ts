@@ -0,0 +1,29 @@
+import type { DepositStatus } from "./schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const depositStatusLabels: Record<DepositStatus, string> = {
+  not_required: "No deposit",
+  pending: "Deposit due",
+  paid: "Deposit paid",
+  applied: "Applied to sale",
+  forfeited: "Forfeited",
+  expired: "Hold expired",
+  refund_due: "Refund due",
+  refunded: "Refunded",
+};
+
+// The deposit amount can only be changed before any money has been taken
+export const editableDepositStatuses: readonly DepositStatus[] = ["not_required", "pending"];
+
+// Cancelling inside the policy window counts as a late cancellation
+export function isLateCancellation(scheduledDate: Date | string, lateCancellationHours: number, now = new Date()): boolean {
+  return new Date(scheduledDate).getTime() - now.getTime() < lateCancellationHours * HOUR_MS;
+}
+
+// A hold never outlives the appointment it is holding
+export function getHoldExpiry(scheduledDate: Date | string, holdHours: number, now = new Date()): Date {
+  const expiry = new Date(now.getTime() + holdHours * HOUR_MS);
+  const start = new Date(scheduledDate);
+  return expiry < start ? expiry : start;
+}
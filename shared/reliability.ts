@@ -0,0 +1,36 @@
+import type { AppointmentApprovalState, AppointmentStatus, ClientReliability, ReliabilityAction } from "./schema";
+
+export const reliabilityActionLabels: Record<ReliabilityAction, string> = {
+  larger_deposit: "Require a larger deposit",
+  manager_approval: "Require manager approval",
+};
+
+export type ReliabilityLevel = "reliable" | "watch" | "flagged";
+
+export const reliabilityLevelLabels: Record<ReliabilityLevel, string> = {
+  reliable: "Reliable",
+  watch: "Watch",
+  flagged: "Unreliable",
+};
+
+// Reschedules are shown for context; only missed and late-cancelled sessions count against a client
+export function getReliabilityIncidents(reliability: ClientReliability | undefined): number {
+  return reliability ? reliability.noShows + reliability.lateCancellations : 0;
+}
+
+// A threshold of 0 means the studio has not set up a reliability rule
+export function isUnreliableClient(reliability: ClientReliability | undefined, threshold: number): boolean {
+  return threshold > 0 && getReliabilityIncidents(reliability) >= threshold;
+}
+
+export function getReliabilityLevel(reliability: ClientReliability | undefined, threshold: number): ReliabilityLevel {
+  if (isUnreliableClient(reliability, threshold)) return "flagged";
+  return getReliabilityIncidents(reliability) > 0 ? "watch" : "reliable";
+}
+
+// Until an admin signs off, a flagged booking can still be cancelled but not confirmed or started
+export const statusesRequiringApproval: readonly AppointmentStatus[] = ["confirmed", "in_progress"];
+
+export function isAwaitingApproval(appointment: Pick<AppointmentApprovalState, "approvalRequired" | "approvedAt">): boolean {
+  return !!appointment.approvalRequired && !appointment.approvedAt;
+}
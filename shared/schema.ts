@@ -2,6 +2,7 @@ import { sql } from 'drizzle-orm';
 import { relations } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -11,9 +12,11 @@ import {
   decimal,
   boolean,
   pgEnum,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./timezone";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -38,6 +41,57 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Weekly working hours, keyed by weekday in Date#getDay() order
+export const weekdays = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+export type Weekday = typeof weekdays[number];
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM format");
+
+export const timeWindowSchema = z
+  .object({
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  })
+  .refine((window) => window.start < window.end, {
+    message: "End time must be after start time",
+  });
+
+export const workingDaySchema = z
+  .object({
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+    breaks: z.array(timeWindowSchema).default([]),
+  })
+  .refine((day) => day.start < day.end, {
+    message: "End time must be after start time",
+    path: ["end"],
+  })
+  .refine((day) => day.breaks.every((window) => window.start >= day.start && window.end <= day.end), {
+    message: "Breaks must fall within working hours",
+    path: ["breaks"],
+  });
+
+// A missing or null weekday means the artist does not work that day
+export const weeklyScheduleSchema = z.object(
+  Object.fromEntries(weekdays.map((day) => [day, workingDaySchema.nullable().optional()])) as Record<
+    Weekday,
+    z.ZodOptional<z.ZodNullable<typeof workingDaySchema>>
+  >,
+);
+
+export type TimeWindow = z.infer<typeof timeWindowSchema>;
+export type WorkingDay = z.infer<typeof workingDaySchema>;
+export type WeeklySchedule = z.infer<typeof weeklyScheduleSchema>;
+
 // Artists table
 export const artists = pgTable("artists", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -46,8 +100,41 @@ export const artists = pgTable("artists", {
   email: varchar("email").unique(),
   phone: varchar("phone"),
   specialties: text("specialties").array().default([]),
+  workingHours: jsonb("working_hours").$type<WeeklySchedule>(),
+  // Free-text hours from before workingHours existed; shown to staff until they re-enter them, drop once every artist has workingHours
   schedule: text("schedule"),
   hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
+  // Unbilled minutes blocked before and after each session for setup and sterilising
+  setupMinutes: integer("setup_minutes").notNull().default(0),
+  cleanupMinutes: integer("cleanup_minutes").notNull().default(0),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Artist time off (vacations, sick days, personal days)
+export const artistTimeOff = pgTable("artist_time_off", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  artistId: varchar("artist_id").notNull().references(() => artists.id, { onDelete: 'cascade' }),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  type: varchar("type").notNull().default('vacation'), // vacation, sick, personal, other
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Station type enum
+export const stationTypeEnum = pgEnum('station_type', [
+  'station',
+  'room'
+]);
+
+// Stations and private rooms that a session can reserve
+export const stations = pgTable("stations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  type: stationTypeEnum("type").notNull().default('station'),
+  description: text("description"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -68,31 +155,408 @@ export const clients = pgTable("clients", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Client fields encrypted at rest and only shown to medicalInfoRoles
+export const sensitiveClientFields = ['emergencyContact', 'medicalNotes'] as const;
+export const medicalInfoRoles = ['admin', 'artist'];
+
+// Project status enum
+export const projectStatusEnum = pgEnum('project_status', [
+  'active',
+  'on_hold',
+  'completed',
+  'cancelled'
+]);
+
+// Projects group a client's sessions for one multi-session piece
+export const projects = pgTable("projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => clients.id),
+  artistId: varchar("artist_id").references(() => artists.id),
+  title: varchar("title").notNull(),
+  bodyPart: varchar("body_part"),
+  designNotes: text("design_notes"),
+  referenceImages: text("reference_images").array().default([]),
+  estimatedSessions: integer("estimated_sessions").notNull().default(1),
+  status: projectStatusEnum("status").default('active'),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Appointment status enum
 export const appointmentStatusEnum = pgEnum('appointment_status', [
   'scheduled',
   'confirmed',
+  'checked_in',
   'in_progress',
   'completed',
   'cancelled',
   'no_show'
 ]);
 
+export type AppointmentStatus = typeof appointmentStatusEnum.enumValues[number];
+
+// Statuses that no longer occupy the artist's time
+export const inactiveAppointmentStatuses = ['cancelled', 'no_show'] as const;
+
+// Appointment type enum
+export const appointmentTypeEnum = pgEnum('appointment_type', [
+  'consultation',
+  'tattoo',
+  'touch_up',
+  'piercing'
+]);
+
+export type AppointmentType = typeof appointmentTypeEnum.enumValues[number];
+
+// Deposit status enum
+export const depositStatusEnum = pgEnum('deposit_status', [
+  'not_required',
+  'pending',
+  'paid',
+  'applied',
+  'forfeited',
+  'expired',
+  'refund_due',
+  'refunded'
+]);
+
+export type DepositStatus = typeof depositStatusEnum.enumValues[number];
+
 // Appointments table
 export const appointments = pgTable("appointments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   clientId: varchar("client_id").notNull().references(() => clients.id),
   artistId: varchar("artist_id").notNull().references(() => artists.id),
+  projectId: varchar("project_id").references(() => projects.id),
+  stationId: varchar("station_id").references(() => stations.id, { onDelete: 'set null' }),
+  type: appointmentTypeEnum("type").notNull().default('tattoo'),
+  // The session a touch-up follows up on
+  originalAppointmentId: varchar("original_appointment_id").references((): AnyPgColumn => appointments.id),
   scheduledDate: timestamp("scheduled_date").notNull(),
   duration: integer("duration").notNull(), // in minutes
+  // Buffers around the session: they block the artist and station but are not client time
+  setupMinutes: integer("setup_minutes").notNull().default(0),
+  cleanupMinutes: integer("cleanup_minutes").notNull().default(0),
   bodyPart: varchar("body_part").notNull(),
   description: text("description"),
   referenceImages: text("reference_images").array().default([]),
+  // Photos of the piece once it has healed, added at or after the follow-up
+  healedPhotos: text("healed_photos").array().default([]),
   status: appointmentStatusEnum("status").default('scheduled'),
   estimatedPrice: decimal("estimated_price", { precision: 10, scale: 2 }),
+  depositAmount: decimal("deposit_amount", { precision: 10, scale: 2 }).default('0'),
+  depositStatus: depositStatusEnum("deposit_status").default('not_required').notNull(),
+  // While the deposit is pending the slot is only held until this time
+  holdExpiresAt: timestamp("hold_expires_at"),
+  depositPaidAt: timestamp("deposit_paid_at"),
+  depositPaymentMethod: varchar("deposit_payment_method"),
+  // How often the session was moved to a different time
+  rescheduleCount: integer("reschedule_count").notNull().default(0),
+  // Bookings for unreliable clients can need an admin's sign-off before they are confirmed
+  approvalRequired: boolean("approval_required").notNull().default(false),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Appointment status history table
+export const appointmentStatusHistory = pgTable("appointment_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: 'cascade' }),
+  fromStatus: appointmentStatusEnum("from_status"), // null for the initial status
+  toStatus: appointmentStatusEnum("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id),
+  reason: text("reason"),
+  changedAt: timestamp("changed_at").defaultNow(),
+});
+
+// Waitlist status enum
+export const waitlistStatusEnum = pgEnum('waitlist_status', [
+  'waiting',
+  'booked'
+]);
+
+// Waitlist table
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: 'cascade' }),
+  artistId: varchar("artist_id").notNull().references(() => artists.id, { onDelete: 'cascade' }),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: 'set null' }),
+  earliestDate: timestamp("earliest_date").notNull(),
+  latestDate: timestamp("latest_date").notNull(),
+  duration: integer("duration").notNull(), // in minutes
+  bodyPart: varchar("body_part").notNull(),
   notes: text("notes"),
+  status: waitlistStatusEnum("status").notNull().default('waiting'),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Walk-in status enum
+export const walkInStatusEnum = pgEnum('walk_in_status', [
+  'waiting',
+  'started'
+]);
+
+// Same-day clients waiting at the front desk for a free artist
+export const walkIns = pgTable("walk_ins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: 'cascade' }),
+  // Preferred artist, or null for whoever is free first
+  artistId: varchar("artist_id").references(() => artists.id, { onDelete: 'set null' }),
+  type: appointmentTypeEnum("type").notNull().default('tattoo'),
+  description: text("description"), // the desired piece
+  bodyPart: varchar("body_part").notNull(),
+  duration: integer("duration").notNull(), // estimated, in minutes
+  notes: text("notes"),
+  status: walkInStatusEnum("status").notNull().default('waiting'),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Booking request status enum
+export const bookingRequestStatusEnum = pgEnum('booking_request_status', [
+  'pending',
+  'approved',
+  'declined'
+]);
+
+// Booking requests submitted through the public booking page
+export const bookingRequests = pgTable("booking_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  firstName: varchar("first_name").notNull(),
+  lastName: varchar("last_name").notNull(),
+  email: varchar("email").notNull(),
+  phone: varchar("phone"),
+  dateOfBirth: timestamp("date_of_birth"),
+  artistId: varchar("artist_id").notNull().references(() => artists.id, { onDelete: 'cascade' }),
+  requestedDate: timestamp("requested_date").notNull(),
+  duration: integer("duration").notNull(), // in minutes
+  bodyPart: varchar("body_part").notNull(),
+  description: text("description").notNull(),
+  referenceImages: text("reference_images").array().default([]),
+  status: bookingRequestStatusEnum("status").notNull().default('pending'),
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: 'set null' }),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: 'set null' }),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  declineReason: text("decline_reason"),
+  ipAddress: varchar("ip_address"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Secret tokens for read-only iCalendar feeds; a null artist is the whole-studio feed
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  artistId: varchar("artist_id").references(() => artists.id, { onDelete: 'cascade' }),
+  token: varchar("token").notNull().unique(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Secret token for the front-desk check-in kiosk; only one is active at a time
+export const kioskTokens = pgTable("kiosk_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  token: varchar("token").notNull().unique(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Release and consent forms clients sign before their session
+export const consentForms = pgTable("consent_forms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title").notNull(),
+  body: text("body").notNull(),
+  // Appointment types the form is required for; empty means every type
+  appointmentTypes: appointmentTypeEnum("appointment_types").array().notNull().default([]),
+  // Goes up whenever the wording changes
+  version: integer("version").notNull().default(1),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A signature keeps its own copy of the form, so later edits never change what the client agreed to
+export const formSignatures = pgTable("form_signatures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  formId: varchar("form_id").notNull().references(() => consentForms.id, { onDelete: 'cascade' }),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: 'cascade' }),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: 'cascade' }),
+  // Defaults let signatures taken before forms were versioned survive db:push; the title and body
+  // are then filled in from the form on startup
+  formVersion: integer("form_version").notNull().default(1),
+  formTitle: varchar("form_title").notNull().default(''),
+  formBody: text("form_body").notNull().default(''),
+  signedName: varchar("signed_name").notNull(),
+  // PNG data URL of the signature drawn on screen; null for kiosk signatures that were a typed name only
+  signatureImage: text("signature_image"),
+  // Staff member who collected it; null when signed at the kiosk
+  collectedBy: varchar("collected_by").references(() => users.id),
+  signedAt: timestamp("signed_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_form_signature_appointment").on(table.formId, table.appointmentId)]);
+
+export const guardianIdTypeEnum = pgEnum('guardian_id_type', [
+  'drivers_license',
+  'passport',
+  'state_id',
+  'other'
+]);
+
+// A parent or legal guardian consenting for a client under the studio's minimum age; one per appointment
+export const guardianConsents = pgTable("guardian_consents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().unique().references(() => appointments.id, { onDelete: 'cascade' }),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: 'cascade' }),
+  guardianName: varchar("guardian_name").notNull(),
+  relationship: varchar("relationship").notNull(),
+  guardianPhone: varchar("guardian_phone"),
+  // The photo ID staff inspected in person
+  idType: guardianIdTypeEnum("id_type").notNull(),
+  idNumber: varchar("id_number").notNull(),
+  idExpiresAt: timestamp("id_expires_at").notNull(),
+  // The statement exactly as the guardian signed it
+  statement: text("statement").notNull(),
+  signatureImage: text("signature_image").notNull(),
+  collectedBy: varchar("collected_by").references(() => users.id),
+  signedAt: timestamp("signed_at").defaultNow(),
+});
+
+// What a client note records; everything but 'note' is a conversation with the client
+export const clientNoteKindEnum = pgEnum('client_note_kind', [
+  'note',
+  'call',
+  'email',
+  'sms',
+  'in_person'
+]);
+
+export type ClientNoteKind = typeof clientNoteKindEnum.enumValues[number];
+
+// Staff notes and a log of conversations with the client, shown on their profile
+export const clientNotes = pgTable("client_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: 'cascade' }),
+  kind: clientNoteKindEnum("kind").default('note').notNull(),
+  body: text("body").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A duplicate client folded into another. The removed record's identity is kept as it was for auditing
+export const clientMerges = pgTable("client_merges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  survivorId: varchar("survivor_id").references(() => clients.id, { onDelete: 'set null' }),
+  // The removed client no longer exists, so this is not a foreign key
+  mergedClientId: varchar("merged_client_id").notNull(),
+  mergedClient: jsonb("merged_client").$type<MergedClientSnapshot>().notNull(),
+  // Rows re-pointed to the survivor, by table
+  movedRecords: jsonb("moved_records").$type<Record<string, number>>().notNull(),
+  mergedBy: varchar("merged_by").references(() => users.id),
+  mergedAt: timestamp("merged_at").defaultNow(),
+});
+
+// Every time a staff member is shown a client's medical details
+export const medicalInfoAccess = pgTable("medical_info_access", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Kept after the client is deleted so the trail stays complete
+  clientId: varchar("client_id").references(() => clients.id, { onDelete: 'set null' }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  // Which screen showed the details: client or profile
+  source: varchar("source").notNull(),
+  accessedAt: timestamp("accessed_at").defaultNow(),
+});
+
+// In-app notifications for staff
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  title: varchar("title").notNull(),
+  body: text("body"),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: 'cascade' }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Reminder status enum
+export const reminderStatusEnum = pgEnum('reminder_status', [
+  'pending',
+  'sent',
+  'failed',
+  'cancelled'
+]);
+
+export const reminderChannelEnum = pgEnum('reminder_channel', [
+  'email',
+  'sms'
+]);
+
+// One row per reminder message; sendAt is derived from the appointment time it was scheduled for
+export const appointmentReminders = pgTable("appointment_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: 'cascade' }),
+  channel: reminderChannelEnum("channel").notNull(),
+  hoursBefore: integer("hours_before").notNull(),
+  appointmentDate: timestamp("appointment_date").notNull(),
+  sendAt: timestamp("send_at").notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  status: reminderStatusEnum("status").default('pending').notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_reminder_due").on(table.status, table.nextAttemptAt)]);
+
+export const reminderDeliveryAttempts = pgTable("reminder_delivery_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reminderId: varchar("reminder_id").notNull().references(() => appointmentReminders.id, { onDelete: 'cascade' }),
+  transport: varchar("transport").notNull(),
+  recipient: varchar("recipient").notNull(),
+  success: boolean("success").notNull(),
+  error: text("error"),
+  attemptedAt: timestamp("attempted_at").defaultNow(),
+});
+
+// What happens when a client with too many missed sessions books again
+export const reliabilityActionEnum = pgEnum('reliability_action', [
+  'larger_deposit',
+  'manager_approval'
+]);
+
+export type ReliabilityAction = typeof reliabilityActionEnum.enumValues[number];
+
+// What happens when a client is under the minimum age on the day of their appointment
+export const minorPolicyEnum = pgEnum('minor_policy', [
+  'block',
+  'guardian_consent'
+]);
+
+export type MinorPolicy = typeof minorPolicyEnum.enumValues[number];
+
+// Studio-wide configuration, stored as a single row
+export const studioSettings = pgTable("studio_settings", {
+  id: varchar("id").primaryKey().default('default'),
+  // IANA zone the studio's days, months and opening hours are counted in
+  timeZone: varchar("time_zone").default(DEFAULT_TIME_ZONE).notNull(),
+  defaultDepositAmount: decimal("default_deposit_amount", { precision: 10, scale: 2 }).default('0').notNull(),
+  depositHoldHours: integer("deposit_hold_hours").default(48).notNull(),
+  lateCancellationHours: integer("late_cancellation_hours").default(48).notNull(),
+  forfeitDepositOnNoShow: boolean("forfeit_deposit_on_no_show").default(true).notNull(),
+  forfeitDepositOnLateCancel: boolean("forfeit_deposit_on_late_cancel").default(true).notNull(),
+  // No-shows plus late cancellations at which the reliability rule kicks in; 0 turns it off
+  reliabilityThreshold: integer("reliability_threshold").default(0).notNull(),
+  reliabilityAction: reliabilityActionEnum("reliability_action").default('larger_deposit').notNull(),
+  reliabilityDepositAmount: decimal("reliability_deposit_amount", { precision: 10, scale: 2 }).default('0').notNull(),
+  minimumAge: integer("minimum_age").default(18).notNull(),
+  minorPolicy: minorPolicyEnum("minor_policy").default('block').notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Inventory categories enum
@@ -151,14 +615,44 @@ export const artistsRelations = relations(artists, ({ one, many }) => ({
   }),
   appointments: many(appointments),
   sales: many(sales),
+  timeOff: many(artistTimeOff),
+  waitlistEntries: many(waitlistEntries),
+  walkIns: many(walkIns),
+}));
+
+export const artistTimeOffRelations = relations(artistTimeOff, ({ one }) => ({
+  artist: one(artists, {
+    fields: [artistTimeOff.artistId],
+    references: [artists.id],
+  }),
+}));
+
+export const stationsRelations = relations(stations, ({ many }) => ({
+  appointments: many(appointments),
 }));
 
 export const clientsRelations = relations(clients, ({ many }) => ({
   appointments: many(appointments),
   sales: many(sales),
+  projects: many(projects),
+  waitlistEntries: many(waitlistEntries),
+  walkIns: many(walkIns),
+  notes: many(clientNotes),
+}));
+
+export const projectsRelations = relations(projects, ({ one, many }) => ({
+  client: one(clients, {
+    fields: [projects.clientId],
+    references: [clients.id],
+  }),
+  artist: one(artists, {
+    fields: [projects.artistId],
+    references: [artists.id],
+  }),
+  appointments: many(appointments),
 }));
 
-export const appointmentsRelations = relations(appointments, ({ one }) => ({
+export const appointmentsRelations = relations(appointments, ({ one, many }) => ({
   client: one(clients, {
     fields: [appointments.clientId],
     references: [clients.id],
@@ -167,10 +661,175 @@ export const appointmentsRelations = relations(appointments, ({ one }) => ({
     fields: [appointments.artistId],
     references: [artists.id],
   }),
+  project: one(projects, {
+    fields: [appointments.projectId],
+    references: [projects.id],
+  }),
+  station: one(stations, {
+    fields: [appointments.stationId],
+    references: [stations.id],
+  }),
+  originalAppointment: one(appointments, {
+    fields: [appointments.originalAppointmentId],
+    references: [appointments.id],
+    relationName: 'touchUps',
+  }),
+  touchUps: many(appointments, { relationName: 'touchUps' }),
   sale: one(sales, {
     fields: [appointments.id],
     references: [sales.appointmentId],
   }),
+  statusHistory: many(appointmentStatusHistory),
+  reminders: many(appointmentReminders),
+}));
+
+export const appointmentStatusHistoryRelations = relations(appointmentStatusHistory, ({ one }) => ({
+  appointment: one(appointments, {
+    fields: [appointmentStatusHistory.appointmentId],
+    references: [appointments.id],
+  }),
+  user: one(users, {
+    fields: [appointmentStatusHistory.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const appointmentRemindersRelations = relations(appointmentReminders, ({ one, many }) => ({
+  appointment: one(appointments, {
+    fields: [appointmentReminders.appointmentId],
+    references: [appointments.id],
+  }),
+  deliveryAttempts: many(reminderDeliveryAttempts),
+}));
+
+export const reminderDeliveryAttemptsRelations = relations(reminderDeliveryAttempts, ({ one }) => ({
+  reminder: one(appointmentReminders, {
+    fields: [reminderDeliveryAttempts.reminderId],
+    references: [appointmentReminders.id],
+  }),
+}));
+
+export const waitlistEntriesRelations = relations(waitlistEntries, ({ one }) => ({
+  client: one(clients, {
+    fields: [waitlistEntries.clientId],
+    references: [clients.id],
+  }),
+  artist: one(artists, {
+    fields: [waitlistEntries.artistId],
+    references: [artists.id],
+  }),
+  project: one(projects, {
+    fields: [waitlistEntries.projectId],
+    references: [projects.id],
+  }),
+  appointment: one(appointments, {
+    fields: [waitlistEntries.appointmentId],
+    references: [appointments.id],
+  }),
+}));
+
+export const walkInsRelations = relations(walkIns, ({ one }) => ({
+  client: one(clients, {
+    fields: [walkIns.clientId],
+    references: [clients.id],
+  }),
+  artist: one(artists, {
+    fields: [walkIns.artistId],
+    references: [artists.id],
+  }),
+  appointment: one(appointments, {
+    fields: [walkIns.appointmentId],
+    references: [appointments.id],
+  }),
+}));
+
+export const consentFormsRelations = relations(consentForms, ({ many }) => ({
+  signatures: many(formSignatures),
+}));
+
+export const formSignaturesRelations = relations(formSignatures, ({ one }) => ({
+  form: one(consentForms, {
+    fields: [formSignatures.formId],
+    references: [consentForms.id],
+  }),
+  client: one(clients, {
+    fields: [formSignatures.clientId],
+    references: [clients.id],
+  }),
+  appointment: one(appointments, {
+    fields: [formSignatures.appointmentId],
+    references: [appointments.id],
+  }),
+}));
+
+export const guardianConsentsRelations = relations(guardianConsents, ({ one }) => ({
+  appointment: one(appointments, {
+    fields: [guardianConsents.appointmentId],
+    references: [appointments.id],
+  }),
+  client: one(clients, {
+    fields: [guardianConsents.clientId],
+    references: [clients.id],
+  }),
+}));
+
+export const clientNotesRelations = relations(clientNotes, ({ one }) => ({
+  client: one(clients, {
+    fields: [clientNotes.clientId],
+    references: [clients.id],
+  }),
+  author: one(users, {
+    fields: [clientNotes.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const clientMergesRelations = relations(clientMerges, ({ one }) => ({
+  survivor: one(clients, {
+    fields: [clientMerges.survivorId],
+    references: [clients.id],
+  }),
+  mergedByUser: one(users, {
+    fields: [clientMerges.mergedBy],
+    references: [users.id],
+  }),
+}));
+
+export const medicalInfoAccessRelations = relations(medicalInfoAccess, ({ one }) => ({
+  client: one(clients, {
+    fields: [medicalInfoAccess.clientId],
+    references: [clients.id],
+  }),
+  user: one(users, {
+    fields: [medicalInfoAccess.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  appointment: one(appointments, {
+    fields: [notifications.appointmentId],
+    references: [appointments.id],
+  }),
+}));
+
+export const bookingRequestsRelations = relations(bookingRequests, ({ one }) => ({
+  artist: one(artists, {
+    fields: [bookingRequests.artistId],
+    references: [artists.id],
+  }),
+  client: one(clients, {
+    fields: [bookingRequests.clientId],
+    references: [clients.id],
+  }),
+  appointment: one(appointments, {
+    fields: [bookingRequests.appointmentId],
+    references: [appointments.id],
+  }),
 }));
 
 export const salesRelations = relations(sales, ({ one }) => ({
@@ -192,7 +851,38 @@ export const salesRelations = relations(sales, ({ one }) => ({
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
-export const insertArtistSchema = createInsertSchema(artists).omit({
+// Non-negative amount with at most two decimal places, as stored in decimal(10, 2) columns
+const moneyAmountPattern = /^\d+(\.\d{1,2})?$/;
+
+// Setup and cleanup buffers in minutes
+const bufferMinutes = z.number().int().min(0).max(240).optional();
+
+export const insertArtistSchema = createInsertSchema(artists, {
+  workingHours: weeklyScheduleSchema.nullable().optional(),
+  setupMinutes: bufferMinutes,
+  cleanupMinutes: bufferMinutes,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertArtistTimeOffSchema = createInsertSchema(artistTimeOff, {
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+})
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .refine((timeOff) => timeOff.startDate < timeOff.endDate, {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  });
+
+export const insertStationSchema = createInsertSchema(stations, {
+  name: (schema) => schema.trim().min(1).max(100),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -204,18 +894,206 @@ export const insertClientSchema = createInsertSchema(clients).omit({
   updatedAt: true,
 });
 
-export const insertAppointmentSchema = createInsertSchema(appointments).omit({
+export const insertClientNoteSchema = createInsertSchema(clientNotes, {
+  body: (schema) => schema.trim().min(1).max(5000),
+}).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+export const mergeClientsSchema = z.object({
+  survivorId: z.string().min(1),
+  duplicateId: z.string().min(1),
+}).refine((merge) => merge.survivorId !== merge.duplicateId, "A client cannot be merged into itself");
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  estimatedSessions: (schema) => schema.int().min(1),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  scheduledDate: z.coerce.date(),
+  setupMinutes: bufferMinutes,
+  cleanupMinutes: bufferMinutes,
+  depositAmount: (schema) => schema.regex(moneyAmountPattern, "Enter an amount like 50 or 49.99"),
+}).omit({
+  id: true,
+  // Deposit bookkeeping is driven by the server, not by request bodies
+  depositStatus: true,
+  holdExpiresAt: true,
+  depositPaidAt: true,
+  depositPaymentMethod: true,
+  rescheduleCount: true,
+  approvalRequired: true,
+  approvedBy: true,
+  approvedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const recordDepositSchema = z.object({
+  paymentMethod: z.string().trim().min(1).max(40),
+});
+
+export const appointmentStatusChangeSchema = z.object({
+  status: z.enum(appointmentStatusEnum.enumValues),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries, {
+  earliestDate: z.coerce.date(),
+  latestDate: z.coerce.date(),
+  duration: (schema) => schema.int().positive().max(12 * 60),
+})
+  .omit({
+    id: true,
+    status: true,
+    appointmentId: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .refine((entry) => entry.earliestDate < entry.latestDate, {
+    message: "Latest date must be after earliest date",
+    path: ["latestDate"],
+  });
+
+export const bookWaitlistEntrySchema = z.object({
+  scheduledDate: z.coerce.date(),
+});
+
+export const insertWalkInSchema = createInsertSchema(walkIns, {
+  description: (schema) => schema.trim().max(2000),
+  bodyPart: (schema) => schema.min(1).max(50),
+  duration: (schema) => schema.int().positive().max(8 * 60),
+}).omit({
+  id: true,
+  status: true,
+  appointmentId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// The artist (and optionally station) picking a walk-in up right now
+export const startWalkInSchema = z.object({
+  artistId: z.string().min(1),
+  stationId: z.string().nullable().optional(),
+});
+
+export const insertConsentFormSchema = createInsertSchema(consentForms, {
+  title: (schema) => schema.trim().min(1).max(200),
+  body: (schema) => schema.trim().min(1).max(20000),
+  appointmentTypes: z.array(z.enum(appointmentTypeEnum.enumValues)).optional(),
+}).omit({
+  id: true,
+  version: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateConsentFormSchema = insertConsentFormSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+// A typed name plus a signature drawn on a canvas
+export const formSignatureInputSchema = z.object({
+  formId: z.string().min(1),
+  signedName: z.string().trim().min(1).max(200),
+  signatureImage: z.string().regex(/^data:image\/png;base64,[A-Za-z0-9+/]+=*$/, "Please sign in the box").max(200000),
+});
+
+// The guardian's details and ID as checked by staff; the statement is worded on the server
+export const guardianConsentInputSchema = z.object({
+  guardianName: z.string().trim().min(1).max(200),
+  relationship: z.string().trim().min(1).max(100),
+  guardianPhone: z.string().trim().max(50).nullable().optional(),
+  idType: z.enum(guardianIdTypeEnum.enumValues),
+  idNumber: z.string().trim().min(1).max(100),
+  idExpiresAt: z.coerce.date().refine((date) => date > new Date(), "The guardian's ID has expired"),
+  signatureImage: formSignatureInputSchema.shape.signatureImage,
+});
+
+// What a client can look themselves up by at the kiosk: their full name or phone number
+export const kioskLookupSchema = z.object({
+  query: z.string().trim().min(3).max(100),
+});
+
+export const kioskCheckInSchema = z.object({
+  // Only the contact details the client changed
+  email: z.string().trim().email().max(200).optional(),
+  phone: z.string().trim().min(7).max(40).optional(),
+  signatures: z
+    .array(formSignatureInputSchema)
+    .max(20)
+    .default([]),
+});
+
+// What a prospective client can submit from the public booking page
+export const publicBookingRequestSchema = createInsertSchema(bookingRequests, {
+  firstName: (schema) => schema.trim().min(1).max(100),
+  lastName: (schema) => schema.trim().min(1).max(100),
+  email: (schema) => schema.trim().email().max(200),
+  phone: (schema) => schema.trim().max(40),
+  dateOfBirth: z.coerce.date().nullable().optional(),
+  requestedDate: z.coerce.date(),
+  duration: (schema) => schema.int().positive().max(8 * 60),
+  bodyPart: (schema) => schema.min(1).max(50),
+  description: (schema) => schema.trim().min(10).max(2000),
+  referenceImages: z.array(z.string().regex(/^\/uploads\/[\w.-]+$/)).max(5).optional(),
+})
+  .pick({
+    firstName: true,
+    lastName: true,
+    email: true,
+    phone: true,
+    dateOfBirth: true,
+    artistId: true,
+    requestedDate: true,
+    duration: true,
+    bodyPart: true,
+    description: true,
+    referenceImages: true,
+  })
+  .extend({
+    // Spam traps: a hidden field humans leave empty, and when the form was opened
+    website: z.string().optional(),
+    formStartedAt: z.coerce.number(),
+  });
+
+export const approveBookingRequestSchema = z.object({
+  clientId: z.string().optional(),
+});
+
+export const declineBookingRequestSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
 export const insertInventorySchema = createInsertSchema(inventory).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const updateStudioSettingsSchema = createInsertSchema(studioSettings, {
+  defaultDepositAmount: (schema) => schema.regex(moneyAmountPattern, "Enter an amount like 50 or 49.99"),
+  depositHoldHours: (schema) => schema.int().min(1).max(24 * 14),
+  lateCancellationHours: (schema) => schema.int().min(0).max(24 * 30),
+  timeZone: (schema) => schema.refine(isValidTimeZone, "Unknown time zone"),
+  reliabilityThreshold: (schema) => schema.int().min(0).max(50),
+  reliabilityDepositAmount: (schema) => schema.regex(moneyAmountPattern, "Enter an amount like 50 or 49.99"),
+  minimumAge: (schema) => schema.int().min(0).max(25),
+})
+  .omit({
+    id: true,
+    updatedBy: true,
+    updatedAt: true,
+  })
+  .partial();
+
 export const insertSaleSchema = createInsertSchema(sales).omit({
   id: true,
   createdAt: true,
@@ -225,22 +1103,275 @@ export const insertSaleSchema = createInsertSchema(sales).omit({
 export type InsertArtist = z.infer<typeof insertArtistSchema>;
 export type Artist = typeof artists.$inferSelect;
 
+export type InsertArtistTimeOff = z.infer<typeof insertArtistTimeOffSchema>;
+export type ArtistTimeOff = typeof artistTimeOff.$inferSelect;
+
+export type InsertStation = z.infer<typeof insertStationSchema>;
+export type Station = typeof stations.$inferSelect;
+export type StationType = typeof stationTypeEnum.enumValues[number];
+
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type Client = typeof clients.$inferSelect;
 
+export type InsertClientNote = z.infer<typeof insertClientNoteSchema>;
+export type ClientNote = typeof clientNotes.$inferSelect;
+export type ClientMerge = typeof clientMerges.$inferSelect;
+export type InsertClientMerge = typeof clientMerges.$inferInsert;
+export type MedicalInfoAccess = typeof medicalInfoAccess.$inferSelect;
+export type InsertMedicalInfoAccess = typeof medicalInfoAccess.$inferInsert;
+export type SensitiveClientField = typeof sensitiveClientFields[number];
+export type MergeClients = z.infer<typeof mergeClientsSchema>;
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 
+// Server-managed deposit fields that accompany a new or updated appointment
+export type AppointmentDepositState = Pick<typeof appointments.$inferInsert, 'depositStatus' | 'holdExpiresAt'>;
+// Server-managed sign-off for bookings caught by the reliability rule
+export type AppointmentApprovalState = Pick<typeof appointments.$inferInsert, 'approvalRequired' | 'approvedBy' | 'approvedAt'>;
+export type AppointmentWrite = InsertAppointment & AppointmentDepositState & AppointmentApprovalState;
+export type AppointmentBuffers = Pick<Appointment, 'setupMinutes' | 'cleanupMinutes'>;
+
+export type AppointmentStatusChangeRequest = z.infer<typeof appointmentStatusChangeSchema>;
+export type AppointmentStatusChange = typeof appointmentStatusHistory.$inferSelect;
+
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+
+export type InsertWalkIn = z.infer<typeof insertWalkInSchema>;
+export type WalkIn = typeof walkIns.$inferSelect;
+
+export type PublicBookingRequest = z.infer<typeof publicBookingRequestSchema>;
+export type BookingRequest = typeof bookingRequests.$inferSelect;
+export type InsertBookingRequest = typeof bookingRequests.$inferInsert;
+
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
+export type KioskToken = typeof kioskTokens.$inferSelect;
+
+export type InsertConsentForm = z.infer<typeof insertConsentFormSchema>;
+export type UpdateConsentForm = z.infer<typeof updateConsentFormSchema>;
+export type ConsentForm = typeof consentForms.$inferSelect;
+export type FormSignature = typeof formSignatures.$inferSelect;
+export type InsertFormSignature = typeof formSignatures.$inferInsert;
+export type FormSignatureInput = z.infer<typeof formSignatureInputSchema>;
+export type GuardianIdType = typeof guardianIdTypeEnum.enumValues[number];
+export type GuardianConsent = typeof guardianConsents.$inferSelect;
+export type InsertGuardianConsent = typeof guardianConsents.$inferInsert;
+export type GuardianConsentInput = z.infer<typeof guardianConsentInputSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+export type KioskCheckIn = z.infer<typeof kioskCheckInSchema>;
+
+export type ReminderChannel = typeof reminderChannelEnum.enumValues[number];
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+export type InsertAppointmentReminder = typeof appointmentReminders.$inferInsert;
+export type ReminderDeliveryAttempt = typeof reminderDeliveryAttempts.$inferSelect;
+
+export type StudioSettings = typeof studioSettings.$inferSelect;
+export type UpdateStudioSettings = z.infer<typeof updateStudioSettingsSchema>;
+
 export type InsertInventory = z.infer<typeof insertInventorySchema>;
 export type InventoryItem = typeof inventory.$inferSelect;
 
 export type InsertSale = z.infer<typeof insertSaleSchema>;
 export type Sale = typeof sales.$inferSelect;
 
+// Availability search
+export const availabilityQuerySchema = z
+  .object({
+    artistId: z.string().optional(),
+    specialty: z.string().optional(),
+    type: z.enum(appointmentTypeEnum.enumValues).optional(),
+    duration: z.coerce.number().int().positive().max(12 * 60),
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    step: z.coerce.number().int().min(5).default(30),
+    limit: z.coerce.number().int().positive().max(500).default(100),
+  })
+  .refine((query) => query.artistId || query.specialty, {
+    message: "An artist or specialty is required",
+  })
+  .refine((query) => query.from < query.to, {
+    message: "End of range must be after start",
+  })
+  .refine((query) => query.to.getTime() - query.from.getTime() <= 31 * 24 * 60 * 60 * 1000, {
+    message: "Range cannot exceed 31 days",
+  });
+
+export type AvailabilityQuery = z.infer<typeof availabilityQuerySchema>;
+
+// An artist's unavailable period whose bookings need to be reassigned or moved
+export const unavailabilityQuerySchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  })
+  .refine((query) => query.from < query.to, {
+    message: "End of range must be after start",
+  })
+  .refine((query) => query.to.getTime() - query.from.getTime() <= 31 * 24 * 60 * 60 * 1000, {
+    message: "Range cannot exceed 31 days",
+  });
+
+export const bulkRescheduleSchema = z.object({
+  changes: z
+    .array(z.discriminatedUnion("action", [
+      z.object({ appointmentId: z.string().min(1), action: z.literal("reassign"), artistId: z.string().min(1) }),
+      z.object({ appointmentId: z.string().min(1), action: z.literal("move"), scheduledDate: z.coerce.date() }),
+    ]))
+    .min(1)
+    .max(200),
+});
+
+export type BulkRescheduleChange = z.infer<typeof bulkRescheduleSchema>["changes"][number];
+
+export type AvailableSlot = {
+  artistId: string;
+  artistName: string;
+  start: Date;
+  end: Date;
+};
+
 // Extended types with relations
 export type AppointmentWithRelations = Appointment & {
   client: Client;
   artist: Artist;
+  station: Station | null;
+};
+
+export type AppointmentStatusChangeWithUser = AppointmentStatusChange & {
+  user?: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+};
+
+export type WaitlistEntryWithRelations = WaitlistEntry & {
+  client: Client;
+  artist: Artist;
+};
+
+// A waitlist entry that fits a freed-up window, best match first
+export type WaitlistCandidate = WaitlistEntryWithRelations & {
+  unusedMinutes: number;
+  waitingDays: number;
+};
+
+export type ReassignOption = {
+  artistId: string;
+  artistName: string;
+  sharedSpecialties: string[];
+};
+
+// What could happen to one booking of an unavailable artist: another artist at the same time,
+// or the artist's next free slot after the unavailable period
+export type RescheduleProposal = {
+  appointment: AppointmentWithRelations;
+  reassignOptions: ReassignOption[];
+  proposedSlot: { start: Date; end: Date } | null;
+};
+
+export type BulkRescheduleResult = {
+  appointmentId: string;
+  ok: boolean;
+  message?: string;
+};
+
+export type WalkInWithRelations = WalkIn & {
+  client: Client;
+  artist: Artist | null;
+};
+
+// A waiting walk-in with the artist and time they are likely to be picked up,
+// or null estimates when nobody has room for them today
+export type WalkInQueueEntry = WalkInWithRelations & {
+  estimatedArtistId: string | null;
+  estimatedStart: Date | null;
+  estimatedWaitMinutes: number | null;
+};
+
+export type ArtistFreeTime = {
+  artistId: string;
+  artistName: string;
+  freeMinutes: number; // left today, from now
+  nextFreeAt: Date | null;
+};
+
+export type WalkInQueue = {
+  entries: WalkInQueueEntry[];
+  artists: ArtistFreeTime[];
+};
+
+// The little the kiosk may show about an appointment: no surname and masked contact details
+export type KioskAppointment = {
+  id: string;
+  scheduledDate: Date;
+  type: AppointmentType;
+  artistName: string;
+  clientFirstName: string;
+  maskedEmail: string | null;
+  maskedPhone: string | null;
+  outstandingForms: Pick<ConsentForm, 'id' | 'title' | 'body'>[];
+};
+
+// A form that applies to an appointment, or was signed for it, and its signature if there is one
+export type AppointmentFormStatus = {
+  form: ConsentForm;
+  required: boolean;
+  signature: FormSignature | null;
+};
+
+// Age on the appointment day (null without a date of birth) and whether a guardian has to consent
+export type AppointmentGuardianStatus = {
+  age: number | null;
+  minimumAge: number;
+  minorPolicy: MinorPolicy;
+  required: boolean;
+  consent: GuardianConsent | null;
+};
+
+export type AppointmentReminderWithAttempts = AppointmentReminder & {
+  deliveryAttempts: ReminderDeliveryAttempt[];
+};
+
+// Attendance record of a client across all their appointments
+export type ClientReliability = {
+  clientId: string;
+  totalAppointments: number;
+  noShows: number;
+  lateCancellations: number;
+  reschedules: number;
+};
+
+export type PublicArtist = Pick<Artist, 'id' | 'name' | 'specialties'>;
+
+export type PublicStudio = Pick<StudioSettings, 'timeZone' | 'minimumAge' | 'minorPolicy'>;
+
+export type BookingRequestWithRelations = BookingRequest & {
+  artist: Artist;
+  // Existing client with the same email, who the request will be attached to on approval
+  matchingClient?: Client;
+};
+
+export type ProjectProgress = {
+  completedSessions: number;
+  bookedSessions: number;
+  totalSales: number;
+  totalPaid: number;
+  outstandingBalance: number;
+};
+
+export type ProjectWithProgress = Project & {
+  client: Client;
+  artist?: Artist;
+  progress: ProjectProgress;
+};
+
+export type ProjectWithDetails = ProjectWithProgress & {
+  appointments: AppointmentWithRelations[];
+  sales: SaleWithRelations[];
 };
 
 export type SaleWithRelations = Sale & {
@@ -248,3 +1379,62 @@ export type SaleWithRelations = Sale & {
   artist: Artist;
   appointment?: Appointment;
 };
+
+export type ClientNoteWithAuthor = ClientNote & {
+  author?: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+};
+
+// Who the removed client was; dates are stored as ISO strings
+export type MergedClientSnapshot = {
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  dateOfBirth: string | null;
+  createdAt: string | null;
+};
+
+export type ClientSearchField = 'name' | 'email' | 'phone' | 'address';
+
+// A search hit with the field that matched best; results come best match first
+export type ClientSearchResult = Client & {
+  matchedField: ClientSearchField;
+  score: number;
+};
+
+export type DuplicateMatchReason = 'email' | 'phone' | 'name' | 'date_of_birth';
+
+// Two clients that are probably the same person; the higher the score the surer
+export type DuplicateClientPair = {
+  clients: [Client, Client];
+  score: number;
+  reasons: DuplicateMatchReason[];
+};
+
+export type ClientMergeWithUser = ClientMerge & {
+  mergedByUser?: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+};
+
+export type MedicalInfoAccessWithUser = MedicalInfoAccess & {
+  user: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+};
+
+// One entry in a client's history; date is when it happened and orders the timeline
+export type ClientTimelineEvent =
+  | { kind: 'appointment'; date: Date; appointment: AppointmentWithRelations }
+  | { kind: 'project'; date: Date; project: Project }
+  | { kind: 'deposit'; date: Date; appointmentId: string; amount: string; paymentMethod: string | null }
+  | { kind: 'sale'; date: Date; sale: SaleWithRelations }
+  | { kind: 'signature'; date: Date; signature: FormSignature }
+  | { kind: 'note'; date: Date; note: ClientNoteWithAuthor }
+  | { kind: 'message'; date: Date; reminder: AppointmentReminder }
+  | { kind: 'merge'; date: Date; merge: ClientMergeWithUser };
+
+export type ClientProfile = {
+  client: Client;
+  // What the client has actually paid across all sales
+  lifetimeValue: number;
+  outstandingBalance: number;
+  completedSessions: number;
+  timeline: ClientTimelineEvent[];
+};
@@ -0,0 +1,147 @@
+// Calendar arithmetic in the studio's IANA time zone, independent of where the code runs
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface ZonedDateTime extends CalendarDate {
+  hour: number;
+  minute: number;
+  weekday: number; // Date#getDay() order
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date; // exclusive
+}
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getZonedParts(date: Date | string, timeZone: string): ZonedDateTime {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(new Date(date))
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)]),
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given moment
+function getOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const wholeMinute = date.getTime() - (date.getTime() % (60 * 1000));
+  return asUtc - wholeMinute;
+}
+
+// The moment a wall-clock time occurs in the zone; out-of-range days and minutes roll over
+export function fromZonedTime(date: CalendarDate & { minute?: number }, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, 0, date.minute ?? 0);
+  const guess = wallClock - getOffset(new Date(wallClock), timeZone);
+  // Re-check once in case the guess landed on the other side of a DST change
+  return new Date(wallClock - getOffset(new Date(guess), timeZone));
+}
+
+export function toDateKey(date: CalendarDate): string {
+  return [date.year, date.month, date.day].map((n, i) => String(n).padStart(i === 0 ? 4 : 2, "0")).join("-");
+}
+
+export function parseDateKey(key: string): CalendarDate | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  return match ? { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) } : undefined;
+}
+
+// e.g. "2024-05-31" for the day it is in the zone at that moment
+export function getZonedDateKey(date: Date | string, timeZone: string): string {
+  return toDateKey(getZonedParts(date, timeZone));
+}
+
+export function getMinutesIntoZonedDay(date: Date | string, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  return parts.hour * 60 + parts.minute;
+}
+
+export function getZonedDayRange({ year, month, day }: CalendarDate, timeZone: string): DateRange {
+  return {
+    start: fromZonedTime({ year, month, day }, timeZone),
+    end: fromZonedTime({ year, month, day: day + 1 }, timeZone),
+  };
+}
+
+export function getZonedMonthRange({ year, month }: Pick<CalendarDate, "year" | "month">, timeZone: string): DateRange {
+  return {
+    start: fromZonedTime({ year, month, day: 1 }, timeZone),
+    end: fromZonedTime({ year, month: month + 1, day: 1 }, timeZone),
+  };
+}
+
+export function getZonedYearRange(year: number, timeZone: string): DateRange {
+  return {
+    start: fromZonedTime({ year, month: 1, day: 1 }, timeZone),
+    end: fromZonedTime({ year: year + 1, month: 1, day: 1 }, timeZone),
+  };
+}
+
+// A calendar day given as "YYYY-MM-DD" or as any moment during it
+export function resolveCalendarDate(date: Date | string, timeZone: string): CalendarDate {
+  return (typeof date === "string" && parseDateKey(date)) || getZonedParts(date, timeZone);
+}
+
+export const reportPeriods = ["today", "week", "month", "year"] as const;
+export type ReportPeriod = (typeof reportPeriods)[number];
+
+// "week" is the last seven days including today
+export function getZonedPeriodRange(period: ReportPeriod, now: Date, timeZone: string): DateRange {
+  const today = getZonedParts(now, timeZone);
+  switch (period) {
+    case "today":
+      return getZonedDayRange(today, timeZone);
+    case "week":
+      return {
+        start: fromZonedTime({ year: today.year, month: today.month, day: today.day - 6 }, timeZone),
+        end: getZonedDayRange(today, timeZone).end,
+      };
+    case "month":
+      return getZonedMonthRange(today, timeZone);
+    case "year":
+      return getZonedYearRange(today.year, timeZone);
+  }
+}
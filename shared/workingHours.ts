@@ -0,0 +1,160 @@
+import { weekdays, type WeeklySchedule, type WorkingDay } from "./schema";
+import { fromZonedTime, getZonedDateKey, getZonedParts, type CalendarDate } from "./timezone";
+
+// Minutes since midnight
+export interface MinuteRange {
+  start: number;
+  end: number;
+}
+
+export const weekdayLabels: Record<(typeof weekdays)[number], string> = {
+  sunday: "Sun",
+  monday: "Mon",
+  tuesday: "Tue",
+  wednesday: "Wed",
+  thursday: "Thu",
+  friday: "Fri",
+  saturday: "Sat",
+};
+
+export const defaultWeeklySchedule: WeeklySchedule = {
+  sunday: null,
+  monday: null,
+  tuesday: { start: "10:00", end: "18:00", breaks: [] },
+  wednesday: { start: "10:00", end: "18:00", breaks: [] },
+  thursday: { start: "10:00", end: "18:00", breaks: [] },
+  friday: { start: "10:00", end: "18:00", breaks: [] },
+  saturday: { start: "10:00", end: "18:00", breaks: [] },
+};
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`;
+}
+
+// Working hours are wall-clock times in the studio's time zone
+export function getWorkingDay(
+  schedule: WeeklySchedule | null | undefined,
+  date: Date,
+  timeZone: string,
+): WorkingDay | null {
+  return schedule?.[weekdays[getZonedParts(date, timeZone).weekday]] ?? null;
+}
+
+// The working window with breaks cut out of it
+export function getOpenRanges(day: WorkingDay): MinuteRange[] {
+  const breaks = [...(day.breaks ?? [])]
+    .map((b) => ({ start: timeToMinutes(b.start), end: timeToMinutes(b.end) }))
+    .sort((a, b) => a.start - b.start);
+
+  const ranges: MinuteRange[] = [];
+  let cursor = timeToMinutes(day.start);
+  const dayEnd = timeToMinutes(day.end);
+
+  for (const b of breaks) {
+    if (b.end <= cursor || b.start >= dayEnd) continue;
+    if (b.start > cursor) {
+      ranges.push({ start: cursor, end: b.start });
+    }
+    cursor = Math.max(cursor, b.end);
+  }
+  if (cursor < dayEnd) {
+    ranges.push({ start: cursor, end: dayEnd });
+  }
+
+  return ranges;
+}
+
+export function fitsWorkingHours(
+  schedule: WeeklySchedule | null | undefined,
+  start: Date,
+  end: Date,
+  timeZone: string,
+): boolean {
+  const day = getWorkingDay(schedule, start, timeZone);
+  if (!day || getZonedDateKey(start, timeZone) !== getZonedDateKey(new Date(end.getTime() - 1), timeZone)) {
+    return false;
+  }
+
+  const { hour, minute } = getZonedParts(start, timeZone);
+  const startMinutes = hour * 60 + minute;
+  const endMinutes = startMinutes + Math.round((end.getTime() - start.getTime()) / 60000);
+
+  return getOpenRanges(day).some((range) => range.start <= startMinutes && endMinutes <= range.end);
+}
+
+// e.g. "Tue–Sat 10:00–18:00" or "Mon 09:00–13:00, Wed 12:00–20:00"
+export function summarizeWeeklySchedule(schedule: WeeklySchedule | null | undefined): string {
+  if (!schedule) return "";
+
+  const groups: { days: string[]; hours: string; lastIndex: number }[] = [];
+  weekdays.forEach((weekday, index) => {
+    const day = schedule[weekday];
+    if (!day) return;
+    const hours = `${day.start}–${day.end}`;
+    const last = groups[groups.length - 1];
+    if (last && last.hours === hours && last.lastIndex === index - 1) {
+      last.days.push(weekdayLabels[weekday]);
+      last.lastIndex = index;
+    } else {
+      groups.push({ days: [weekdayLabels[weekday]], hours, lastIndex: index });
+    }
+  });
+
+  return groups
+    .map((group) => {
+      const days = group.days.length > 2
+        ? `${group.days[0]}–${group.days[group.days.length - 1]}`
+        : group.days.join(", ");
+      return `${days} ${group.hours}`;
+    })
+    .join(", ");
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+// Slot starts stepping through each open range of each working day, skipping busy periods
+export function computeOpenSlots(
+  schedule: WeeklySchedule | null | undefined,
+  busy: TimeRange[],
+  from: Date,
+  to: Date,
+  durationMinutes: number,
+  stepMinutes: number,
+  timeZone: string,
+): TimeRange[] {
+  const slots: TimeRange[] = [];
+  const { year, month, day: firstDay } = getZonedParts(from, timeZone);
+
+  for (let offset = 0; ; offset++) {
+    const day: CalendarDate = { year, month, day: firstDay + offset };
+    const dayStart = fromZonedTime(day, timeZone);
+    if (dayStart >= to) break;
+
+    const workingDay = getWorkingDay(schedule, dayStart, timeZone);
+    if (workingDay) {
+      for (const range of getOpenRanges(workingDay)) {
+        for (let minute = range.start; minute + durationMinutes <= range.end; minute += stepMinutes) {
+          const start = fromZonedTime({ ...day, minute }, timeZone);
+          const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+          if (start < from || end > to) continue;
+          if (busy.some((period) => period.start < end && period.end > start)) continue;
+
+          slots.push({ start, end });
+        }
+      }
+    }
+  }
+
+  return slots;
+}